@@ -0,0 +1,181 @@
+import fs from 'fs';
+import os from 'os';
+import nodePath from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Loan } from '@/types';
+
+// The API routes run against a local backend in a temporary directory
+const root = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'loan-collateral-'));
+process.env.STORAGE_BACKEND = 'local';
+process.env.LOCAL_DATA_ROOT = root;
+process.env.STORAGE_CACHE_SECONDS = '0';
+
+interface Response {
+  status: number;
+  body: any;
+}
+
+function call(handler: (req: NextApiRequest, res: NextApiResponse) => unknown, req: Partial<NextApiRequest>): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    let status = 200;
+    const res = {
+      setHeader: () => res,
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json: (body: any) => resolve({ status, body }),
+      send: (body: any) => resolve({ status, body }),
+    };
+    Promise.resolve(handler(req as NextApiRequest, res as unknown as NextApiResponse)).catch(reject);
+  });
+}
+
+const admin = { userId: 'admin', name: 'Admin' };
+let headers: Record<string, string>;
+
+const land = { type: 'land', description: 'Plot 12', value: 5000000, custodian: 'Secretary' };
+
+beforeAll(async () => {
+  fs.mkdirSync(nodePath.join(root, 'data'));
+  fs.writeFileSync(
+    nodePath.join(root, 'data/settings.json'),
+    JSON.stringify({ users: [{ userId: 'admin', name: 'Admin', password: 'x', role: 'Admin' }] })
+  );
+
+  const { getStorage } = await import('@/lib/storage');
+  const { ensureMigrated } = await import('@/lib/migrations');
+  const { createRecord } = await import('@/lib/records');
+  const { generateToken } = await import('@/lib/auth');
+
+  const storage = getStorage();
+  await ensureMigrated(storage);
+  await createRecord(storage, 'members', { id: 'M1', name: 'Sita', phone: '9800000000', joinDate: '2024-01-01' }, admin);
+  headers = { authorization: `Bearer ${generateToken('admin', 'Admin')}` };
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+// A loan of M1 at `status`, as the workflow routes would leave it
+async function addLoan(id: string, status: Loan['status']): Promise<void> {
+  const { getStorage } = await import('@/lib/storage');
+  const { createRecord, updateRecord } = await import('@/lib/records');
+  const storage = getStorage();
+  await createRecord(
+    storage,
+    'loans',
+    { id, memberId: 'M1', principal: 1000000, interestRate: 12, startDate: '2024-01-01', termMonths: 12, status: 'applied' },
+    admin
+  );
+  if (status !== 'applied') {
+    await updateRecord(storage, 'loans', id, { status, history: [{ status, at: '2024-01-01T00:00:00.000Z', by: 'admin' }] }, admin, {
+      loanWorkflow: true,
+    });
+  }
+}
+
+async function changeCollateral(id: string, body: any): Promise<Response> {
+  const handler = (await import('@/pages/api/loans/[id]/collateral')).default;
+  return call(handler, { method: 'POST', headers, query: { id }, body });
+}
+
+describe('loan collateral', () => {
+  it('keeps collateral added at the same time by two users', async () => {
+    await addLoan('L10', 'approved');
+    const results = await Promise.all([
+      changeCollateral('L10', { action: 'add', collateral: land }),
+      changeCollateral('L10', { action: 'add', collateral: { ...land, type: 'gold', description: 'Necklace' } }),
+    ]);
+    expect(results.map(r => r.status)).toEqual([200, 200]);
+
+    const { getStorage } = await import('@/lib/storage');
+    const loans = (await getStorage().read<Loan[]>('data/loans.json'))!.data;
+    const collateral = loans.find(l => l.id === 'L10')!.collateral!;
+    expect(collateral.map(c => c.id).sort()).toEqual(['C1', 'C2']);
+    expect(collateral.map(c => c.description).sort()).toEqual(['Necklace', 'Plot 12']);
+  });
+
+  it('records who released collateral on the server', async () => {
+    await addLoan('L11', 'closed');
+    await changeCollateral('L11', { action: 'add', collateral: land });
+    const released = await changeCollateral('L11', { action: 'release', collateralId: 'C1', date: '2024-12-01', releasedBy: 'someone' });
+    expect(released.status).toBe(200);
+    expect(released.body.data.collateral[0]).toMatchObject({ releasedDate: '2024-12-01', releasedBy: 'admin' });
+    expect(released.body.data.collateral[0].releasedAt).toEqual(expect.any(String));
+
+    const again = await changeCollateral('L11', { action: 'release', collateralId: 'C1' });
+    expect(again.status).toBe(409);
+  });
+
+  it('only releases collateral through the collateral route', async () => {
+    const { getStorage } = await import('@/lib/storage');
+    const { updateRecord } = await import('@/lib/records');
+    await addLoan('L12', 'closed');
+    await changeCollateral('L12', { action: 'add', collateral: land });
+
+    await expect(
+      updateRecord(getStorage(), 'loans', 'L12', { collateral: [{ id: 'C1', ...land, releasedDate: '2024-12-01', releasedBy: 'someone' }] }, admin)
+    ).rejects.toThrow('Collateral is released with /api/loans/{id}/collateral');
+  });
+
+  it('keeps held collateral of a disbursed loan on record', async () => {
+    const { getStorage } = await import('@/lib/storage');
+    const { updateRecord } = await import('@/lib/records');
+    await addLoan('L13', 'disbursed');
+    await changeCollateral('L13', { action: 'add', collateral: land });
+
+    const removed = await changeCollateral('L13', { action: 'remove', collateralId: 'C1' });
+    expect(removed.status).toBe(400);
+    expect(removed.body.error).toContain('Collateral C1 is still held');
+    await expect(updateRecord(getStorage(), 'loans', 'L13', { collateral: null }, admin)).rejects.toThrow('Collateral C1 is still held');
+
+    const early = await changeCollateral('L13', { action: 'release', collateralId: 'C1' });
+    expect(early.status).toBe(400);
+  });
+
+  it('removes collateral recorded by mistake before the loan is disbursed', async () => {
+    await addLoan('L14', 'approved');
+    await changeCollateral('L14', { action: 'add', collateral: land });
+    const removed = await changeCollateral('L14', { action: 'remove', collateralId: 'C1' });
+    expect(removed.status).toBe(200);
+    expect(removed.body.data.collateral).toBeUndefined();
+  });
+});
+
+describe('loan documents', () => {
+  it('can still be downloaded after the loan is restructured', async () => {
+    const upload = (await import('@/pages/api/loans/[id]/documents/index')).default;
+    const download = (await import('@/pages/api/loans/[id]/documents/[name]')).default;
+    const restructure = (await import('@/pages/api/loans/[id]/restructure')).default;
+    await addLoan('L1', 'disbursed');
+
+    const uploaded = await call(upload, {
+      method: 'POST',
+      headers,
+      query: { id: 'L1' },
+      body: { name: 'deed.pdf', type: 'application/pdf', data: Buffer.from('land deed').toString('base64') },
+    });
+    expect(uploaded.status).toBe(201);
+    await changeCollateral('L1', { action: 'add', collateral: { ...land, documents: [uploaded.body.data] } });
+
+    const restructured = await call(restructure, {
+      method: 'POST',
+      headers,
+      query: { id: 'L1' },
+      body: { kind: 'extension', date: '2024-06-01', interestRate: 12, termMonths: 24 },
+    });
+    expect(restructured.status).toBe(200);
+    const successor: Loan = restructured.body.data.loan;
+    expect(successor.collateral?.[0].documents).toEqual([uploaded.body.data]);
+
+    const name = uploaded.body.data.url.split('/').pop();
+    for (const id of ['L1', successor.id]) {
+      const downloaded = await call(download, { method: 'GET', headers, query: { id, name } });
+      expect(downloaded.status).toBe(200);
+      expect(String(downloaded.body)).toBe('land deed');
+    }
+  });
+});
@@ -28,13 +28,13 @@ export default function ChatBox() {
 
   const loadMessages = async () => {
     try {
-      const res = await fetch('/api/chat/get');
+      const token = localStorage.getItem('token');
+      const res = await fetch('/api/chat/get', { headers: token ? { Authorization: `Bearer ${token}` } : {} });
       if (!res.ok) throw new Error('Failed to load messages');
       const data: Message[] = await res.json();
       setMessages(data);
       // mark messages as seen for current user
       try {
-        const token = localStorage.getItem('token');
         if (token) {
           await fetch('/api/chat/seen', {
             method: 'POST',
@@ -0,0 +1,87 @@
+/**
+ * Conflict dialog - asks the user whose version to keep when a save collides
+ * with changes someone else made to the same records
+ */
+
+import { useEffect, useState } from 'react';
+import { setConflictResolver, type ConflictChoice, type WriteConflict } from '@/lib/api';
+import { changedRecordIds } from '@/lib/merge';
+
+interface PendingConflict extends WriteConflict {
+  resolve: (choice: ConflictChoice) => void;
+}
+
+function describeDifferences(conflict: WriteConflict): string[] {
+  const { mine, theirs } = conflict;
+  if (Array.isArray(mine) && Array.isArray(theirs)) {
+    return changedRecordIds(theirs as any[], mine as any[]);
+  }
+  return [];
+}
+
+export default function ConflictDialog() {
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+
+  useEffect(() => {
+    setConflictResolver(conflict =>
+      new Promise<ConflictChoice>(resolve => {
+        setPending({ ...conflict, resolve });
+      })
+    );
+    return () => setConflictResolver(null);
+  }, []);
+
+  if (!pending) {
+    return null;
+  }
+
+  const choose = (choice: ConflictChoice) => {
+    pending.resolve(choice);
+    setPending(null);
+  };
+
+  const recordIds = describeDifferences(pending);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-4 sm:p-6">
+        <h3 className="text-xl font-bold text-gray-800 mb-2">Someone else saved changes</h3>
+        <p className="text-gray-600 mb-4">
+          <span className="font-mono text-sm">{pending.path}</span> was changed by another user after you
+          opened it, and both of you edited the same data.
+        </p>
+
+        {recordIds.length > 0 && (
+          <div className="mb-4">
+            <p className="text-sm font-medium text-gray-700 mb-1">Records that differ:</p>
+            <div className="max-h-40 overflow-y-auto border rounded-lg p-2 bg-gray-50">
+              {recordIds.map(id => (
+                <div key={id} className="font-mono text-sm text-gray-700">{id}</div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 mb-4">
+          Keeping your version replaces their changes to this file. Keeping theirs discards your
+          changes; reload the page to see the latest data.
+        </p>
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-end">
+          <button
+            onClick={() => choose('theirs')}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation"
+          >
+            Keep Their Version
+          </button>
+          <button
+            onClick={() => choose('mine')}
+            className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation"
+          >
+            Keep My Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import {
   X,
   LogOut,
   MessageSquare,
+  History,
 } from 'lucide-react';
 import { useEffect } from 'react';
 
@@ -31,6 +32,7 @@ const navItems = [
   { path: '/savings', label: 'Saving', icon: PiggyBank, color: 'bg-success' },
   { path: '/loans', label: 'Loan', icon: CreditCard, color: 'bg-warning' },
   { path: '/payments', label: 'Payment', icon: DollarSign, color: 'bg-info' },
+  { path: '/history', label: 'History', icon: History, color: 'bg-secondary' },
   { path: '/settings', label: 'Setting', icon: Settings, color: 'bg-accent' },
 ];
 
@@ -0,0 +1,169 @@
+/**
+ * Recycle bin - records admins deleted, which can be restored or purged for good.
+ * Deleted records stay in their collection (marked with deletedAt/deletedBy) until purged,
+ * and every page leaves them out of its lists and totals.
+ */
+
+import { useEffect, useState } from 'react';
+import { readCollections, applyRecordChanges, getDependents, type RecordCollection } from '@/lib/api';
+import { formatCurrency, formatDate, isDeleted, describeCounts } from '@/lib/utils';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const COLLECTIONS: RecordCollection[] = ['members', 'savings', 'loans', 'payments', 'fines', 'expenditures'];
+
+const LABELS: Record<RecordCollection, string> = {
+  members: 'Member',
+  savings: 'Saving',
+  loans: 'Loan',
+  payments: 'Payment',
+  fines: 'Fine',
+  expenditures: 'Expenditure',
+};
+
+interface DeletedRecord {
+  collection: RecordCollection;
+  id: string;
+  description: string;
+  deletedAt: string;
+  deletedBy?: string;
+}
+
+function describe(collection: RecordCollection, record: any, memberNames: Map<string, string>): string {
+  const member = record.memberId ? memberNames.get(record.memberId) || record.memberId : '';
+  switch (collection) {
+    case 'members':
+      return record.name;
+    case 'savings':
+      return `${member} - ${formatCurrency(record.amount)} on ${formatDate(record.date)}`;
+    case 'loans':
+      return `${member} - ${formatCurrency(record.principal)} from ${formatDate(record.startDate)}`;
+    case 'payments':
+      return `${member} - ${formatCurrency((record.principalPaid || 0) + (record.interestPaid || 0))} on ${formatDate(record.date)} for ${record.loanId}`;
+    case 'fines':
+      return `${member} - ${formatCurrency(record.amount)} (${record.reason}) on ${formatDate(record.date)}`;
+    case 'expenditures':
+      return `${record.item} - ${formatCurrency(record.amount)} on ${formatDate(record.date)}`;
+  }
+}
+
+export default function RecycleBin() {
+  const [records, setRecords] = useState<DeletedRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadDeleted();
+  }, []);
+
+  const loadDeleted = async () => {
+    try {
+      const data = await readCollections(COLLECTIONS, { includeDeleted: COLLECTIONS });
+      const memberNames = new Map(data.members.map(m => [m.id, m.name]));
+
+      const deleted: DeletedRecord[] = [];
+      COLLECTIONS.forEach(collection => {
+        (data[collection] as any[]).filter(isDeleted).forEach(record => {
+          deleted.push({
+            collection,
+            id: record.id,
+            description: describe(collection, record, memberNames),
+            deletedAt: record.deletedAt,
+            deletedBy: record.deletedBy,
+          });
+        });
+      });
+      setRecords(deleted.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)));
+    } catch (error: any) {
+      toast.error('Failed to load the recycle bin: ' + error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handle = async (record: DeletedRecord, action: 'restore' | 'purge') => {
+    if (action === 'purge' && !confirm(`Permanently delete ${LABELS[record.collection].toLowerCase()} ${record.id}? This cannot be undone.`)) {
+      return;
+    }
+
+    setWorking(true);
+    try {
+      try {
+        await applyRecordChanges([{ action, collection: record.collection, id: record.id }]);
+      } catch (error) {
+        // Purging is refused while other records (even deleted ones) still refer to the record
+        const dependents = getDependents(error);
+        if (action !== 'purge' || Object.keys(dependents).length === 0) throw error;
+        if (!confirm(`${record.id} is still referred to by ${describeCounts(dependents)}. Purge those in the recycle bin as well?`)) {
+          return;
+        }
+        await applyRecordChanges([{ action, collection: record.collection, id: record.id, cascade: true }]);
+      }
+      toast.success(`${LABELS[record.collection]} ${record.id} ${action === 'restore' ? 'restored' : 'permanently deleted'}`);
+      await loadDeleted();
+    } catch (error: any) {
+      toast.error(`Failed to ${action} ${record.id}: ` + error.message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (records.length === 0) {
+    return <p className="text-gray-600">The recycle bin is empty.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-gray-600">
+            <th className="py-2 pr-4">Type</th>
+            <th className="py-2 pr-4">ID</th>
+            <th className="py-2 pr-4">Details</th>
+            <th className="py-2 pr-4">Deleted</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {records.map(record => (
+            <tr key={`${record.collection}-${record.id}`} className="border-b last:border-0 align-top">
+              <td className="py-2 pr-4 whitespace-nowrap">{LABELS[record.collection]}</td>
+              <td className="py-2 pr-4 whitespace-nowrap font-mono">{record.id}</td>
+              <td className="py-2 pr-4">{record.description}</td>
+              <td className="py-2 pr-4 whitespace-nowrap text-gray-600">
+                {formatDate(record.deletedAt)}
+                {record.deletedBy && <span className="block text-xs">by {record.deletedBy}</span>}
+              </td>
+              <td className="py-2 whitespace-nowrap">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handle(record, 'restore')}
+                    disabled={working}
+                    className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation disabled:opacity-50"
+                  >
+                    <RotateCcw size={14} /> Restore
+                  </button>
+                  <button
+                    onClick={() => handle(record, 'purge')}
+                    disabled={working}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 touch-manipulation disabled:opacity-50"
+                  >
+                    <Trash2 size={14} /> Purge
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -7,13 +7,14 @@ import { verifyAuth, logout as apiLogout } from '@/lib/api';
 
 interface User {
   userId: string;
-  role: 'Admin' | 'Viewer';
+  role: 'Admin' | 'Committee' | 'Viewer';
 }
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   isAdmin: boolean;
+  isCommittee: boolean;
   logout: () => void;
   refresh: () => Promise<void>;
 }
@@ -45,6 +46,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         loading,
         isAdmin: user?.role === 'Admin',
+        isCommittee: user?.role === 'Committee',
         logout,
         refresh,
       }}
@@ -0,0 +1,115 @@
+/**
+ * Path allowlist for the storage routes (/api/github/*)
+ * Only the paths listed here can be read, listed or written, and each one says which roles may do so:
+ * Viewers can read the data collections and the group configuration; settings and backups are Admin-only.
+ * Password hashes are removed before anything is sent to the browser.
+ * This should be called from backend API routes only.
+ */
+
+import type { JWTPayload } from '@/lib/auth';
+import { COLLECTIONS } from '@/lib/records';
+
+type Role = JWTPayload['role'];
+
+interface PathRule {
+  /** Matches the whole path */
+  pattern: RegExp;
+  read: Role[];
+  write: Role[];
+}
+
+const EVERYONE: Role[] = ['Admin', 'Committee', 'Viewer'];
+const ADMINS: Role[] = ['Admin'];
+
+export const SETTINGS_PATH = 'data/settings.json';
+export const BACKUP_DIR = 'backups';
+
+const PATH_RULES: PathRule[] = [
+  ...Object.values(COLLECTIONS).map(path => ({
+    pattern: new RegExp(`^${path.replace(/\./g, '\\.')}$`),
+    read: EVERYONE,
+    write: ADMINS,
+  })),
+  { pattern: /^data\/config\.json$/, read: EVERYONE, write: ADMINS },
+  { pattern: /^data\/settings\.json$/, read: ADMINS, write: ADMINS },
+  { pattern: /^backups\/[\w.-]+\.json$/, read: ADMINS, write: ADMINS },
+];
+
+/** Directories that can be listed, and by whom */
+const LIST_RULES: Record<string, Role[]> = {
+  [BACKUP_DIR]: ADMINS,
+};
+
+function findRule(path: string): PathRule | undefined {
+  if (typeof path !== 'string' || path.includes('..')) return undefined;
+  return PATH_RULES.find(rule => rule.pattern.test(path));
+}
+
+/**
+ * Whether a user with `role` may read the file at `path`
+ */
+export function canRead(role: Role, path: string): boolean {
+  return !!findRule(path)?.read.includes(role);
+}
+
+/**
+ * Whether a user with `role` may write the file at `path`
+ */
+export function canWrite(role: Role, path: string): boolean {
+  return !!findRule(path)?.write.includes(role);
+}
+
+/**
+ * Whether a user with `role` may list the directory at `path`
+ */
+export function canList(role: Role, path: string): boolean {
+  const dir = typeof path === 'string' ? path.replace(/\/+$/, '') : '';
+  return !!LIST_RULES[dir]?.includes(role);
+}
+
+function withoutPasswords(settings: any): any {
+  if (!settings || typeof settings !== 'object' || !Array.isArray(settings.users)) return settings;
+  return {
+    ...settings,
+    users: settings.users.map((user: any) => {
+      if (!user || typeof user !== 'object') return user;
+      const { password, ...rest } = user;
+      return rest;
+    }),
+  };
+}
+
+/**
+ * Remove password hashes from a file before it is sent to the browser
+ * (settings.json, and the copy of the settings inside a backup)
+ */
+export function redactFile(path: string, data: any): any {
+  if (path === SETTINGS_PATH) {
+    return withoutPasswords(data);
+  }
+  if (path.startsWith(`${BACKUP_DIR}/`) && data && typeof data === 'object' && data.settings) {
+    return { ...data, settings: withoutPasswords(data.settings) };
+  }
+  return data;
+}
+
+/**
+ * The browser never sees password hashes, so settings it sends back have users without one.
+ * Fill those in from the stored settings (matched by user ID) before writing.
+ * Users that do not exist yet still need a password, which validation enforces.
+ */
+export function keepPasswordHashes(path: string, content: any, stored: any): any {
+  if (path !== SETTINGS_PATH || !content || !Array.isArray(content.users)) {
+    return content;
+  }
+
+  const storedUsers: any[] = Array.isArray(stored?.users) ? stored.users : [];
+  return {
+    ...content,
+    users: content.users.map((user: any) => {
+      if (!user || typeof user !== 'object' || user.password) return user;
+      const existing = storedUsers.find(u => u && u.userId === user.userId);
+      return existing?.password ? { ...user, password: existing.password } : user;
+    }),
+  };
+}
@@ -3,31 +3,126 @@
  * These functions call the backend API routes which proxy GitHub API calls
  */
 
+import { threeWayMerge } from '@/lib/merge';
+import { withoutDeleted } from '@/lib/utils';
+import { CONFIG_PATH, parseConfig, type GroupConfig } from '@/lib/config';
+import type { Member, Saving, Loan, LoanStatus, Payment, FinePayment, Expenditure, Collateral, CollateralDocument, LoanGuarantee, RestructuringKind, RepaymentType } from '@/types';
+
 const API_BASE = '/api';
 
 export interface ApiResponse<T> {
   data?: T;
   error?: string;
   success?: boolean;
+  /** Per-field messages when the server rejected invalid data */
+  fieldErrors?: Record<string, string>;
+  /** Records per collection still referring to a record that could not be deleted */
+  dependents?: Partial<Record<RecordCollection, number>>;
+}
+
+/**
+ * Error returned by an API route. `fieldErrors` is set when the server rejected
+ * invalid data, so forms can show each message next to its input; `dependents` when
+ * a delete was refused because other records still refer to the record.
+ */
+export class ApiError extends Error {
+  status: number;
+  fieldErrors: Record<string, string>;
+  dependents: Partial<Record<RecordCollection, number>>;
+
+  constructor(
+    message: string,
+    status: number,
+    fieldErrors: Record<string, string> = {},
+    dependents: Partial<Record<RecordCollection, number>> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.dependents = dependents;
+  }
 }
 
 /**
- * Read a JSON file from GitHub (via backend API)
+ * Field errors carried by an error thrown from this module (empty if there are none)
+ */
+export function getFieldErrors(error: unknown): Record<string, string> {
+  return error instanceof ApiError ? error.fieldErrors : {};
+}
+
+/**
+ * Records still referring to a record the server refused to delete (empty for other errors)
+ */
+export function getDependents(error: unknown): Partial<Record<RecordCollection, number>> {
+  return error instanceof ApiError ? error.dependents : {};
+}
+
+/**
+ * Version of each file as last read or written by this browser.
+ * Writes send the sha back so the server can detect that someone else saved in between,
+ * and the data is the common base for merging both sets of changes.
+ */
+const fileVersions = new Map<string, { sha?: string; data: unknown }>();
+
+export interface WriteConflict<T = unknown> {
+  path: string;
+  mine: T;
+  theirs: T;
+}
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+/**
+ * Thrown by writeFile when a conflict was resolved by keeping the server's version
+ */
+export class WriteConflictError extends Error {
+  path: string;
+
+  constructor(path: string) {
+    super(`${path} was changed by someone else. Your changes were not saved; reload to see the latest data.`);
+    this.name = 'WriteConflictError';
+    this.path = path;
+  }
+}
+
+let conflictResolver: ((conflict: WriteConflict) => Promise<ConflictChoice>) | null = null;
+
+/**
+ * Register the UI that asks the user how to resolve a write conflict
+ * (see components/ConflictDialog). Without one, the server's version is kept.
+ */
+export function setConflictResolver(resolver: ((conflict: WriteConflict) => Promise<ConflictChoice>) | null) {
+  conflictResolver = resolver;
+}
+
+/**
+ * Read a JSON file from storage (via backend API)
  */
 export async function readFile<T>(path: string): Promise<T | null> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
   try {
     const response = await fetch(`${API_BASE}/github/read`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
       body: JSON.stringify({ path }),
     });
 
-    const result: ApiResponse<T & { sha?: string }> = await response.json();
+    const result: ApiResponse<T> & { sha?: string } = await response.json();
     
     if (!response.ok) {
       throw new Error(result.error || 'Failed to read file');
     }
 
+    fileVersions.set(path, { sha: result.sha, data: result.data ?? null });
     return result.data || null;
   } catch (error: any) {
     console.error('Read file error:', error);
@@ -35,9 +130,44 @@ export async function readFile<T>(path: string): Promise<T | null> {
   }
 }
 
+interface ConflictResponse {
+  path: string;
+  sha?: string;
+  content: unknown;
+}
+
+/**
+ * Decide what to write after the server rejected a write of `mine` because the file changed.
+ * Returns the merged content when both sides touched different records, otherwise asks the
+ * conflict resolver and returns my content or throws WriteConflictError.
+ */
+async function resolveConflict(mine: unknown, conflict: ConflictResponse): Promise<unknown> {
+  const { path, content: theirs } = conflict;
+  const base = fileVersions.get(path)?.data ?? null;
+  const merged = threeWayMerge(base, mine, theirs);
+
+  // From here on the server's version is the base for any further merge
+  fileVersions.set(path, { sha: conflict.sha, data: theirs });
+
+  if (merged !== null) {
+    return merged;
+  }
+
+  const choice = conflictResolver
+    ? await conflictResolver({ path, mine, theirs })
+    : 'theirs';
+  if (choice === 'theirs') {
+    throw new WriteConflictError(path);
+  }
+  return mine;
+}
+
 /**
- * Write a JSON file to GitHub (via backend API)
- * Automatically fetches SHA if not provided
+ * Write a JSON file to storage (via backend API)
+ *
+ * Uses the sha from the last readFile of the same path (or the one given). If someone else
+ * saved the file since, the two sets of changes are merged when they touch different records;
+ * otherwise the registered conflict resolver decides whose version wins.
  */
 export async function writeFile<T>(path: string, content: T, sha?: string): Promise<void> {
   const token = localStorage.getItem('token');
@@ -47,42 +177,33 @@ export async function writeFile<T>(path: string, content: T, sha?: string): Prom
   }
 
   try {
-    // If SHA not provided, try to fetch it first
-    let fileSha = sha;
-    if (!fileSha) {
-      try {
-        const readResponse = await fetch(`${API_BASE}/github/read`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ path }),
-        });
-        
-        if (readResponse.ok) {
-          const readResult = await readResponse.json();
-          // The read API returns { data: ..., sha: ... }
-          if (readResult.sha) {
-            fileSha = readResult.sha;
-          }
-        }
-      } catch (e) {
-        // File doesn't exist yet, that's fine - will create new file
-        console.log('File does not exist, will create new file');
+    let fileSha = sha ?? fileVersions.get(path)?.sha;
+    let toWrite: unknown = content;
+
+    // One attempt, plus retries after a merge or after choosing to keep my version
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const response = await fetch(`${API_BASE}/github/write`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ path, content: toWrite, sha: fileSha }),
+      });
+
+      const result: ApiResponse<void> & { sha?: string; conflict?: ConflictResponse } = await response.json();
+
+      if (response.ok) {
+        fileVersions.set(path, { sha: result.sha, data: toWrite });
+        return;
       }
-    }
 
-    const response = await fetch(`${API_BASE}/github/write`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({ path, content, sha: fileSha }),
-    });
+      if (response.status !== 409 || !result.conflict || attempt === 3) {
+        throw new ApiError(result.error || 'Failed to write file', response.status, result.fieldErrors, result.dependents);
+      }
 
-    const result: ApiResponse<void> = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(result.error || 'Failed to write file');
+      toWrite = await resolveConflict(toWrite, result.conflict);
+      fileSha = result.conflict.sha;
     }
   } catch (error: any) {
     console.error('Write file error:', error);
@@ -94,26 +215,697 @@ export async function writeFile<T>(path: string, content: T, sha?: string): Prom
  * List files in a GitHub directory
  */
 export async function listFiles(path: string): Promise<string[]> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
   try {
     const response = await fetch(`${API_BASE}/github/list`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
       body: JSON.stringify({ path }),
     });
 
-    const result: ApiResponse<{ files: string[] }> = await response.json();
+    const result: ApiResponse<void> & { files?: string[] } = await response.json();
     
     if (!response.ok) {
       throw new Error(result.error || 'Failed to list files');
     }
 
-    return result.data?.files || [];
+    return result.files || [];
   } catch (error: any) {
     console.error('List files error:', error);
     throw error;
   }
 }
 
+export type RecordCollection = 'members' | 'savings' | 'loans' | 'payments' | 'fines' | 'expenditures';
+
+export interface CollectionData {
+  members: Member[];
+  savings: Saving[];
+  loans: Loan[];
+  payments: Payment[];
+  fines: FinePayment[];
+  expenditures: Expenditure[];
+}
+
+/**
+ * Last snapshot received for each combination of collections, with its ETag,
+ * so a repeat load only downloads the data if something changed
+ */
+const snapshots = new Map<string, { etag: string; data: Partial<CollectionData>; shas: Partial<Record<RecordCollection, string>> }>();
+
+/**
+ * Read several collections in one request (missing collections come back empty).
+ * Records in the recycle bin are left out, except for the collections named in `includeDeleted`.
+ */
+export async function readCollections<K extends RecordCollection>(
+  names: K[],
+  options: { includeDeleted?: RecordCollection[] } = {}
+): Promise<Pick<CollectionData, K>> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  try {
+    const key = names.join(',');
+    const previous = snapshots.get(key);
+    const response = await fetch(`${API_BASE}/data/snapshot?collections=${encodeURIComponent(key)}`, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(previous && { 'If-None-Match': previous.etag }),
+      },
+      // Revalidation is handled here, so the browser must not answer from its own cache
+      cache: 'no-store',
+    });
+
+    let snapshot = previous;
+    if (response.status !== 304 || !previous) {
+      const result: ApiResponse<Partial<CollectionData>> & { shas?: Partial<Record<RecordCollection, string>> } =
+        await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load data');
+      }
+
+      snapshot = { etag: response.headers.get('ETag') || '', data: result.data || {}, shas: result.shas || {} };
+      if (snapshot.etag) snapshots.set(key, snapshot);
+    }
+
+    const data = {} as Pick<CollectionData, K>;
+    names.forEach(name => {
+      const list = snapshot!.data[name] || [];
+      fileVersions.set(`data/${name}.json`, { sha: snapshot!.shas[name], data: list });
+      // Pages may sort or change what they get; the stored copy stays the base for merges
+      const copy: Array<{ deletedAt?: string }> = structuredClone(list);
+      data[name] = (options.includeDeleted?.includes(name) ? copy : withoutDeleted(copy)) as Pick<CollectionData, K>[K];
+    });
+    return data;
+  } catch (error: any) {
+    console.error('Read collections error:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fields to change on a record. A null value removes the field.
+ */
+export type RecordChanges<T> = { [K in keyof T]?: T[K] | null };
+
+/**
+ * Send a single-record change to the records API
+ */
+async function recordRequest<T>(
+  method: 'POST' | 'PATCH' | 'DELETE',
+  collection: RecordCollection,
+  id: string | undefined,
+  body?: unknown,
+  query = ''
+): Promise<T> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${API_BASE}/records/${collection}${id === undefined ? '' : `/${encodeURIComponent(id)}`}${query}`,
+    {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }
+  );
+
+  const result: ApiResponse<T> = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(result.error || 'Failed to update record', response.status, result.fieldErrors, result.dependents);
+  }
+
+  return result.data as T;
+}
+
+/**
+ * Add a record to a collection (applied on the server to the latest data).
+ * Savings, loans, payments, fines and expenditures are sent without an id and returned with the
+ * next sequential one from the server, e.g. PAY-2082-000123.
+ */
+export function createRecord<T extends { id: string }>(
+  collection: RecordCollection,
+  record: Omit<T, 'id'> & { id?: string }
+): Promise<T> {
+  return recordRequest<T>('POST', collection, record.id, record);
+}
+
+/**
+ * Update fields of a record (applied on the server to the latest data)
+ */
+export function updateRecord<T extends { id: string }>(
+  collection: RecordCollection,
+  id: string,
+  changes: RecordChanges<Omit<T, 'id'>>
+): Promise<T> {
+  return recordRequest<T>('PATCH', collection, id, changes);
+}
+
+/**
+ * Move a record to the recycle bin (restore or purge it with applyRecordChanges).
+ * Fails with `dependents` set while other records refer to it, unless `cascade` moves them too.
+ */
+export function deleteRecord<T extends { id: string }>(
+  collection: RecordCollection,
+  id: string,
+  options: { cascade?: boolean } = {}
+): Promise<T> {
+  return recordRequest<T>('DELETE', collection, id, undefined, options.cascade ? '?cascade=true' : '');
+}
+
+/**
+ * Move a loan to the next step of its approval workflow; `date` is the disbursement date
+ * (today when not given). Committee members can review, approve and reject; Admins can take any step.
+ */
+export async function setLoanStatus(
+  loanId: string,
+  status: LoanStatus,
+  options: { comment?: string; date?: string } = {}
+): Promise<Loan> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/loans/${encodeURIComponent(loanId)}/status`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ status, ...options }),
+  });
+
+  const result: ApiResponse<Loan> = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(result.error || 'Failed to update loan status', response.status, result.fieldErrors);
+  }
+
+  return result.data as Loan;
+}
+
+export interface RestructureRequest {
+  kind: RestructuringKind;
+  /** YYYY-MM-DD, today when not given */
+  date?: string;
+  /** New money lent on top, in paisa (top-up only) */
+  topUp?: number;
+  interestRate: number;
+  termMonths: number;
+  repayment?: RepaymentType;
+  /** The member's other loans to replace as well (consolidation only) */
+  consolidate?: string[];
+  /** The new loan's guarantors, confirmed again; required for a top-up or consolidation */
+  guarantors?: LoanGuarantee[];
+  comment?: string;
+}
+
+/**
+ * Restructure a disbursed loan: it (and any consolidated with it) is closed and a successor loan
+ * carrying the outstanding principal is disbursed with the new terms. Admin only.
+ */
+export async function restructureLoan(
+  loanId: string,
+  request: RestructureRequest
+): Promise<{ loan: Loan; replaced: Loan[] }> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/loans/${encodeURIComponent(loanId)}/restructure`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  const result: ApiResponse<{ loan: Loan; replaced: Loan[] }> = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(result.error || 'Failed to restructure loan', response.status, result.fieldErrors);
+  }
+
+  return result.data as { loan: Loan; replaced: Loan[] };
+}
+
+/**
+ * Read a file chosen in the browser as base64, without the data: header
+ */
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Upload a scanned collateral document for a loan. Returns the document's details, to be listed
+ * in the loan's collateral with changeCollateral.
+ */
+export async function uploadLoanDocument(loanId: string, file: File): Promise<CollateralDocument> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/loans/${encodeURIComponent(loanId)}/documents`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ name: file.name, type: file.type, data: await readFileAsBase64(file) }),
+  });
+
+  const result: ApiResponse<CollateralDocument> = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to upload document');
+  }
+
+  return result.data as CollateralDocument;
+}
+
+/**
+ * Download a loan document; documents are not public, so they are fetched with the user's token.
+ * Admins and committee members only.
+ */
+export async function downloadLoanDocument(document: CollateralDocument): Promise<Blob> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(document.url, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    const result: ApiResponse<never> = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to download document');
+  }
+
+  return response.blob();
+}
+
+export type CollateralRequest =
+  | { action: 'add'; collateral: Omit<Collateral, 'id' | 'releasedDate' | 'releasedBy' | 'releasedAt'> }
+  | { action: 'attach'; collateralId: string; documents: CollateralDocument[] }
+  /** `date` the documents went back to the member, YYYY-MM-DD; today when not given */
+  | { action: 'release'; collateralId: string; date?: string }
+  | { action: 'remove'; collateralId: string };
+
+/**
+ * Add, release or remove one item of a loan's collateral, or attach uploaded documents to it.
+ * Returns the updated loan. Admin only.
+ */
+export async function changeCollateral(loanId: string, request: CollateralRequest): Promise<Loan> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/loans/${encodeURIComponent(loanId)}/collateral`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  const result: ApiResponse<Loan> = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(result.error || 'Failed to change collateral', response.status, result.fieldErrors);
+  }
+
+  return result.data as Loan;
+}
+
+export type RecordChangeRequest =
+  | { action: 'create'; collection: RecordCollection; record: { id?: string; [key: string]: any } }
+  | { action: 'update'; collection: RecordCollection; id: string; changes: Record<string, any> }
+  | { action: 'delete' | 'purge'; collection: RecordCollection; id: string; cascade?: boolean }
+  | { action: 'restore'; collection: RecordCollection; id: string };
+
+/**
+ * Apply several record changes in one commit (all succeed or none are saved).
+ * Returns the resulting record of each change, in order.
+ */
+export async function applyRecordChanges<T = any>(changes: RecordChangeRequest[]): Promise<T[]> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/records/batch`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ changes }),
+  });
+
+  const result: ApiResponse<T[]> = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(result.error || 'Failed to update records', response.status, result.fieldErrors, result.dependents);
+  }
+
+  return result.data || [];
+}
+
+export interface HistoryRecordChange {
+  id: string;
+  type: 'added' | 'removed' | 'changed';
+  record: any;
+  fields?: Array<{ field: string; from: any; to: any }>;
+}
+
+export interface HistoryEntry {
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  files: Array<{ path: string; collection: string; records: HistoryRecordChange[] }>;
+}
+
+/**
+ * Load a page of the audit history, optionally for a single member, loan or record
+ */
+export async function getHistory(
+  options: { recordId?: string; page?: number } = {}
+): Promise<{ entries: HistoryEntry[]; hasMore: boolean; supported: boolean }> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const params = new URLSearchParams({ page: String(options.page || 1) });
+  if (options.recordId) params.set('recordId', options.recordId);
+
+  const response = await fetch(`${API_BASE}/history?${params.toString()}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  const result: ApiResponse<HistoryEntry[]> & { hasMore?: boolean; supported?: boolean } = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load history');
+  }
+
+  return { entries: result.data || [], hasMore: !!result.hasMore, supported: result.supported !== false };
+}
+
+export interface SnapshotPreview {
+  commit: { sha: string; message: string; author: string; date: string };
+  collections: Array<{
+    collection: RecordCollection;
+    count: number;
+    currentCount: number;
+    added: number;
+    removed: number;
+    changed: number;
+  }>;
+}
+
+/**
+ * Preview the data as it was at a point in time (ISO date), compared with the current data
+ */
+export async function previewSnapshot(at: string): Promise<SnapshotPreview> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/history/snapshot?at=${encodeURIComponent(at)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  const result: ApiResponse<SnapshotPreview> = await response.json();
+
+  if (!response.ok || !result.data) {
+    throw new Error(result.error || 'Failed to load snapshot');
+  }
+
+  return result.data;
+}
+
+/**
+ * Restore the selected collections to their state at a previewed point in time
+ */
+export async function restoreSnapshot(at: string, sha: string, collections: RecordCollection[]): Promise<void> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${API_BASE}/history/restore`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ at, sha, collections }),
+  });
+
+  const result: ApiResponse<void> = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to restore data');
+  }
+}
+
+export interface UserSummary {
+  userId: string;
+  name: string;
+  role: 'Admin' | 'Committee' | 'Viewer';
+}
+
+/**
+ * Call an Admin-only API route and return its `data`
+ */
+async function adminRequest<T>(url: string, init: RequestInit, failure: string): Promise<T> {
+  const token = localStorage.getItem('token');
+
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  const result: ApiResponse<T> = await response.json();
+
+  if (!response.ok) {
+    throw new ApiError(result.error || failure, response.status, result.fieldErrors, result.dependents);
+  }
+
+  return result.data as T;
+}
+
+/**
+ * List login users (password hashes are never sent to the browser)
+ */
+export function getUsers(): Promise<UserSummary[]> {
+  return adminRequest(`${API_BASE}/users`, { method: 'GET' }, 'Failed to load users');
+}
+
+/**
+ * Add a login user. The password is sent as typed and hashed on the server.
+ */
+export function addUser(user: UserSummary & { password: string }): Promise<UserSummary> {
+  return adminRequest(`${API_BASE}/users`, { method: 'POST', body: JSON.stringify(user) }, 'Failed to add user');
+}
+
+/**
+ * Remove a login user
+ */
+export async function deleteUser(userId: string): Promise<void> {
+  await adminRequest(`${API_BASE}/users?userId=${encodeURIComponent(userId)}`, { method: 'DELETE' }, 'Failed to delete user');
+}
+
+/**
+ * List the backup files on the server
+ */
+export function listBackups(): Promise<string[]> {
+  return adminRequest(`${API_BASE}/backups`, { method: 'GET' }, 'Failed to load backups');
+}
+
+/**
+ * Back up all data on the server, returning the new backup's path
+ */
+export async function createBackup(): Promise<string> {
+  const result = await adminRequest<{ path: string }>(`${API_BASE}/backups`, { method: 'POST' }, 'Failed to create backup');
+  return result.path;
+}
+
+/**
+ * Replace all data with the contents of a server backup
+ */
+export async function restoreBackup(path: string): Promise<void> {
+  await adminRequest(
+    `${API_BASE}/backups/restore`,
+    { method: 'POST', body: JSON.stringify({ path }) },
+    'Failed to restore backup'
+  );
+}
+
+/**
+ * Replace all data with the contents of an uploaded backup file.
+ * Backups made by older versions are migrated on the server.
+ */
+export async function restoreUploadedBackup(backup: unknown): Promise<void> {
+  await adminRequest(
+    `${API_BASE}/backups/restore`,
+    { method: 'POST', body: JSON.stringify({ backup }) },
+    'Failed to restore backup'
+  );
+}
+
+export interface MigrationStatus {
+  schemaVersion: number;
+  latestVersion: number;
+  pending: Array<{ version: number; description: string }>;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: Array<{
+    version: number;
+    description: string;
+    /** Number of records changed in each collection */
+    changed: Partial<Record<RecordCollection, number>>;
+  }>;
+}
+
+/**
+ * Schema version of the stored data and the migrations that have not run yet
+ */
+export function getMigrationStatus(): Promise<MigrationStatus> {
+  return adminRequest(`${API_BASE}/migrations`, { method: 'GET' }, 'Failed to load migration status');
+}
+
+/**
+ * Run the pending data migrations. With `dryRun` nothing is saved; the report shows what would change.
+ */
+export function runMigrations(dryRun: boolean): Promise<MigrationReport> {
+  return adminRequest(
+    `${API_BASE}/migrations`,
+    { method: 'POST', body: JSON.stringify({ dryRun }) },
+    'Failed to run migrations'
+  );
+}
+
+export interface StorageStatus {
+  /** Backend the app is running on */
+  backend: 'github' | 'local' | 'sqlite';
+  /** Where SQLite imports from and exports to: the GitHub repository if configured, otherwise local JSON files */
+  jsonBackend: 'github' | 'local';
+}
+
+export interface TransferReport {
+  /** Commits copied from the JSON repository's history */
+  commits: number;
+  /** Data and backup files copied */
+  files: number;
+}
+
+/**
+ * The storage backend in use
+ */
+export function getStorageStatus(): Promise<StorageStatus> {
+  return adminRequest(`${API_BASE}/storage`, { method: 'GET' }, 'Failed to load storage status');
+}
+
+/**
+ * Copy the JSON repository into the (empty) SQLite database, or write the SQLite data back to it
+ */
+export function transferData(action: 'import' | 'export'): Promise<TransferReport> {
+  return adminRequest(
+    `${API_BASE}/storage`,
+    { method: 'POST', body: JSON.stringify({ action }) },
+    `Failed to ${action} data`
+  );
+}
+
+export interface IntegrityIssue {
+  type: 'orphan' | 'deleted-reference' | 'duplicate-id' | 'member-mismatch';
+  collection: RecordCollection;
+  recordId: string;
+  message: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  records: Record<RecordCollection, number>;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Check the stored data for orphaned records, duplicate IDs and payments whose member
+ * is not their loan's member
+ */
+export function getIntegrityReport(): Promise<IntegrityReport> {
+  return adminRequest(`${API_BASE}/integrity`, { method: 'GET' }, 'Failed to check data integrity');
+}
+
+/**
+ * The group configuration, with defaults for anything not set
+ */
+export async function readConfig(): Promise<GroupConfig> {
+  return parseConfig(await readFile<GroupConfig>(CONFIG_PATH));
+}
+
+/**
+ * Save the group configuration (Admin only)
+ */
+export function saveConfig(config: GroupConfig): Promise<void> {
+  return writeFile(CONFIG_PATH, config);
+}
+
 /**
  * Login user
  */
@@ -0,0 +1,101 @@
+/**
+ * Commit messages and authors for data writes
+ * Every write is committed as the logged-in user with a short description of what changed,
+ * e.g. "payments: add P-123 for M-0014 by Ranjit", so the repository history doubles as an audit trail.
+ * This should be called from backend API routes only.
+ */
+
+import type { JWTPayload } from '@/lib/auth';
+import type { StorageAdapter, CommitDetails } from '@/lib/storage';
+import { isDeleted } from '@/lib/utils';
+
+export interface Actor {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Look up the display name of the user making a change (falls back to the user ID)
+ */
+export async function getActor(storage: StorageAdapter, payload: JWTPayload): Promise<Actor> {
+  try {
+    const settings = await storage.read<{ users?: Array<{ userId: string; name?: string }> }>('data/settings.json');
+    const user = settings?.data?.users?.find(u => u.userId === payload.userId);
+    return { userId: payload.userId, name: user?.name || payload.userId };
+  } catch (error) {
+    return { userId: payload.userId, name: payload.userId };
+  }
+}
+
+/**
+ * Short name of a data file used at the start of commit messages (data/payments.json -> payments)
+ */
+function fileLabel(path: string): string {
+  return path.replace(/^data\//, '').replace(/\.json$/, '');
+}
+
+function describeRecord(record: any): string {
+  return record.memberId ? `${record.id} for ${record.memberId}` : record.id;
+}
+
+function isRecordList(value: any): value is Array<{ id: string }> {
+  return Array.isArray(value) && value.every(r => r && typeof r === 'object' && typeof r.id === 'string');
+}
+
+/**
+ * Describe the change from one version of a file to the next,
+ * e.g. "payments: add P-123 for M-0014" or "savings: add 12, update 1"
+ */
+export function summarizeChange(path: string, before: any, after: any): string {
+  const label = fileLabel(path);
+
+  if (before === null || before === undefined) {
+    return `${label}: create`;
+  }
+
+  if (!isRecordList(before) || !isRecordList(after)) {
+    return `${label}: update`;
+  }
+
+  const beforeMap = new Map(before.map(r => [r.id, r]));
+  const afterMap = new Map(after.map(r => [r.id, r]));
+  const added = after.filter(r => !beforeMap.has(r.id));
+  const purged = before.filter(r => !afterMap.has(r.id));
+  const changed = after.filter(
+    r => beforeMap.has(r.id) && JSON.stringify(beforeMap.get(r.id)) !== JSON.stringify(r)
+  );
+  // Moving a record in or out of the recycle bin is described as a delete or restore
+  const deleted = changed.filter(r => isDeleted(r) && !isDeleted(beforeMap.get(r.id)));
+  const restored = changed.filter(r => !isDeleted(r) && isDeleted(beforeMap.get(r.id)));
+  const updated = changed.filter(r => !deleted.includes(r) && !restored.includes(r));
+
+  const groups: Array<[string, Array<{ id: string }>]> = [
+    ['add', added],
+    ['update', updated],
+    ['delete', deleted],
+    ['restore', restored],
+    ['purge', purged],
+  ];
+  const total = added.length + changed.length + purged.length;
+  if (total === 0) {
+    return `${label}: no record changes`;
+  }
+  if (total === 1) {
+    const [verb, records] = groups.find(([, records]) => records.length > 0)!;
+    return `${label}: ${verb} ${describeRecord(records[0])}`;
+  }
+
+  const parts = groups.filter(([, records]) => records.length > 0).map(([verb, records]) => `${verb} ${records.length}`);
+  return `${label}: ${parts.join(', ')}`;
+}
+
+/**
+ * Commit message and author for a change made by `actor`
+ */
+export function commitDetails(summaries: string | string[], actor: Actor): CommitDetails {
+  const summary = Array.isArray(summaries) ? summaries.join('; ') : summaries;
+  return {
+    message: `${summary} by ${actor.name}`,
+    author: { name: actor.name, email: `${actor.userId}@users.noreply.samuh.local` },
+  };
+}
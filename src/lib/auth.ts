@@ -10,12 +10,12 @@ export interface User {
   userId: string;
   name: string;
   password: string; // hashed
-  role: 'Admin' | 'Viewer';
+  role: 'Admin' | 'Committee' | 'Viewer';
 }
 
 export interface JWTPayload {
   userId: string;
-  role: 'Admin' | 'Viewer';
+  role: 'Admin' | 'Committee' | 'Viewer';
 }
 
 const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
@@ -37,7 +37,7 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 /**
  * Generate a JWT token for a user
  */
-export function generateToken(userId: string, role: 'Admin' | 'Viewer'): string {
+export function generateToken(userId: string, role: 'Admin' | 'Committee' | 'Viewer'): string {
   return jwt.sign({ userId, role }, JWT_SECRET, { expiresIn: '7d' });
 }
 
@@ -59,3 +59,10 @@ export function isAdmin(role: string): boolean {
   return role === 'Admin';
 }
 
+/**
+ * Check if user sits on the loan committee (reviews, approves and rejects loan applications)
+ */
+export function isCommittee(role: string): boolean {
+  return role === 'Committee';
+}
+
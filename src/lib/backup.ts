@@ -0,0 +1,134 @@
+/**
+ * Server-side backups of all data files to backups/*.json
+ * Backups are made and restored on the server so the password hashes in settings.json
+ * are kept without ever being sent to the browser. Each backup records the schema version
+ * of its data, and older backups are migrated to the current version when restored.
+ * The ID counters are backed up too; a restore keeps the higher of the backed-up and current
+ * numbers, so no ID is issued twice. The group configuration is backed up and restored with the data.
+ * This should be called from backend API routes only.
+ */
+
+import type { StorageAdapter, FileWrite } from '@/lib/storage';
+import { COLLECTIONS, type CollectionName } from '@/lib/records';
+import { commitDetails, type Actor } from '@/lib/audit';
+import { SETTINGS_PATH, BACKUP_DIR, keepPasswordHashes } from '@/lib/access';
+import { validateChanges, validateSettings, validateConfig } from '@/lib/schema';
+import { META_PATH, SCHEMA_VERSION, migrateData, readSchemaVersion } from '@/lib/migrations';
+import { COUNTERS_PATH, mergeCounters } from '@/lib/ids';
+import { CONFIG_PATH } from '@/lib/config';
+
+const NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+/**
+ * Whether `path` names a backup file
+ */
+export function isBackupPath(path: string): boolean {
+  return typeof path === 'string' && new RegExp(`^${BACKUP_DIR}/[\\w.-]+\\.json$`).test(path);
+}
+
+/**
+ * Backup files, oldest first
+ */
+export async function listBackups(storage: StorageAdapter): Promise<string[]> {
+  const files = await storage.list(BACKUP_DIR);
+  return files.filter(isBackupPath);
+}
+
+/**
+ * Copy every collection and the settings into a new backup file, returning its path
+ */
+export async function createBackup(storage: StorageAdapter, actor: Actor): Promise<string> {
+  const [schemaVersion, settings, counters, config, ...lists] = await Promise.all([
+    readSchemaVersion(storage),
+    storage.read(SETTINGS_PATH),
+    storage.read(COUNTERS_PATH),
+    storage.read(CONFIG_PATH),
+    ...NAMES.map(name => storage.read(COLLECTIONS[name])),
+  ]);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const backup: Record<string, any> = { timestamp, schemaVersion };
+  NAMES.forEach((name, i) => {
+    backup[name] = lists[i]?.data || [];
+  });
+  backup.settings = settings?.data || { users: [] };
+  backup.counters = counters?.data || {};
+  backup.config = config?.data || {};
+
+  const path = `${BACKUP_DIR}/backup-${timestamp}.json`;
+  await storage.write(path, backup, undefined, commitDetails(`backups: create backup-${timestamp}`, actor));
+  return path;
+}
+
+/**
+ * Replace every collection (and the settings, if the backup has them) with the contents of a backup,
+ * migrated from the backup's schema version, as one commit.
+ *
+ * Backups from the server are restored as they were saved. Uploaded backups come from the browser:
+ * they are validated like any other write, and their users (which have no password hashes) keep
+ * the hashes currently stored.
+ */
+async function restoreBackupData(
+  storage: StorageAdapter,
+  backup: Record<string, any>,
+  label: string,
+  actor: Actor,
+  options: { validate: boolean }
+): Promise<void> {
+  const fromVersion = typeof backup.schemaVersion === 'number' ? backup.schemaVersion : 0;
+  const { data } = migrateData(backup, fromVersion);
+
+  const files: FileWrite[] = NAMES.map(name => ({ path: COLLECTIONS[name], content: data[name] }));
+
+  if (backup.settings) {
+    let settings = backup.settings;
+    if (options.validate) {
+      const current = await storage.read(SETTINGS_PATH);
+      settings = keepPasswordHashes(SETTINGS_PATH, settings, current?.data);
+      validateSettings(settings);
+    }
+    files.push({ path: SETTINGS_PATH, content: settings });
+  }
+
+  if (backup.config) {
+    if (options.validate) validateConfig(backup.config);
+    files.push({ path: CONFIG_PATH, content: backup.config });
+  }
+
+  if (options.validate) {
+    for (const name of NAMES) {
+      const current = await storage.read<any[]>(COLLECTIONS[name]);
+      // A backup holds loans at every step of their workflow
+      await validateChanges(storage, name, Array.isArray(current?.data) ? current!.data : [], data[name], data, {
+        loanWorkflow: true,
+      });
+    }
+  }
+
+  const counters = await storage.read(COUNTERS_PATH);
+  files.push({ path: COUNTERS_PATH, content: mergeCounters(counters?.data, backup.counters) });
+
+  files.push({ path: META_PATH, content: { schemaVersion: SCHEMA_VERSION } });
+  await storage.writeMany(files, commitDetails(`restore backup ${label}`, actor));
+}
+
+/**
+ * Restore a backup file from the server. Returns false if it does not exist.
+ */
+export async function restoreBackup(storage: StorageAdapter, path: string, actor: Actor): Promise<boolean> {
+  const file = await storage.read<Record<string, any>>(path);
+  if (!file?.data) {
+    return false;
+  }
+
+  await restoreBackupData(storage, file.data, path.replace(`${BACKUP_DIR}/`, ''), actor, { validate: false });
+  return true;
+}
+
+/**
+ * Restore a backup uploaded from the browser (e.g. a downloaded backup file)
+ */
+export async function restoreUploadedBackup(storage: StorageAdapter, backup: Record<string, any>, actor: Actor): Promise<void> {
+  const label = typeof backup.timestamp === 'string' ? `upload from ${backup.timestamp}` : 'upload';
+  await restoreBackupData(storage, backup, label, actor, { validate: true });
+}
@@ -0,0 +1,41 @@
+/**
+ * Group-wide configuration, stored in data/config.json
+ * Everyone can read it; only Admins can change it (from Settings).
+ */
+
+import { DAY_COUNTS, ALLOCATION_ORDER, type DayCount, type AllocationBucket } from '@/lib/finance';
+
+export const CONFIG_PATH = 'data/config.json';
+
+export interface GroupConfig {
+  /** How interest accrues between payments (see lib/finance/accrual.ts) */
+  dayCount: DayCount;
+  /** The order a repayment is split over what the member owes (see lib/finance/allocation.ts) */
+  allocationOrder: AllocationBucket[];
+}
+
+/** Used for anything not set, and when there is no config file yet */
+export const DEFAULT_CONFIG: GroupConfig = {
+  dayCount: 'monthly',
+  allocationOrder: ALLOCATION_ORDER,
+};
+
+/**
+ * Whether a value lists every allocation bucket exactly once
+ */
+export function isAllocationOrder(value: unknown): value is AllocationBucket[] {
+  return Array.isArray(value)
+    && value.length === ALLOCATION_ORDER.length
+    && ALLOCATION_ORDER.every(bucket => value.includes(bucket));
+}
+
+/**
+ * Read stored configuration, falling back to the default for missing or unknown values
+ */
+export function parseConfig(data: unknown): GroupConfig {
+  const stored = data && typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+  return {
+    dayCount: DAY_COUNTS.includes(stored.dayCount as DayCount) ? (stored.dayCount as DayCount) : DEFAULT_CONFIG.dayCount,
+    allocationOrder: isAllocationOrder(stored.allocationOrder) ? stored.allocationOrder : DEFAULT_CONFIG.allocationOrder,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { accruedInterest, interestDue } from './accrual';
+import type { Loan, Payment } from '@/types';
+
+const loan = (changes: Partial<Loan> = {}): Loan => ({
+  id: 'L1',
+  memberId: 'M1',
+  principal: 3650000,
+  interestRate: 10,
+  startDate: '2024-01-01',
+  termMonths: 12,
+  status: 'disbursed',
+  ...changes,
+});
+
+const payment = (id: string, date: string, principalPaid: number, interestPaid = 0): Payment => ({
+  id,
+  loanId: 'L1',
+  memberId: 'M1',
+  date,
+  principalPaid,
+  interestPaid,
+});
+
+describe('accruedInterest', () => {
+  it('accrues each calendar day as 1/365 of a year on actual/365', () => {
+    expect(accruedInterest(loan(), [], '2024-01-01', '2024-01-11', 'actual/365')).toBe(10000);
+  });
+
+  it('accrues on the lower balance from the day principal is repaid', () => {
+    const payments = [payment('P1', '2024-01-06', 1825000)];
+    expect(accruedInterest(loan(), payments, '2024-01-01', '2024-01-11', 'actual/365')).toBe(5000 + 2500);
+  });
+
+  it('ignores payments of interest only and payments of other loans', () => {
+    const payments = [payment('P1', '2024-01-06', 0, 5000), { ...payment('P2', '2024-01-06', 1825000), loanId: 'L2' }];
+    expect(accruedInterest(loan(), payments, '2024-01-01', '2024-01-11', 'actual/365')).toBe(10000);
+  });
+
+  it('rounds the total once rather than each stretch between repayments', () => {
+    // Half a paisa on the first day, and another half over the next two on the lower balance
+    const small = loan({ principal: 18250, interestRate: 1 });
+    expect(accruedInterest(small, [payment('P1', '2024-01-02', 9125)], '2024-01-01', '2024-01-04', 'actual/365')).toBe(1);
+  });
+
+  it('counts every month as 30 days on 30/360', () => {
+    const february = loan({ principal: 3600000, interestRate: 12 });
+    expect(accruedInterest(february, [], '2024-02-01', '2024-03-01', '30/360')).toBe(36000);
+    expect(accruedInterest(february, [], '2024-02-01', '2024-03-01', 'actual/365')).toBe(34323);
+  });
+
+  it('charges a whole month on the balance at its start on monthly, repayments counting from the next', () => {
+    const monthly = loan({ principal: 100000, interestRate: 12, startDate: '2024-01-15' });
+    expect(accruedInterest(monthly, [], '2024-01-15', '2024-03-20', 'monthly')).toBe(3000);
+    expect(accruedInterest(monthly, [payment('P1', '2024-02-20', 50000)], '2024-01-15', '2024-03-20', 'monthly')).toBe(2500);
+  });
+
+  it('accrues nothing before the loan starts or once its principal is carried into a successor', () => {
+    expect(accruedInterest(loan(), [], '2023-12-01', '2024-01-01', 'actual/365')).toBe(0);
+    const replaced = loan({ transferred: { date: '2024-01-06', principal: 3650000 } });
+    expect(accruedInterest(replaced, [], '2024-01-01', '2024-01-11', 'actual/365')).toBe(5000);
+  });
+});
+
+describe('interestDue', () => {
+  it('is what has accrued less the interest paid by then', () => {
+    const payments = [payment('P1', '2024-01-06', 0, 3000), payment('P2', '2024-01-20', 0, 3000)];
+    expect(interestDue(loan(), payments, '2024-01-11', 'actual/365')).toBe(7000);
+  });
+
+  it('is never negative when interest was paid in advance', () => {
+    expect(interestDue(loan(), [payment('P1', '2024-01-02', 0, 50000)], '2024-01-11', 'actual/365')).toBe(0);
+  });
+});
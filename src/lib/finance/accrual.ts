@@ -0,0 +1,85 @@
+/**
+ * Interest accrual
+ * Interest on a loan accrues on its outstanding principal, which drops on the day a payment
+ * repays part of it. How days turn into interest depends on the day-count convention:
+ * - actual/365: each calendar day is 1/365 of a year
+ * - 30/360: every month counts as 30 days and the year as 360 (30E/360)
+ * - monthly: one month's interest for each month or part of one, on the balance at the start
+ *   of that month; repayments during the month count from the next one
+ * Accrued interest is rounded to the paisa once, by the interest rule in money.ts.
+ */
+
+import type { Loan, Payment } from '@/types';
+import { loanPayments } from './loans';
+import { addMonths } from './schedule';
+import { roundPaisa, interestFor, sumPaisa, INTEREST_ROUNDING, type Paisa } from '@/lib/money';
+
+export type DayCount = 'actual/365' | '30/360' | 'monthly';
+
+export const DAY_COUNTS: DayCount[] = ['actual/365', '30/360', 'monthly'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function actualDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY);
+}
+
+function days360(from: string, to: string): number {
+  const [y1, m1, d1] = from.split('-').map(Number);
+  const [y2, m2, d2] = to.split('-').map(Number);
+  return (y2 - y1) * 360 + (m2 - m1) * 30 + (Math.min(d2, 30) - Math.min(d1, 30));
+}
+
+/**
+ * Principal outstanding on a day (YYYY-MM-DD): repayments, and principal carried into a
+ * successor loan, count from the day they are made
+ */
+function balanceOn(loan: Loan, paid: Payment[], date: string): Paisa {
+  const transferred = loan.transferred && loan.transferred.date <= date ? loan.transferred.principal : 0;
+  return Math.max(0, loan.principal - sumPaisa(paid.filter(p => p.date <= date).map(p => p.principalPaid)) - transferred);
+}
+
+/**
+ * Interest accrued on a loan from `from` up to, not including, `to` (dates as YYYY-MM-DD)
+ */
+export function accruedInterest(loan: Loan, payments: Payment[], from: string, to: string, dayCount: DayCount): Paisa {
+  const start = from < loan.startDate ? loan.startDate : from;
+  if (to <= start) return 0;
+  const paid = loanPayments(loan.id, payments);
+
+  if (dayCount === 'monthly') {
+    const months: Paisa[] = [];
+    for (let month = start; month < to; month = addMonths(start, months.length)) {
+      months.push(interestFor(balanceOn(loan, paid, month), loan.interestRate));
+    }
+    return sumPaisa(months);
+  }
+
+  // The balance changes on the days principal is repaid; accrue each stretch between them
+  const changes = paid
+    .filter(p => p.principalPaid > 0)
+    .map(p => p.date)
+    .concat(loan.transferred ? [loan.transferred.date] : [])
+    .filter(date => date > start && date < to)
+    .sort();
+  const bounds = [start, ...changes.filter((date, i) => date !== changes[i - 1]), to];
+
+  let interest = 0;
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const balance = balanceOn(loan, paid, bounds[i]);
+    interest += dayCount === '30/360'
+      ? (balance * loan.interestRate * days360(bounds[i], bounds[i + 1])) / 36000
+      : (balance * loan.interestRate * actualDays(bounds[i], bounds[i + 1])) / 36500;
+  }
+  return roundPaisa(interest, INTEREST_ROUNDING);
+}
+
+/**
+ * Interest owed on a loan as of a date: what has accrued since it started, less the interest
+ * paid up to that date
+ */
+export function interestDue(loan: Loan, payments: Payment[], asOf: string, dayCount: DayCount): Paisa {
+  const paid = loanPayments(loan.id, payments).filter(p => p.date <= asOf);
+  const accrued = accruedInterest(loan, paid, loan.startDate, asOf, dayCount);
+  return Math.max(0, accrued - sumPaisa(paid.map(p => p.interestPaid)));
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { agingBucket, loanAging } from './aging';
+import type { Loan, Payment } from '@/types';
+
+const loan: Loan = {
+  id: 'L1',
+  memberId: 'M1',
+  principal: 120000,
+  interestRate: 12,
+  startDate: '2024-01-15',
+  termMonths: 12,
+  repayment: 'equal-principal',
+  status: 'active',
+};
+
+const payment = (id: string, date: string, principalPaid: number, interestPaid: number): Payment => ({
+  id,
+  loanId: 'L1',
+  memberId: 'M1',
+  date,
+  principalPaid,
+  interestPaid,
+});
+
+describe('agingBucket', () => {
+  it('puts days overdue in their bucket', () => {
+    expect([0, 1, 30, 31, 60, 61, 90, 91].map(agingBucket)).toEqual([
+      'current',
+      '1-30',
+      '1-30',
+      '31-60',
+      '31-60',
+      '61-90',
+      '61-90',
+      '90+',
+    ]);
+  });
+});
+
+describe('loanAging', () => {
+  it('ages a loan by its oldest unpaid line', () => {
+    const aging = loanAging(loan, [payment('P1', '2024-02-15', 10000, 1200)], '2024-04-20');
+    expect(aging).toMatchObject({ outstanding: 110000, daysOverdue: 36, bucket: '31-60' });
+  });
+
+  it('is null before the start date and once the loan is closed', () => {
+    expect(loanAging(loan, [], '2024-01-10')).toBeNull();
+
+    const closed: Loan = {
+      ...loan,
+      status: 'closed',
+      history: [{ status: 'closed', at: '2024-03-01T10:00:00.000Z', by: 'admin' }],
+    };
+    expect(loanAging(closed, [], '2024-02-20')).not.toBeNull();
+    expect(loanAging(closed, [], '2024-03-01')).toBeNull();
+  });
+
+  it('takes a loan closed without a history step to have closed with its last payment', () => {
+    const closed: Loan = { ...loan, status: 'closed' };
+    const payments = [payment('P1', '2024-02-15', 10000, 1200), payment('P2', '2024-05-15', 110000, 0)];
+    expect(loanAging(closed, payments, '2024-04-20')).toMatchObject({ outstanding: 110000, bucket: '31-60' });
+    expect(loanAging(closed, payments, '2024-05-15')).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Portfolio at risk
+ * Every open loan is aged by its oldest schedule line still unpaid after its due date, and put in
+ * a bucket by how many days that is. The portfolio at risk (PAR30, PAR90) is the share of the
+ * outstanding principal on loans more than 30 or 90 days overdue. Figures can be taken on any
+ * past day: only the payments made by then count.
+ */
+
+import type { FinanceData } from './index';
+import type { Loan, Payment } from '@/types';
+import { matchSchedule } from './schedule';
+import { outstandingOn } from './restructuring';
+import { loanPayments } from './loans';
+import { isDisbursed } from './workflow';
+import { sumPaisa, type Paisa } from '@/lib/money';
+
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', '1-30', '31-60', '61-90', '90+'];
+
+/** How each bucket is shown on the dashboard and in reports */
+export const AGING_LABELS: Record<AgingBucket, string> = {
+  current: 'Current',
+  '1-30': '1-30 days',
+  '31-60': '31-60 days',
+  '61-90': '61-90 days',
+  '90+': 'Over 90 days',
+};
+
+export interface LoanAging {
+  loanId: string;
+  memberId: string;
+  outstanding: Paisa;
+  /** Principal and interest of the schedule lines past their due date and not yet paid */
+  principalArrears: Paisa;
+  interestArrears: Paisa;
+  /** Days since the due date of the oldest line still unpaid; 0 when nothing is overdue */
+  daysOverdue: number;
+  bucket: AgingBucket;
+}
+
+export interface BucketTotals {
+  loans: number;
+  outstanding: Paisa;
+  principalArrears: Paisa;
+  interestArrears: Paisa;
+}
+
+export interface AgingReport {
+  /** YYYY-MM-DD */
+  asOf: string;
+  /** Open loans, most overdue first */
+  loans: LoanAging[];
+  buckets: Record<AgingBucket, BucketTotals>;
+  /** Principal outstanding on all open loans */
+  portfolio: Paisa;
+  /** Share (0 to 1) of the portfolio on loans more than 30 and more than 90 days overdue */
+  par30: number;
+  par90: number;
+}
+
+export interface ParPoint {
+  /** YYYY-MM-DD; the last day of the month, or the report date for the current month */
+  date: string;
+  portfolio: Paisa;
+  par30: number;
+  par90: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY);
+}
+
+/**
+ * The bucket for a number of days overdue
+ */
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return '1-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
+
+/**
+ * The day (YYYY-MM-DD) a closed loan stopped being open: when its balance was carried into a
+ * successor, or when it was last marked closed. Loans closed before the workflow kept a history
+ * are taken to have closed with their last payment (on their start date if none was made).
+ */
+function closedOn(loan: Loan, payments: Payment[]): string | undefined {
+  if (loan.status !== 'closed') return undefined;
+  if (loan.transferred) return loan.transferred.date;
+  const closing = (loan.history || []).filter(step => step.status === 'closed').pop();
+  if (closing) return closing.at.slice(0, 10);
+  return loanPayments(loan.id, payments).reduce((last, p) => (p.date > last ? p.date : last), loan.startDate);
+}
+
+/**
+ * How far behind a loan was at the end of a day; null if it was not open then (not yet
+ * disbursed, repaid, or closed)
+ */
+export function loanAging(loan: Loan, payments: Payment[], asOf: string): LoanAging | null {
+  if (!isDisbursed(loan) || loan.startDate > asOf) return null;
+  const closed = closedOn(loan, payments);
+  if (closed && closed <= asOf) return null;
+
+  const paid = payments.filter(p => p.date <= asOf);
+  const outstanding = outstandingOn(loan, paid, asOf);
+  if (outstanding <= 0) return null;
+
+  const overdue = matchSchedule(loan, paid, asOf).lines.filter(line => line.status === 'overdue');
+  const daysOverdue = overdue.length > 0 ? daysBetween(overdue[0].dueDate, asOf) : 0;
+  return {
+    loanId: loan.id,
+    memberId: loan.memberId,
+    outstanding,
+    principalArrears: sumPaisa(overdue.map(line => line.principal - line.principalPaid)),
+    interestArrears: sumPaisa(overdue.map(line => line.interest - line.interestPaid)),
+    daysOverdue,
+    bucket: agingBucket(daysOverdue),
+  };
+}
+
+/**
+ * Every loan open at the end of `asOf`, aged and totalled by bucket
+ */
+export function agingReport(data: Pick<FinanceData, 'loans' | 'payments'>, asOf: string): AgingReport {
+  const loans = data.loans
+    .map(loan => loanAging(loan, data.payments, asOf))
+    .filter((aging): aging is LoanAging => aging !== null)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  const buckets = {} as Record<AgingBucket, BucketTotals>;
+  AGING_BUCKETS.forEach(bucket => {
+    const inBucket = loans.filter(l => l.bucket === bucket);
+    buckets[bucket] = {
+      loans: inBucket.length,
+      outstanding: sumPaisa(inBucket.map(l => l.outstanding)),
+      principalArrears: sumPaisa(inBucket.map(l => l.principalArrears)),
+      interestArrears: sumPaisa(inBucket.map(l => l.interestArrears)),
+    };
+  });
+
+  const portfolio = sumPaisa(loans.map(l => l.outstanding));
+  const atRisk = (days: number) => sumPaisa(loans.filter(l => l.daysOverdue > days).map(l => l.outstanding));
+  return {
+    asOf,
+    loans,
+    buckets,
+    portfolio,
+    par30: portfolio > 0 ? atRisk(30) / portfolio : 0,
+    par90: portfolio > 0 ? atRisk(90) / portfolio : 0,
+  };
+}
+
+/**
+ * PAR30 and PAR90 at the end of each of the last `months` months, the current one (up to
+ * `asOf`) last
+ */
+export function parTrend(data: Pick<FinanceData, 'loans' | 'payments'>, asOf: string, months: number): ParPoint[] {
+  const year = parseInt(asOf.slice(0, 4), 10);
+  const month = parseInt(asOf.slice(5, 7), 10);
+
+  return Array.from({ length: months }, (_, i) => {
+    const back = months - 1 - i;
+    const date = back === 0 ? asOf : new Date(Date.UTC(year, month - back, 0)).toISOString().slice(0, 10);
+    const { portfolio, par30, par90 } = agingReport(data, date);
+    return { date, portfolio, par30, par90 };
+  });
+}
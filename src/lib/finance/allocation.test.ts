@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { allocatePayment, type AllocationBucket } from './allocation';
+import type { Loan, Payment, FinePayment } from '@/types';
+
+const loan: Loan = {
+  id: 'L1',
+  memberId: 'M1',
+  principal: 100000,
+  interestRate: 12,
+  startDate: '2024-01-01',
+  termMonths: 3,
+  repayment: 'equal-principal',
+  status: 'disbursed',
+};
+
+const fine = (id: string, date: string, amount: number, changes: Partial<FinePayment> = {}): FinePayment => ({
+  id,
+  memberId: 'M1',
+  amount,
+  date,
+  reason: 'Interest Default',
+  status: 'due',
+  ...changes,
+});
+
+const fines = [fine('F2', '2024-01-20', 700), fine('F1', '2024-01-10', 500)];
+
+// On 2024-02-15 two months of interest (2000) are due, and the first instalment's principal (33333) is overdue
+const allocate = (
+  amount: number,
+  data: { payments: Payment[]; fines: FinePayment[] } = { payments: [], fines },
+  order?: AllocationBucket[]
+) => allocatePayment(amount, loan, data, '2024-02-15', { dayCount: 'monthly', order });
+
+describe('allocatePayment', () => {
+  it('settles fines, oldest first, then interest, then principal', () => {
+    expect(allocate(20000)).toEqual({
+      fines: 1200,
+      fineIds: ['F1', 'F2'],
+      interest: 2000,
+      overduePrincipal: 16800,
+      currentPrincipal: 0,
+      principal: 16800,
+      unallocated: 0,
+    });
+  });
+
+  it('only settles a fine in full, and stops at the first one the amount does not cover', () => {
+    expect(allocate(1000)).toMatchObject({ fines: 500, fineIds: ['F1'], interest: 500, principal: 0 });
+  });
+
+  it('leaves fines that are paid or owed by other members alone', () => {
+    const settled = [fine('F1', '2024-01-10', 500, { status: 'paid' }), fine('F3', '2024-01-10', 300, { memberId: 'M2' })];
+    expect(allocate(2500, { payments: [], fines: settled })).toMatchObject({ fines: 0, fineIds: [], interest: 2000, principal: 500 });
+  });
+
+  it('pays overdue principal before principal not yet due', () => {
+    expect(allocate(40000, { payments: [], fines: [] })).toMatchObject({
+      interest: 2000,
+      overduePrincipal: 33333,
+      currentPrincipal: 4667,
+      principal: 38000,
+    });
+  });
+
+  it('returns what is left once everything owed is covered', () => {
+    expect(allocate(200000)).toMatchObject({
+      fines: 1200,
+      interest: 2000,
+      overduePrincipal: 33333,
+      currentPrincipal: 66667,
+      principal: 100000,
+      unallocated: 96800,
+    });
+  });
+
+  it('counts interest and principal already paid', () => {
+    // The first instalment repaid on its due date, so the second month accrues on the lower balance
+    const payments = [{ id: 'P1', loanId: 'L1', memberId: 'M1', date: '2024-02-01', principalPaid: 33333, interestPaid: 1500 }];
+    expect(allocate(10000, { payments, fines: [] })).toMatchObject({
+      interest: 1000 + 667 - 1500,
+      overduePrincipal: 0,
+      currentPrincipal: 9833,
+    });
+  });
+
+  it('follows the order set in Settings', () => {
+    expect(allocate(3000, { payments: [], fines }, ['current-principal', 'interest', 'overdue-principal', 'fines'])).toMatchObject({
+      currentPrincipal: 3000,
+      interest: 0,
+      fines: 0,
+      unallocated: 0,
+    });
+  });
+
+  it('allocates nothing from an amount that is not positive', () => {
+    expect(allocate(-500)).toMatchObject({ fines: 0, interest: 0, principal: 0, unallocated: 0 });
+  });
+});
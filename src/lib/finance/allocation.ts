@@ -0,0 +1,95 @@
+/**
+ * Allocating a repayment
+ * An amount received from a member on a loan is split over what they owe, in the order set in
+ * Settings (ALLOCATION_ORDER by default):
+ * - fines: the member's due fines, oldest first; a fine is only settled in full, so allocation
+ *   to fines stops at the first one the rest of the amount does not cover
+ * - interest: interest due on the loan as of the payment date (see accrual.ts)
+ * - overdue-principal: principal of schedule lines due on or before the payment date and not yet repaid
+ * - current-principal: the rest of the outstanding principal
+ * Anything left over is returned as unallocated.
+ */
+
+import type { Loan, Payment, FinePayment } from '@/types';
+import { loanBalance } from './loans';
+import { matchSchedule } from './schedule';
+import { interestDue, type DayCount } from './accrual';
+import type { Paisa } from '@/lib/money';
+
+export type AllocationBucket = 'fines' | 'interest' | 'overdue-principal' | 'current-principal';
+
+export const ALLOCATION_ORDER: AllocationBucket[] = ['fines', 'interest', 'overdue-principal', 'current-principal'];
+
+export interface Allocation {
+  fines: Paisa;
+  /** The due fines settled, oldest first */
+  fineIds: string[];
+  interest: Paisa;
+  overduePrincipal: Paisa;
+  currentPrincipal: Paisa;
+  /** overduePrincipal + currentPrincipal, the payment's principalPaid */
+  principal: Paisa;
+  unallocated: Paisa;
+}
+
+/**
+ * Whether a fine has been paid, rather than levied and still owed
+ */
+export function isFinePaid(fine: FinePayment): boolean {
+  return fine.status !== 'due';
+}
+
+/**
+ * Split an amount received on a loan on `date` (YYYY-MM-DD)
+ */
+export function allocatePayment(
+  amount: Paisa,
+  loan: Loan,
+  data: { payments: Payment[]; fines: FinePayment[] },
+  date: string,
+  options: { dayCount: DayCount; order?: AllocationBucket[] }
+): Allocation {
+  const payments = data.payments.filter(p => p.date <= date);
+  const { outstanding } = loanBalance(loan, payments);
+  const overdue = Math.min(outstanding, matchSchedule(loan, payments, date).lines
+    .filter(line => line.dueDate <= date)
+    .reduce((sum, line) => sum + line.principal - line.principalPaid, 0));
+  const dueFines = data.fines
+    .filter(f => f.memberId === loan.memberId && !isFinePaid(f))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const allocation: Allocation = {
+    fines: 0,
+    fineIds: [],
+    interest: 0,
+    overduePrincipal: 0,
+    currentPrincipal: 0,
+    principal: 0,
+    unallocated: 0,
+  };
+  let left = Math.max(0, amount);
+
+  (options.order || ALLOCATION_ORDER).forEach(bucket => {
+    if (bucket === 'fines') {
+      for (const fine of dueFines) {
+        if (fine.amount > left) break;
+        allocation.fines += fine.amount;
+        allocation.fineIds.push(fine.id);
+        left -= fine.amount;
+      }
+    } else if (bucket === 'interest') {
+      allocation.interest = Math.min(left, interestDue(loan, payments, date, options.dayCount));
+      left -= allocation.interest;
+    } else if (bucket === 'overdue-principal') {
+      allocation.overduePrincipal = Math.min(left, overdue);
+      left -= allocation.overduePrincipal;
+    } else {
+      allocation.currentPrincipal = Math.min(left, outstanding - overdue);
+      left -= allocation.currentPrincipal;
+    }
+  });
+
+  allocation.principal = allocation.overduePrincipal + allocation.currentPrincipal;
+  allocation.unallocated = left;
+  return allocation;
+}
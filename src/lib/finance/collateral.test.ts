@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { findLoanDocument, restructuringChain } from './collateral';
+import type { Loan } from '@/types';
+
+const loan = (id: string, changes: Partial<Loan> = {}): Loan => ({
+  id,
+  memberId: 'M1',
+  principal: 100000,
+  interestRate: 12,
+  startDate: '2024-01-01',
+  termMonths: 12,
+  status: 'disbursed',
+  ...changes,
+});
+
+const deed = { name: 'deed.pdf', url: '/api/loans/L1/documents/1-deed.pdf', uploadedAt: '2024-01-01T00:00:00.000Z' };
+const land = { id: 'C1', type: 'land' as const, description: 'Plot 12', value: 500000, custodian: 'Secretary' };
+
+// L1 and L2 consolidated into L3, which was then extended as L4; L5 is unrelated
+const loans = [
+  loan('L1', { status: 'closed', transferred: { date: '2024-06-01', principal: 50000 } }),
+  loan('L2', { status: 'closed', transferred: { date: '2024-06-01', principal: 30000 } }),
+  loan('L3', {
+    status: 'closed',
+    restructuredFrom: { kind: 'consolidation', date: '2024-06-01', from: ['L1', 'L2'], carried: 80000, topUp: 0 },
+  }),
+  loan('L4', {
+    restructuredFrom: { kind: 'extension', date: '2024-09-01', from: ['L3'], carried: 70000, topUp: 0 },
+    collateral: [{ ...land, documents: [deed] }],
+  }),
+  loan('L5', { memberId: 'M2', collateral: [{ ...land, documents: [{ ...deed, url: '/api/loans/L5/documents/1-deed.pdf' }] }] }),
+];
+
+describe('restructuringChain', () => {
+  it('follows restructurings both ways', () => {
+    expect(restructuringChain(loans, 'L1').map(l => l.id)).toEqual(['L1', 'L2', 'L3', 'L4']);
+    expect(restructuringChain(loans, 'L4').map(l => l.id)).toEqual(['L1', 'L2', 'L3', 'L4']);
+  });
+
+  it('is just the loan when it was never restructured', () => {
+    expect(restructuringChain(loans, 'L5').map(l => l.id)).toEqual(['L5']);
+  });
+});
+
+describe('findLoanDocument', () => {
+  it('finds a document carried into a successor under the loan it was uploaded for', () => {
+    expect(findLoanDocument(loans, 'L1', '1-deed.pdf')).toEqual({ document: deed, storedUnder: 'L1' });
+    expect(findLoanDocument(loans, 'L4', '1-deed.pdf')).toEqual({ document: deed, storedUnder: 'L1' });
+  });
+
+  it('does not serve documents of unrelated loans', () => {
+    expect(findLoanDocument(loans, 'L5', '1-deed.pdf')?.storedUnder).toBe('L5');
+    expect(findLoanDocument([loans[4]], 'L5', 'other.pdf')).toBeNull();
+    expect(findLoanDocument(loans.slice(0, 4), 'L2', 'other.pdf')).toBeNull();
+  });
+});
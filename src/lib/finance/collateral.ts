@@ -0,0 +1,73 @@
+/**
+ * Collateral
+ * Larger loans are secured by land papers or other security, held by a custodian until the loan
+ * is closed and the documents are released back to the member.
+ */
+
+import type { Loan, Collateral, CollateralDocument } from '@/types';
+import { sumPaisa, type Paisa } from '@/lib/money';
+import { loanDocumentUrl } from '@/lib/utils';
+
+export const COLLATERAL_TYPES: Collateral['type'][] = ['land', 'building', 'vehicle', 'gold', 'other'];
+
+/**
+ * Whether a collateral's documents have gone back to the member
+ */
+export function isReleased(collateral: Collateral): boolean {
+  return Boolean(collateral.releasedDate);
+}
+
+/**
+ * Estimated value of the collateral still held for a loan
+ */
+export function heldCollateralValue(loan: Loan): Paisa {
+  return sumPaisa((loan.collateral || []).filter(c => !isReleased(c)).map(c => c.value));
+}
+
+/**
+ * Whether a loan's collateral can be released: only once it is closed
+ */
+export function canReleaseCollateral(loan: Loan): boolean {
+  return loan.status === 'closed';
+}
+
+/**
+ * The loans linked to a loan by restructuring: those it was restructured from and into, and
+ * theirs in turn, itself included
+ */
+export function restructuringChain(loans: Loan[], loanId: string): Loan[] {
+  const ids = new Set([loanId]);
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const loan of loans) {
+      const linked = [loan.id, ...(loan.restructuredFrom?.from || [])];
+      if (linked.some(id => ids.has(id)) && linked.some(id => !ids.has(id))) {
+        linked.forEach(id => ids.add(id));
+        grown = true;
+      }
+    }
+  }
+  return loans.filter(l => ids.has(l.id));
+}
+
+/**
+ * Find a loan's collateral document by its file name. Held collateral moves to the successor
+ * when a loan is restructured while its documents stay stored under the loan they were uploaded
+ * for, so the whole restructuring chain is searched. Returns the document with the id of the
+ * loan it is stored under, or null if no loan in the chain lists it.
+ */
+export function findLoanDocument(
+  loans: Loan[],
+  loanId: string,
+  name: string
+): { document: CollateralDocument; storedUnder: string } | null {
+  const chain = restructuringChain(loans, loanId);
+  const documents = chain.flatMap(l => (l.collateral || []).flatMap(c => c.documents || []));
+  for (const loan of chain) {
+    const url = loanDocumentUrl(loan.id, name);
+    const document = documents.find(d => d.url === url);
+    if (document) return { document, storedUnder: loan.id };
+  }
+  return null;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { savingDefaulters, interestDefaulters, guarantorDefaulters, monthsBetween } from './defaulters';
+import type { Loan, Member, Payment, Saving } from '@/types';
+
+const TODAY = '2024-05-10';
+
+const member = (id: string, name: string): Member => ({ id, name, phone: '9800000000', joinDate: '2023-01-01' });
+const members = [member('M1', 'Asha'), member('M2', 'Bikash'), member('M3', 'Chandra')];
+
+const loan = (id: string, memberId: string, startDate: string, extra: Partial<Loan> = {}): Loan => ({
+  id,
+  memberId,
+  principal: 100000,
+  interestRate: 12,
+  startDate,
+  termMonths: 12,
+  status: 'disbursed',
+  ...extra,
+});
+
+const payment = (id: string, loanId: string, date: string, principalPaid: number, interestPaid: number): Payment => ({
+  id,
+  loanId,
+  memberId: 'M1',
+  date,
+  principalPaid,
+  interestPaid,
+});
+
+describe('monthsBetween', () => {
+  it('counts calendar months, across years', () => {
+    expect(monthsBetween('2024-05-01', '2024-04-30')).toBe(1);
+    expect(monthsBetween('2024-05-31', '2024-05-01')).toBe(0);
+    expect(monthsBetween('2024-01-10', '2023-11-20')).toBe(2);
+  });
+});
+
+describe('savingDefaulters', () => {
+  it('lists members whose last saving was in an earlier month', () => {
+    const savings: Saving[] = [
+      { id: 'S1', memberId: 'M1', amount: 10000, date: '2024-02-20' },
+      { id: 'S2', memberId: 'M1', amount: 10000, date: '2024-03-20' },
+      { id: 'S3', memberId: 'M2', amount: 10000, date: '2024-05-01' },
+    ];
+    // M3 has never saved
+    expect(savingDefaulters({ members, savings }, TODAY)).toEqual([
+      { memberId: 'M1', name: 'Asha', lastSavingDate: '2024-03-20', pendingMonths: 2 },
+    ]);
+  });
+});
+
+describe('interestDefaulters', () => {
+  it('counts from the last payment with interest in it', () => {
+    const payments = [
+      payment('P1', 'L1', '2024-03-15', 10000, 1000),
+      // Principal only: the interest is still unpaid
+      payment('P2', 'L1', '2024-04-15', 20000, 0),
+    ];
+    expect(interestDefaulters({ members, loans: [loan('L1', 'M1', '2024-01-15')], payments }, TODAY)).toEqual([
+      { memberId: 'M1', name: 'Asha', loanId: 'L1', lastPaymentDate: '2024-03-15', pendingMonths: 2 },
+    ]);
+  });
+
+  it('counts from the start date when no interest has been paid', () => {
+    const [defaulter] = interestDefaulters({ members, loans: [loan('L1', 'M1', '2024-02-01')], payments: [] }, TODAY);
+    expect(defaulter).toMatchObject({ lastPaymentDate: '2024-02-01', pendingMonths: 3 });
+  });
+
+  it('skips loans started this month, paid up, closed or not disbursed', () => {
+    const loans = [
+      loan('L1', 'M1', '2024-05-02'),
+      loan('L2', 'M1', '2024-01-15'),
+      loan('L3', 'M2', '2024-01-15', { status: 'closed' }),
+      // Overpaid, so closed
+      loan('L4', 'M2', '2024-01-15'),
+      loan('L5', 'M3', '2024-01-15', { status: 'approved' }),
+    ];
+    const payments = [payment('P1', 'L2', '2024-05-05', 0, 1000), payment('P2', 'L4', '2024-02-15', 120000, 0)];
+    expect(interestDefaulters({ members, loans, payments }, TODAY)).toEqual([]);
+  });
+
+  it('lists a member once, for the loan furthest behind', () => {
+    const loans = [loan('L1', 'M1', '2024-03-01'), loan('L2', 'M1', '2024-01-01')];
+    expect(interestDefaulters({ members, loans, payments: [] }, TODAY)).toEqual([
+      { memberId: 'M1', name: 'Asha', loanId: 'L2', lastPaymentDate: '2024-01-01', pendingMonths: 4 },
+    ]);
+  });
+});
+
+describe('guarantorDefaulters', () => {
+  it('flags the guarantors of a loan in default with their share of what is outstanding', () => {
+    const loans = [
+      loan('L1', 'M1', '2024-01-15', {
+        guarantors: [
+          { memberId: 'M2', amount: 40000 },
+          { memberId: 'M3', amount: 20000 },
+        ],
+      }),
+      // Up to date on its interest
+      loan('L2', 'M2', '2024-01-15', { guarantors: [{ memberId: 'M1', amount: 40000 }] }),
+    ];
+    const payments = [
+      payment('P1', 'L1', '2024-02-15', 25000, 1000),
+      { ...payment('P2', 'L2', '2024-05-01', 0, 1000), memberId: 'M2' },
+    ];
+    expect(guarantorDefaulters({ members, loans, payments }, TODAY)).toEqual([
+      { memberId: 'M2', name: 'Bikash', loanId: 'L1', borrowerId: 'M1', borrowerName: 'Asha', liability: 30000, pendingMonths: 3 },
+      { memberId: 'M3', name: 'Chandra', loanId: 'L1', borrowerId: 'M1', borrowerName: 'Asha', liability: 15000, pendingMonths: 3 },
+    ]);
+  });
+});
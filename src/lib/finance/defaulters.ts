@@ -0,0 +1,133 @@
+/**
+ * Saving and interest defaulters
+ * Savings and interest are due every month. A member is a defaulter once a whole calendar month
+ * has started since their last saving, or since the last interest paid on one of their loans
+ * (its start date if none has been paid). Members who have never saved are not listed.
+ * The guarantors of a loan in default are flagged along with the borrower.
+ */
+
+import type { FinanceData } from './index';
+import type { Loan, Payment } from '@/types';
+import { loanBalance, loanPayments } from './loans';
+import { guarantorLiability } from './guarantees';
+import type { Paisa } from '@/lib/money';
+
+export interface SavingDefaulter {
+  memberId: string;
+  name: string;
+  /** Date (YYYY-MM-DD) of the member's last saving */
+  lastSavingDate: string;
+  pendingMonths: number;
+}
+
+export interface InterestDefaulter {
+  memberId: string;
+  name: string;
+  /** The member's loan that is furthest behind */
+  loanId: string;
+  /** Date (YYYY-MM-DD) interest was last paid on that loan, or its start date */
+  lastPaymentDate: string;
+  pendingMonths: number;
+}
+
+export interface GuarantorDefaulter {
+  /** The guarantor */
+  memberId: string;
+  name: string;
+  /** The loan in default */
+  loanId: string;
+  borrowerId: string;
+  borrowerName: string;
+  /** What the guarantor is liable for on that loan */
+  liability: Paisa;
+  pendingMonths: number;
+}
+
+/**
+ * Calendar months from the month of `earlier` to the month of `later` (dates as YYYY-MM-DD)
+ */
+export function monthsBetween(later: string, earlier: string): number {
+  const months = (date: string) => parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10);
+  return months(later) - months(earlier);
+}
+
+/**
+ * Members whose last saving was in an earlier month than `today`
+ */
+export function savingDefaulters(data: Pick<FinanceData, 'members' | 'savings'>, today: string): SavingDefaulter[] {
+  const lastSaving = new Map<string, string>();
+  data.savings.forEach(s => {
+    const last = lastSaving.get(s.memberId);
+    if (!last || s.date > last) lastSaving.set(s.memberId, s.date);
+  });
+
+  return data.members.flatMap(member => {
+    const lastSavingDate = lastSaving.get(member.id);
+    const pendingMonths = lastSavingDate ? monthsBetween(today, lastSavingDate) : 0;
+    return pendingMonths > 0 ? [{ memberId: member.id, name: member.name, lastSavingDate: lastSavingDate!, pendingMonths }] : [];
+  });
+}
+
+/**
+ * Members with a disbursed, open loan whose interest was last paid in an earlier month than `today`.
+ * Loans started this month are not due yet. A member with several such loans is listed once,
+ * for the loan furthest behind.
+ */
+export function interestDefaulters(data: Pick<FinanceData, 'members' | 'loans' | 'payments'>, today: string): InterestDefaulter[] {
+  const defaulters = new Map<string, InterestDefaulter>();
+
+  data.loans.forEach(loan => {
+    const arrears = interestArrears(loan, data.payments, today);
+    if (!arrears) return;
+    const { lastPaymentDate, pendingMonths } = arrears;
+
+    const member = data.members.find(m => m.id === loan.memberId);
+    if (!member) return;
+
+    const existing = defaulters.get(member.id);
+    if (!existing || pendingMonths > existing.pendingMonths) {
+      defaulters.set(member.id, { memberId: member.id, name: member.name, loanId: loan.id, lastPaymentDate, pendingMonths });
+    }
+  });
+
+  return Array.from(defaulters.values());
+}
+
+/**
+ * The guarantors of every loan in default on its interest, one entry per guarantor and loan
+ */
+export function guarantorDefaulters(data: Pick<FinanceData, 'members' | 'loans' | 'payments'>, today: string): GuarantorDefaulter[] {
+  return data.loans.flatMap(loan => {
+    const arrears = interestArrears(loan, data.payments, today);
+    const borrower = data.members.find(m => m.id === loan.memberId);
+    if (!arrears || !borrower) return [];
+
+    return (loan.guarantors || []).flatMap(guarantee => {
+      const member = data.members.find(m => m.id === guarantee.memberId);
+      return member ? [{
+        memberId: member.id,
+        name: member.name,
+        loanId: loan.id,
+        borrowerId: borrower.id,
+        borrowerName: borrower.name,
+        liability: guarantorLiability(loan, guarantee, data.payments),
+        pendingMonths: arrears.pendingMonths,
+      }] : [];
+    });
+  });
+}
+
+/**
+ * How far a disbursed, open loan is behind on its interest; null when it is not (or not due yet)
+ */
+function interestArrears(loan: Loan, payments: Payment[], today: string): { lastPaymentDate: string; pendingMonths: number } | null {
+  if (monthsBetween(today, loan.startDate) <= 0) return null;
+  const { status } = loanBalance(loan, payments);
+  if (status !== 'disbursed' && status !== 'active') return null;
+
+  const lastPaymentDate = loanPayments(loan.id, payments)
+    .filter(p => p.interestPaid > 0)
+    .reduce((last, p) => (p.date > last ? p.date : last), loan.startDate);
+  const pendingMonths = monthsBetween(today, lastPaymentDate);
+  return pendingMonths > 0 ? { lastPaymentDate, pendingMonths } : null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Loan guarantees
+ * Every loan is guaranteed by one or two other members, each pledging part of their savings.
+ * A guarantor is liable for their share of what is still owed: the pledged amount, scaled down
+ * as the principal is repaid, until the loan is closed or rejected. That liability is the part
+ * of their savings already pledged; only the rest can back another loan.
+ */
+
+import type { FinanceData } from './index';
+import type { Loan, LoanGuarantee, Payment } from '@/types';
+import { loanBalance } from './loans';
+import { sumPaisa, roundPaisa, type Paisa } from '@/lib/money';
+
+export const MAX_GUARANTORS = 2;
+
+export interface GuaranteedLoan {
+  loanId: string;
+  /** The borrower */
+  memberId: string;
+  pledged: Paisa;
+  liability: Paisa;
+}
+
+/**
+ * What a guarantor is liable for on a loan today: their pledge, in proportion to the principal
+ * still outstanding; nothing once the loan is closed or rejected
+ */
+export function guarantorLiability(loan: Loan, guarantee: LoanGuarantee, payments: Payment[]): Paisa {
+  const { outstanding, status } = loanBalance(loan, payments);
+  if (status === 'closed' || status === 'rejected' || loan.principal <= 0) return 0;
+  return Math.min(guarantee.amount, roundPaisa((guarantee.amount * outstanding) / loan.principal, 'half-up'));
+}
+
+/**
+ * The loans a member guarantees, with what they pledged and are liable for on each
+ */
+export function guaranteedLoans(memberId: string, data: Pick<FinanceData, 'loans' | 'payments'>): GuaranteedLoan[] {
+  return data.loans.flatMap(loan =>
+    (loan.guarantors || [])
+      .filter(g => g.memberId === memberId)
+      .map(g => ({
+        loanId: loan.id,
+        memberId: loan.memberId,
+        pledged: g.amount,
+        liability: guarantorLiability(loan, g, data.payments),
+      }))
+  );
+}
+
+/**
+ * A member's savings not already pledged for other loans; `exceptLoanId` leaves out the pledges
+ * on the loan being edited
+ */
+export function unpledgedSavings(
+  memberId: string,
+  data: Pick<FinanceData, 'savings' | 'loans' | 'payments'>,
+  exceptLoanId?: string
+): Paisa {
+  const savings = sumPaisa(data.savings.filter(s => s.memberId === memberId).map(s => s.amount));
+  const pledged = sumPaisa(
+    guaranteedLoans(memberId, { loans: data.loans.filter(l => l.id !== exceptLoanId), payments: data.payments })
+      .map(g => g.liability)
+  );
+  return savings - pledged;
+}
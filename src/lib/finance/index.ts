@@ -0,0 +1,92 @@
+/**
+ * Finance engine
+ * Loan balances, guarantees, member positions, the group's cash position and defaulters, computed
+ * in one place so every page, report and API route shows the same figures. The functions are
+ * pure: they take the records (without deleted ones) and, where the answer depends on it,
+ * today's date, and read nothing else.
+ */
+
+import type { Member, Saving, Loan, Payment, FinePayment, Expenditure } from '@/types';
+
+/** The records the engine works on; functions take only the collections they need */
+export interface FinanceData {
+  members: Member[];
+  savings: Saving[];
+  loans: Loan[];
+  payments: Payment[];
+  fines: FinePayment[];
+  expenditures: Expenditure[];
+}
+
+export { loanPayments, loanBalance, type LoanBalance } from './loans';
+export {
+  loanSchedule,
+  matchSchedule,
+  addMonths,
+  type ScheduleLine,
+  type ScheduleLineStatus,
+  type MatchedSchedule,
+} from './schedule';
+export { accruedInterest, interestDue, DAY_COUNTS, type DayCount } from './accrual';
+export {
+  allocatePayment,
+  isFinePaid,
+  ALLOCATION_ORDER,
+  type AllocationBucket,
+  type Allocation,
+} from './allocation';
+export { memberPosition, cashPosition, withinPeriod, type MemberPosition, type CashPosition } from './positions';
+export {
+  LOAN_STATUSES,
+  LOAN_TRANSITIONS,
+  COMMITTEE_STEPS,
+  isDisbursed,
+  canMoveLoan,
+} from './workflow';
+export {
+  guarantorLiability,
+  guaranteedLoans,
+  unpledgedSavings,
+  MAX_GUARANTORS,
+  type GuaranteedLoan,
+} from './guarantees';
+export {
+  RESTRUCTURING_KINDS,
+  lentAmount,
+  needsGuarantorsConfirmed,
+  outstandingOn,
+  restructuringProblem,
+  restructureLoans,
+  type RestructuringTerms,
+  type Restructuring,
+} from './restructuring';
+export {
+  COLLATERAL_TYPES,
+  isReleased,
+  heldCollateralValue,
+  canReleaseCollateral,
+  restructuringChain,
+  findLoanDocument,
+} from './collateral';
+export {
+  AGING_BUCKETS,
+  AGING_LABELS,
+  agingBucket,
+  loanAging,
+  agingReport,
+  parTrend,
+  type AgingBucket,
+  type LoanAging,
+  type BucketTotals,
+  type AgingReport,
+  type ParPoint,
+} from './aging';
+export {
+  savingDefaulters,
+  interestDefaulters,
+  guarantorDefaulters,
+  monthsBetween,
+  type SavingDefaulter,
+  type InterestDefaulter,
+  type GuarantorDefaulter,
+} from './defaulters';
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { loanBalance } from './loans';
+import type { Loan, Payment } from '@/types';
+
+const loan: Loan = {
+  id: 'L1',
+  memberId: 'M1',
+  principal: 100000,
+  interestRate: 12,
+  startDate: '2024-01-15',
+  termMonths: 12,
+  status: 'disbursed',
+};
+
+const payment = (id: string, principalPaid: number, interestPaid = 0, loanId = 'L1'): Payment => ({
+  id,
+  loanId,
+  memberId: 'M1',
+  date: '2024-02-15',
+  principalPaid,
+  interestPaid,
+});
+
+describe('loanBalance', () => {
+  it('is the whole principal before any repayment', () => {
+    expect(loanBalance(loan, [])).toEqual({
+      principal: 100000,
+      principalPaid: 0,
+      interestPaid: 0,
+      transferred: 0,
+      outstanding: 100000,
+      monthlyInterest: 1000,
+      status: 'disbursed',
+    });
+  });
+
+  it('takes partial repayments off the principal and becomes active', () => {
+    const balance = loanBalance(loan, [payment('P1', 30000, 1000), payment('P2', 20000, 700)]);
+    expect(balance.principalPaid).toBe(50000);
+    expect(balance.interestPaid).toBe(1700);
+    expect(balance.outstanding).toBe(50000);
+    expect(balance.monthlyInterest).toBe(500);
+    expect(balance.status).toBe('active');
+  });
+
+  it('counts only the payments on the loan', () => {
+    expect(loanBalance(loan, [payment('P1', 30000), payment('P2', 50000, 0, 'L2')]).outstanding).toBe(70000);
+  });
+
+  it('never goes below zero on an overpayment, and closes the loan', () => {
+    const balance = loanBalance(loan, [payment('P1', 80000), payment('P2', 30000)]);
+    expect(balance.principalPaid).toBe(110000);
+    expect(balance.outstanding).toBe(0);
+    expect(balance.monthlyInterest).toBe(0);
+    expect(balance.status).toBe('closed');
+  });
+
+  it('stays closed once marked so, whatever is left', () => {
+    const balance = loanBalance({ ...loan, status: 'closed' }, [payment('P1', 30000)]);
+    expect(balance.outstanding).toBe(70000);
+    expect(balance.status).toBe('closed');
+  });
+
+  it('takes principal carried into a successor off what is outstanding', () => {
+    const balance = loanBalance({ ...loan, status: 'closed', transferred: { date: '2024-03-01', principal: 70000 } }, [
+      payment('P1', 30000),
+    ]);
+    expect(balance.transferred).toBe(70000);
+    expect(balance.outstanding).toBe(0);
+  });
+
+  it('keeps the stored status of a loan not yet disbursed', () => {
+    expect(loanBalance({ ...loan, status: 'approved' }, []).status).toBe('approved');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Loan balances
+ */
+
+import type { Loan, LoanStatus, Payment } from '@/types';
+import { isDisbursed } from './workflow';
+import { sumPaisa, interestFor, type Paisa } from '@/lib/money';
+
+export interface LoanBalance {
+  principal: Paisa;
+  principalPaid: Paisa;
+  interestPaid: Paisa;
+  /** Principal carried into a successor loan when this one was restructured */
+  transferred: Paisa;
+  /** Principal not yet repaid or carried over, never below zero */
+  outstanding: Paisa;
+  /** One month's interest on the outstanding principal */
+  monthlyInterest: Paisa;
+  /**
+   * As stored, except that a disbursed loan is active once repayments start, and closed once
+   * marked so or fully repaid
+   */
+  status: LoanStatus;
+}
+
+/**
+ * The payments made on a loan
+ */
+export function loanPayments(loanId: string, payments: Payment[]): Payment[] {
+  return payments.filter(p => p.loanId === loanId);
+}
+
+/**
+ * A loan's repayments and what is left of it
+ */
+export function loanBalance(loan: Loan, payments: Payment[]): LoanBalance {
+  const paid = loanPayments(loan.id, payments);
+  const principalPaid = sumPaisa(paid.map(p => p.principalPaid));
+  const transferred = loan.transferred?.principal || 0;
+  const outstanding = Math.max(0, loan.principal - principalPaid - transferred);
+
+  return {
+    principal: loan.principal,
+    principalPaid,
+    interestPaid: sumPaisa(paid.map(p => p.interestPaid)),
+    transferred,
+    outstanding,
+    monthlyInterest: interestFor(outstanding, loan.interestRate),
+    status: currentStatus(loan, paid, outstanding),
+  };
+}
+
+function currentStatus(loan: Loan, paid: Payment[], outstanding: Paisa): LoanStatus {
+  if (!isDisbursed(loan)) return loan.status;
+  if (loan.status === 'closed' || outstanding <= 0) return 'closed';
+  return loan.status === 'disbursed' && paid.length > 0 ? 'active' : loan.status;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { memberPosition, cashPosition } from './positions';
+import type { Loan, Payment, Saving, FinePayment, Expenditure } from '@/types';
+
+const loan = (id: string, memberId: string, principal: number, status: Loan['status']): Loan => ({
+  id,
+  memberId,
+  principal,
+  interestRate: 12,
+  startDate: '2024-01-15',
+  termMonths: 12,
+  status,
+});
+
+const payment = (id: string, loanId: string, memberId: string, principalPaid: number, interestPaid: number): Payment => ({
+  id,
+  loanId,
+  memberId,
+  date: '2024-02-15',
+  principalPaid,
+  interestPaid,
+});
+
+const saving = (id: string, memberId: string, amount: number): Saving => ({ id, memberId, amount, date: '2024-01-01' });
+
+const fine = (id: string, memberId: string, amount: number, status?: FinePayment['status']): FinePayment => ({
+  id,
+  memberId,
+  date: '2024-02-01',
+  amount,
+  reason: 'Saving Default',
+  ...(status && { status }),
+});
+
+const savings = [saving('S1', 'M1', 50000), saving('S2', 'M1', 50000), saving('S3', 'M2', 20000)];
+const loans = [
+  loan('L1', 'M1', 100000, 'disbursed'),
+  // Not lent out yet
+  loan('L2', 'M1', 50000, 'applied'),
+  // Repaid with 5000 too much
+  loan('L3', 'M1', 20000, 'closed'),
+  loan('L4', 'M2', 30000, 'disbursed'),
+];
+const payments = [
+  payment('P1', 'L1', 'M1', 30000, 1000),
+  payment('P2', 'L3', 'M1', 25000, 200),
+  payment('P3', 'L4', 'M2', 0, 300),
+];
+const fines = [fine('F1', 'M1', 500), fine('F2', 'M1', 300, 'due'), fine('F3', 'M2', 200, 'paid')];
+const expenditures: Expenditure[] = [{ id: 'E1', date: '2024-02-01', item: 'DayBook', amount: 1000 }];
+
+describe('memberPosition', () => {
+  it('totals what a member put in and took out', () => {
+    expect(memberPosition('M1', { savings, loans, payments, fines })).toEqual({
+      memberId: 'M1',
+      savings: 100000,
+      fines: 500,
+      finesDue: 300,
+      loansIssued: 120000,
+      principalPaid: 55000,
+      interestPaid: 1200,
+      // A partly repaid loan, and an overpaid one that counts as nothing outstanding
+      outstanding: 70000,
+      netContribution: 35000,
+    });
+  });
+
+  it('counts principal carried over by restructuring once', () => {
+    const restructured: Loan[] = [
+      { ...loan('L1', 'M1', 100000, 'closed'), transferred: { date: '2024-03-01', principal: 70000 } },
+      {
+        ...loan('L5', 'M1', 80000, 'disbursed'),
+        startDate: '2024-03-01',
+        restructuredFrom: { kind: 'top-up', date: '2024-03-01', from: ['L1'], carried: 70000, topUp: 10000 },
+      },
+    ];
+    const position = memberPosition('M1', { savings, loans: restructured, payments: [payments[0]], fines: [] });
+    expect(position.loansIssued).toBe(110000);
+    expect(position.outstanding).toBe(80000);
+    expect(position.netContribution).toBe(100000 - (110000 - 30000));
+  });
+
+  it('is all zeros for a member with no records', () => {
+    const position = memberPosition('M9', { savings, loans, payments, fines });
+    expect(position.savings + position.loansIssued + position.outstanding + position.fines).toBe(0);
+  });
+});
+
+describe('cashPosition', () => {
+  it('totals the money in, lent out and in hand', () => {
+    expect(cashPosition({ savings, loans, payments, fines, expenditures })).toEqual({
+      savings: 120000,
+      interest: 1500,
+      fines: 700,
+      expenditures: 1000,
+      loansIssued: 150000,
+      principalRepaid: 55000,
+      netLending: 95000,
+      outstanding: 100000,
+      available: 26200,
+    });
+  });
+
+  it('keeps an overpayment in hand while the loan counts as nothing outstanding', () => {
+    const position = cashPosition({
+      savings: [saving('S1', 'M1', 100000)],
+      loans: [loan('L1', 'M1', 20000, 'closed')],
+      payments: [payment('P1', 'L1', 'M1', 25000, 0)],
+      fines: [],
+      expenditures: [],
+    });
+    expect(position.outstanding).toBe(0);
+    expect(position.netLending).toBe(-5000);
+    expect(position.available).toBe(105000);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Member and group positions
+ */
+
+import type { FinanceData } from './index';
+import { loanBalance } from './loans';
+import { isDisbursed } from './workflow';
+import { lentAmount } from './restructuring';
+import { isFinePaid } from './allocation';
+import { sumPaisa, type Paisa } from '@/lib/money';
+
+export interface MemberPosition {
+  memberId: string;
+  savings: Paisa;
+  /** Fines paid */
+  fines: Paisa;
+  /** Fines levied and not yet paid */
+  finesDue: Paisa;
+  /** New money lent to the member; principal carried over by restructuring is counted once */
+  loansIssued: Paisa;
+  principalPaid: Paisa;
+  interestPaid: Paisa;
+  /** Principal of the member's loans not yet repaid */
+  outstanding: Paisa;
+  /** Savings less the principal lent to the member and not paid back */
+  netContribution: Paisa;
+}
+
+export interface CashPosition {
+  savings: Paisa;
+  interest: Paisa;
+  /** Fines paid */
+  fines: Paisa;
+  expenditures: Paisa;
+  /** New money lent; principal carried over by restructuring is counted once */
+  loansIssued: Paisa;
+  principalRepaid: Paisa;
+  /** Principal lent out less principal repaid */
+  netLending: Paisa;
+  /** Sum of the loans' outstanding principal, each never below zero */
+  outstanding: Paisa;
+  /** Cash in hand: savings, interest and fines received, less net lending and expenditures */
+  available: Paisa;
+}
+
+/**
+ * What a member has put in and taken out; loans count once disbursed
+ */
+export function memberPosition(
+  memberId: string,
+  data: Pick<FinanceData, 'savings' | 'loans' | 'payments' | 'fines'>
+): MemberPosition {
+  const loans = data.loans.filter(l => l.memberId === memberId && isDisbursed(l));
+  const payments = data.payments.filter(p => p.memberId === memberId);
+  const savings = sumPaisa(data.savings.filter(s => s.memberId === memberId).map(s => s.amount));
+  const loansIssued = sumPaisa(loans.map(lentAmount));
+  const principalPaid = sumPaisa(payments.map(p => p.principalPaid));
+  const fines = data.fines.filter(f => f.memberId === memberId);
+
+  return {
+    memberId,
+    savings,
+    fines: sumPaisa(fines.filter(isFinePaid).map(f => f.amount)),
+    finesDue: sumPaisa(fines.filter(f => !isFinePaid(f)).map(f => f.amount)),
+    loansIssued,
+    principalPaid,
+    interestPaid: sumPaisa(payments.map(p => p.interestPaid)),
+    outstanding: sumPaisa(loans.map(l => loanBalance(l, data.payments).outstanding)),
+    netContribution: savings - (loansIssued - principalPaid),
+  };
+}
+
+/**
+ * The group's money: what came in, what is lent out and what is left in hand.
+ * Applications, approved loans not yet disbursed and rejected ones are not lent out.
+ */
+export function cashPosition(
+  data: Pick<FinanceData, 'savings' | 'loans' | 'payments' | 'fines' | 'expenditures'>
+): CashPosition {
+  const savings = sumPaisa(data.savings.map(s => s.amount));
+  const interest = sumPaisa(data.payments.map(p => p.interestPaid));
+  const fines = sumPaisa(data.fines.filter(isFinePaid).map(f => f.amount));
+  const expenditures = sumPaisa(data.expenditures.map(e => e.amount));
+  const loans = data.loans.filter(isDisbursed);
+  const loansIssued = sumPaisa(loans.map(lentAmount));
+  const principalRepaid = sumPaisa(data.payments.map(p => p.principalPaid));
+  const netLending = loansIssued - principalRepaid;
+
+  return {
+    savings,
+    interest,
+    fines,
+    expenditures,
+    loansIssued,
+    principalRepaid,
+    netLending,
+    outstanding: sumPaisa(loans.map(l => loanBalance(l, data.payments).outstanding)),
+    available: savings + interest + fines - netLending - expenditures,
+  };
+}
+
+/**
+ * The records dated from `from` through `to` (YYYY-MM-DD, inclusive); loans by their start date
+ * and fines by the date they were paid
+ */
+export function withinPeriod<T extends Partial<FinanceData>>(data: T, from: string, to: string): T {
+  const inPeriod = (date: string) => date.slice(0, 10) >= from && date.slice(0, 10) <= to;
+  return {
+    ...data,
+    ...(data.savings && { savings: data.savings.filter(s => inPeriod(s.date)) }),
+    ...(data.loans && { loans: data.loans.filter(l => inPeriod(l.startDate)) }),
+    ...(data.payments && { payments: data.payments.filter(p => inPeriod(p.date)) }),
+    ...(data.fines && { fines: data.fines.filter(f => inPeriod(f.paidDate || f.date)) }),
+    ...(data.expenditures && { expenditures: data.expenditures.filter(e => inPeriod(e.date)) }),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { restructureLoans, restructuringProblem, type RestructuringTerms } from './restructuring';
+import type { Loan } from '@/types';
+
+const loan = (id: string, guarantor: string, pledged: number): Loan => ({
+  id,
+  memberId: 'M1',
+  principal: 100000,
+  interestRate: 12,
+  startDate: '2024-01-15',
+  termMonths: 12,
+  status: 'disbursed',
+  guarantors: [{ memberId: guarantor, amount: pledged }],
+});
+
+const terms = (changes: Partial<RestructuringTerms>): RestructuringTerms => ({
+  kind: 'extension',
+  date: '2024-07-15',
+  topUp: 0,
+  interestRate: 12,
+  termMonths: 24,
+  repayment: 'interest-only',
+  ...changes,
+});
+
+describe('restructuring guarantors', () => {
+  it('keeps the guarantors of an extension or rate change', () => {
+    const { successor } = restructureLoans([loan('L1', 'M2', 100000)], [], terms({ kind: 'extension' }));
+    expect(successor.guarantors).toEqual([{ memberId: 'M2', amount: 100000 }]);
+    expect(restructuringProblem([loan('L1', 'M2', 100000)], [], terms({ kind: 'rate-change', interestRate: 10 }))).toBeNull();
+  });
+
+  it('needs the guarantors confirmed again for a top-up', () => {
+    const loans = [loan('L1', 'M2', 100000)];
+    expect(restructuringProblem(loans, [], terms({ kind: 'top-up', topUp: 50000 }))).toBe(
+      'The guarantors must be confirmed again for a top-up'
+    );
+
+    const guarantors = [{ memberId: 'M2', amount: 150000 }];
+    const topUp = terms({ kind: 'top-up', topUp: 50000, guarantors });
+    expect(restructuringProblem(loans, [], topUp)).toBeNull();
+    const { successor } = restructureLoans(loans, [], topUp);
+    expect(successor.principal).toBe(150000);
+    expect(successor.guarantors).toEqual(guarantors);
+  });
+
+  it('needs the guarantors confirmed again for a consolidation instead of keeping the first loan\'s', () => {
+    const loans = [loan('L1', 'M2', 100000), loan('L2', 'M3', 100000)];
+    expect(restructuringProblem(loans, [], terms({ kind: 'consolidation' }))).toBe(
+      'The guarantors must be confirmed again for a consolidation'
+    );
+
+    const guarantors = [{ memberId: 'M2', amount: 100000 }, { memberId: 'M3', amount: 100000 }];
+    const { successor } = restructureLoans(loans, [], terms({ kind: 'consolidation', guarantors }));
+    expect(successor.principal).toBe(200000);
+    expect(successor.guarantors).toEqual(guarantors);
+  });
+});
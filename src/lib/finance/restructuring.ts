@@ -0,0 +1,124 @@
+/**
+ * Loan restructuring
+ * A disbursed loan's terms are never edited in place. A top-up, term extension, rate change or
+ * consolidation instead closes the loans concerned, carrying their outstanding principal on the
+ * restructuring date into a new successor loan that starts that day with the new terms. The
+ * replaced loans keep their original terms and record what they carried over; the successor
+ * records where it came from, so every step stays auditable. Interest due on the replaced loans
+ * up to that date is not carried over and should be collected first.
+ *
+ * Guarantors pledged for the replaced loans' principal, not for new money or for the other loans
+ * of a consolidation, so a top-up or consolidation needs its guarantors confirmed again; an
+ * extension or rate change keeps the loan's guarantors.
+ */
+
+import type { Loan, Payment, RepaymentType, RestructuringKind, LoanRestructuring, LoanGuarantee } from '@/types';
+import { loanBalance, loanPayments } from './loans';
+import type { Paisa } from '@/lib/money';
+
+export const RESTRUCTURING_KINDS: RestructuringKind[] = ['top-up', 'extension', 'rate-change', 'consolidation'];
+
+export interface RestructuringTerms {
+  kind: RestructuringKind;
+  /** YYYY-MM-DD; the successor starts on it */
+  date: string;
+  /** New money lent on top, for a top-up */
+  topUp: Paisa;
+  interestRate: number;
+  termMonths: number;
+  repayment: RepaymentType;
+  /** The successor's guarantors, confirmed again; required for a top-up or consolidation */
+  guarantors?: LoanGuarantee[];
+}
+
+export interface Restructuring {
+  /** The successor loan, without id, status or history */
+  successor: Omit<Loan, 'id' | 'status' | 'history'>;
+  /** The principal each replaced loan carries into the successor */
+  transfers: Array<{ loanId: string; principal: Paisa }>;
+}
+
+/**
+ * The principal of a loan that was new money lent, rather than carried over from loans it replaced
+ */
+export function lentAmount(loan: Loan): Paisa {
+  return loan.principal - (loan.restructuredFrom?.carried || 0);
+}
+
+/**
+ * Whether a restructuring of this kind changes what the guarantors stand behind, so they have
+ * to be confirmed again
+ */
+export function needsGuarantorsConfirmed(kind: RestructuringKind): boolean {
+  return kind === 'top-up' || kind === 'consolidation';
+}
+
+/**
+ * Principal outstanding on a loan at the end of a day (YYYY-MM-DD), counting only the repayments
+ * made, and any principal carried into a successor, by then
+ */
+export function outstandingOn(loan: Loan, payments: Payment[], date: string): Paisa {
+  const { principal, principalPaid } = loanBalance(loan, payments.filter(p => p.date <= date));
+  const transferred = loan.transferred && loan.transferred.date <= date ? loan.transferred.principal : 0;
+  return Math.max(0, principal - principalPaid - transferred);
+}
+
+/**
+ * Why `loans` (the loan restructured first, then any consolidated with it) cannot be
+ * restructured on these terms, or null if they can
+ */
+export function restructuringProblem(loans: Loan[], payments: Payment[], terms: RestructuringTerms): string | null {
+  if (loans.length === 0) return 'No loan to restructure';
+  if (terms.kind === 'consolidation' ? loans.length < 2 : loans.length > 1) {
+    return terms.kind === 'consolidation' ? 'Choose at least one other loan to consolidate' : 'Only consolidation replaces several loans';
+  }
+  if (terms.kind === 'top-up' ? terms.topUp <= 0 : terms.topUp !== 0) {
+    return terms.kind === 'top-up' ? 'A top-up needs an amount' : 'Only a top-up lends new money';
+  }
+  if (needsGuarantorsConfirmed(terms.kind) && !terms.guarantors) {
+    return `The guarantors must be confirmed again for a ${terms.kind === 'top-up' ? 'top-up' : 'consolidation'}`;
+  }
+  if (!Number.isInteger(terms.termMonths) || terms.termMonths < 1) return 'The new term must be a whole number of months';
+  if (!(terms.interestRate >= 0 && terms.interestRate <= 100)) return 'The interest rate must be between 0 and 100';
+
+  for (const loan of loans) {
+    if (loan.memberId !== loans[0].memberId) return `${loan.id} belongs to another member`;
+    const { status } = loanBalance(loan, payments);
+    if (status !== 'disbursed' && status !== 'active') return `${loan.id} is ${status}; only open, disbursed loans can be restructured`;
+    if (terms.date < loan.startDate) return `${loan.id} starts after ${terms.date}`;
+    const later = loanPayments(loan.id, payments).find(p => p.date > terms.date);
+    if (later) return `${loan.id} has a payment (${later.id}) after ${terms.date}`;
+  }
+  return null;
+}
+
+/**
+ * The successor loan and transfers for a restructuring; check restructuringProblem first
+ */
+export function restructureLoans(loans: Loan[], payments: Payment[], terms: RestructuringTerms): Restructuring {
+  const transfers = loans.map(loan => ({ loanId: loan.id, principal: outstandingOn(loan, payments, terms.date) }));
+  const carried = transfers.reduce((sum, t) => sum + t.principal, 0);
+  const guarantors = terms.guarantors || loans[0].guarantors;
+  const restructuredFrom: LoanRestructuring = {
+    kind: terms.kind,
+    date: terms.date,
+    from: loans.map(l => l.id),
+    carried,
+    topUp: terms.topUp,
+  };
+
+  return {
+    successor: {
+      memberId: loans[0].memberId,
+      principal: carried + terms.topUp,
+      interestRate: terms.interestRate,
+      startDate: terms.date,
+      termMonths: terms.termMonths,
+      repayment: terms.repayment,
+      ...(loans[0].purpose && { purpose: loans[0].purpose }),
+      ...(guarantors && guarantors.length > 0 && { guarantors }),
+      restructuredFrom,
+    },
+    transfers,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { addMonths, loanSchedule, matchSchedule } from './schedule';
+import type { Loan, Payment } from '@/types';
+
+const loan = (changes: Partial<Loan> = {}): Loan => ({
+  id: 'L1',
+  memberId: 'M1',
+  principal: 100000,
+  interestRate: 12,
+  startDate: '2024-01-31',
+  termMonths: 3,
+  status: 'disbursed',
+  ...changes,
+});
+
+const payment = (id: string, date: string, principalPaid: number, interestPaid: number): Payment => ({
+  id,
+  loanId: 'L1',
+  memberId: 'M1',
+  date,
+  principalPaid,
+  interestPaid,
+});
+
+describe('addMonths', () => {
+  it('keeps the day of the month, or the last day of a shorter month', () => {
+    expect(['2024-01-31', '2024-03-31', '2023-12-15'].map(date => addMonths(date, 1))).toEqual([
+      '2024-02-29',
+      '2024-04-30',
+      '2024-01-15',
+    ]);
+  });
+});
+
+describe('loanSchedule', () => {
+  it('asks only interest until the last month of an interest-only loan', () => {
+    expect(loanSchedule(loan())).toEqual([
+      { number: 1, dueDate: '2024-02-29', principal: 0, interest: 1000, balance: 100000 },
+      { number: 2, dueDate: '2024-03-31', principal: 0, interest: 1000, balance: 100000 },
+      { number: 3, dueDate: '2024-04-30', principal: 100000, interest: 1000, balance: 0 },
+    ]);
+  });
+
+  it('settles the principal left over from rounding in the last line', () => {
+    const lines = loanSchedule(loan({ repayment: 'equal-principal' }));
+    expect(lines.map(l => [l.principal, l.interest, l.balance])).toEqual([
+      [33333, 1000, 66667],
+      [33333, 667, 33334],
+      [33334, 333, 0],
+    ]);
+  });
+
+  it('keeps EMI instalments equal up to the rounding of the last one', () => {
+    const lines = loanSchedule(loan({ repayment: 'emi' }));
+    expect(lines.map(l => [l.principal, l.interest, l.balance])).toEqual([
+      [33002, 1000, 66998],
+      [33332, 670, 33666],
+      [33666, 337, 0],
+    ]);
+    expect(lines.map(l => l.principal + l.interest)).toEqual([34002, 34002, 34003]);
+  });
+
+  it('splits an interest-free EMI loan evenly', () => {
+    const lines = loanSchedule(loan({ repayment: 'emi', interestRate: 0 }));
+    expect(lines.map(l => [l.principal, l.interest])).toEqual([[33333, 0], [33333, 0], [33334, 0]]);
+  });
+});
+
+describe('matchSchedule', () => {
+  it('marks a partly paid line overdue once its due date has passed', () => {
+    const { lines } = matchSchedule(loan(), [payment('P1', '2024-02-29', 0, 500)], '2024-03-15');
+    expect(lines.map(l => [l.interestPaid, l.status])).toEqual([
+      [500, 'overdue'],
+      [0, 'upcoming'],
+      [0, 'upcoming'],
+    ]);
+  });
+
+  it('fills the earliest lines first and records the payment that completed each', () => {
+    const payments = [payment('P1', '2024-02-29', 0, 1500), payment('P2', '2024-03-20', 0, 500)];
+    const { lines } = matchSchedule(loan(), payments, '2024-03-25');
+    expect(lines.map(l => [l.interestPaid, l.status, l.paidDate, l.paymentIds])).toEqual([
+      [1000, 'paid', '2024-02-29', ['P1']],
+      [1000, 'paid', '2024-03-20', ['P1', 'P2']],
+      [0, 'upcoming', undefined, []],
+    ]);
+  });
+
+  it('keeps what is paid beyond the schedule as excess', () => {
+    const { lines, excessPrincipal, excessInterest } = matchSchedule(
+      loan(),
+      [payment('P1', '2024-04-30', 150000, 4000)],
+      '2024-05-01'
+    );
+    expect(lines.every(l => l.status === 'paid')).toBe(true);
+    expect(excessPrincipal).toBe(50000);
+    expect(excessInterest).toBe(1000);
+  });
+});
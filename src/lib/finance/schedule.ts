@@ -0,0 +1,145 @@
+/**
+ * Repayment schedules
+ * A loan is repaid in `termMonths` monthly instalments, the first due one month after its start
+ * date. Interest is charged on the balance left after the previous instalment and rounded by the
+ * interest rule in money.ts; rounding left over from the principal is settled in the last line.
+ */
+
+import type { Loan, Payment, RepaymentType } from '@/types';
+import { loanPayments } from './loans';
+import { roundPaisa, interestFor, INTEREST_ROUNDING, type Paisa } from '@/lib/money';
+
+export interface ScheduleLine {
+  /** 1 for the first instalment */
+  number: number;
+  /** YYYY-MM-DD */
+  dueDate: string;
+  principal: Paisa;
+  interest: Paisa;
+  /** Principal left once this instalment is paid */
+  balance: Paisa;
+}
+
+export interface ScheduleLineStatus extends ScheduleLine {
+  principalPaid: Paisa;
+  interestPaid: Paisa;
+  /** The payments that went towards this line */
+  paymentIds: string[];
+  /** Date of the payment that completed this line */
+  paidDate?: string;
+  /**
+   * paid: principal and interest both covered;
+   * overdue: due before today and not fully paid;
+   * partial: not due yet, partly paid;
+   * upcoming: not due yet, nothing paid
+   */
+  status: 'paid' | 'overdue' | 'partial' | 'upcoming';
+}
+
+export interface MatchedSchedule {
+  lines: ScheduleLineStatus[];
+  /** Paid beyond what the schedule asks for, e.g. interest for months after the term */
+  excessPrincipal: Paisa;
+  excessInterest: Paisa;
+}
+
+/**
+ * The date `months` calendar months after a date (YYYY-MM-DD), on the same day of the month
+ * or the last day of a shorter month
+ */
+export function addMonths(date: string, months: number): string {
+  const total = parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10) - 1 + months;
+  const year = Math.floor(total / 12);
+  const month = (total % 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = Math.min(parseInt(date.slice(8, 10), 10), lastDay);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The equal monthly instalment that repays a principal with interest over a number of months
+ */
+function instalment(principal: Paisa, annualRate: number, months: number): Paisa {
+  const rate = annualRate / 1200;
+  if (rate === 0) return roundPaisa(principal / months, INTEREST_ROUNDING);
+  return roundPaisa((principal * rate) / (1 - Math.pow(1 + rate, -months)), INTEREST_ROUNDING);
+}
+
+/**
+ * The instalments due on a loan
+ */
+export function loanSchedule(loan: Loan): ScheduleLine[] {
+  const repayment: RepaymentType = loan.repayment || 'interest-only';
+  const months = Math.max(1, Math.floor(loan.termMonths));
+  const emi = instalment(loan.principal, loan.interestRate, months);
+  const lines: ScheduleLine[] = [];
+  let balance = loan.principal;
+
+  for (let number = 1; number <= months; number++) {
+    const interest = interestFor(balance, loan.interestRate);
+    let principal: Paisa;
+    if (number === months) {
+      principal = balance;
+    } else if (repayment === 'equal-principal') {
+      principal = Math.floor(loan.principal / months);
+    } else if (repayment === 'emi') {
+      principal = Math.min(balance, Math.max(0, emi - interest));
+    } else {
+      principal = 0;
+    }
+
+    balance -= principal;
+    lines.push({ number, dueDate: addMonths(loan.startDate, number), principal, interest, balance });
+  }
+  return lines;
+}
+
+/**
+ * Match a loan's payments against its schedule. Payments are taken in date order, and their
+ * principal and interest each go to the earliest lines still owing them.
+ */
+export function matchSchedule(loan: Loan, payments: Payment[], today: string): MatchedSchedule {
+  const lines: ScheduleLineStatus[] = loanSchedule(loan).map(line => ({
+    ...line,
+    principalPaid: 0,
+    interestPaid: 0,
+    paymentIds: [],
+    status: 'upcoming' as const,
+  }));
+  let excessPrincipal = 0;
+  let excessInterest = 0;
+
+  const paid = loanPayments(loan.id, payments).slice().sort((a, b) => a.date.localeCompare(b.date));
+  paid.forEach(payment => {
+    let principal = payment.principalPaid;
+    let interest = payment.interestPaid;
+    lines.forEach(line => {
+      const toPrincipal = Math.min(principal, line.principal - line.principalPaid);
+      const toInterest = Math.min(interest, line.interest - line.interestPaid);
+      if (toPrincipal <= 0 && toInterest <= 0) return;
+
+      line.principalPaid += toPrincipal;
+      line.interestPaid += toInterest;
+      principal -= toPrincipal;
+      interest -= toInterest;
+      line.paymentIds.push(payment.id);
+      if (!line.paidDate && line.principalPaid >= line.principal && line.interestPaid >= line.interest) {
+        line.paidDate = payment.date;
+      }
+    });
+    excessPrincipal += principal;
+    excessInterest += interest;
+  });
+
+  lines.forEach(line => {
+    if (line.principalPaid >= line.principal && line.interestPaid >= line.interest) {
+      line.status = 'paid';
+    } else if (line.dueDate < today) {
+      line.status = 'overdue';
+    } else {
+      line.status = line.principalPaid > 0 || line.interestPaid > 0 ? 'partial' : 'upcoming';
+    }
+  });
+
+  return { lines, excessPrincipal, excessInterest };
+}
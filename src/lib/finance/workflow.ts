@@ -0,0 +1,43 @@
+/**
+ * Loan approval workflow
+ * A loan is added as an application and moves through these statuses:
+ *   applied -> under-review -> approved -> disbursed -> active -> closed
+ * An application can be rejected at any step before the money is disbursed. A disbursed loan
+ * becomes active with its first repayment and closed once fully repaid (see loans.ts); a closed
+ * loan can be reopened. Committee members review, approve and reject; Admins can take any step.
+ * Only loans that have been disbursed count as money lent out.
+ */
+
+import type { Loan, LoanStatus } from '@/types';
+
+export const LOAN_STATUSES: LoanStatus[] = ['applied', 'under-review', 'approved', 'disbursed', 'active', 'closed', 'rejected'];
+
+/** The statuses a loan can move to from each status */
+export const LOAN_TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  applied: ['under-review', 'rejected'],
+  'under-review': ['approved', 'rejected'],
+  approved: ['disbursed', 'rejected'],
+  disbursed: ['active', 'closed'],
+  active: ['closed'],
+  closed: ['active'],
+  rejected: [],
+};
+
+/** The steps committee members may take; Admins may take all of them */
+export const COMMITTEE_STEPS: LoanStatus[] = ['under-review', 'approved', 'rejected'];
+
+/**
+ * Whether the money of a loan has been handed over, so it counts against the group's cash
+ */
+export function isDisbursed(loan: Loan): boolean {
+  return loan.status === 'disbursed' || loan.status === 'active' || loan.status === 'closed';
+}
+
+/**
+ * Whether a loan can move from its current status to `status`. A loan replaced by restructuring
+ * stays closed: its balance lives on in the successor.
+ */
+export function canMoveLoan(loan: Loan, status: LoanStatus): boolean {
+  if (loan.transferred) return false;
+  return (LOAN_TRANSITIONS[loan.status] || []).includes(status);
+}
@@ -18,6 +18,32 @@ export interface GitHubFileResponse {
   encoding: string;
 }
 
+export interface CommitAuthor {
+  name: string;
+  email: string;
+  /** ISO date to record instead of now (e.g. when copying history from another backend) */
+  date?: string;
+}
+
+/**
+ * Commit message and author for a write. Without these the message is generic
+ * and the commit is attributed to the token's owner.
+ */
+export interface CommitDetails {
+  message?: string;
+  author?: CommitAuthor;
+}
+
+export interface GitHubCommit {
+  sha: string;
+  message: string;
+  author: string;
+  email?: string;
+  date: string;
+  /** First parent, i.e. the version this commit changed (missing for the initial commit) */
+  parent?: string;
+}
+
 /**
  * Read a JSON file from GitHub repository
  * This should be called from backend API routes only
@@ -27,9 +53,11 @@ export async function readGitHubFile(
   path: string,
   token: string,
   owner: string,
-  repo: string
+  repo: string,
+  ref?: string
 ): Promise<{ data: any; sha?: string } | null> {
-  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
+  // Without a ref the file is read from the default branch
+  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}${ref ? `?ref=${encodeURIComponent(ref)}` : ''}`;
   
   const response = await fetch(url, {
     headers: {
@@ -62,9 +90,40 @@ export async function readGitHubFile(
   }
 }
 
+/**
+ * Get the current blob SHA of a file, or undefined if it does not exist.
+ * Works for files that are not valid JSON, unlike readGitHubFile.
+ */
+export async function getGitHubFileSha(
+  path: string,
+  token: string,
+  owner: string,
+  repo: string
+): Promise<string | undefined> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return undefined;
+    }
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  const fileInfo = await response.json();
+  return fileInfo.sha;
+}
+
 /**
  * Write a JSON file to GitHub repository
  * This should be called from backend API routes only
+ * Returns the SHA of the new file version
  */
 export async function writeGitHubFile(
   path: string,
@@ -72,8 +131,9 @@ export async function writeGitHubFile(
   token: string,
   owner: string,
   repo: string,
-  sha?: string
-): Promise<void> {
+  sha?: string,
+  commit: CommitDetails = {}
+): Promise<string | undefined> {
   const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
   
   // Convert content to base64 (Node.js Buffer API - API routes run in Node.js)
@@ -83,10 +143,14 @@ export async function writeGitHubFile(
   const base64Content = Buffer.from(jsonContent).toString('base64');
   
   const body: any = {
-    message: `Update ${path}`,
+    message: commit.message || `Update ${path}`,
     content: base64Content,
   };
 
+  if (commit.author) {
+    body.author = commit.author;
+  }
+
   // Include sha for updates to handle concurrency
   if (sha) {
     body.sha = sha;
@@ -106,6 +170,9 @@ export async function writeGitHubFile(
     const error = await response.json().catch(() => ({ message: 'Unknown error' }));
     throw new Error(`GitHub API error: ${response.status} - ${error.message || response.statusText}`);
   }
+
+  const result = await response.json();
+  return result.content?.sha;
 }
 
 /**
@@ -118,16 +185,18 @@ export async function writeRawFile(
   token: string,
   owner: string,
   repo: string,
-  sha?: string
+  sha?: string,
+  commit: CommitDetails = {}
 ): Promise<void> {
   const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
 
   const body: any = {
-    message: `Add ${path}`,
+    message: commit.message || `Add ${path}`,
     content: base64Content,
   };
 
   if (sha) body.sha = sha;
+  if (commit.author) body.author = commit.author;
 
   const response = await fetch(url, {
     method: 'PUT',
@@ -145,6 +214,35 @@ export async function writeRawFile(
   }
 }
 
+/**
+ * Read a raw (binary/text) file from the repo. Returns null if it does not exist.
+ * The raw media type also serves files over the 1 MB limit of the JSON contents response.
+ */
+export async function readRawFile(
+  path: string,
+  token: string,
+  owner: string,
+  repo: string
+): Promise<Buffer | null> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/contents/${path}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.raw',
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) return null;
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const Buffer = require('buffer').Buffer;
+  return Buffer.from(await response.arrayBuffer());
+}
+
 /**
  * List backup files from backups/ directory
  */
@@ -174,3 +272,195 @@ export async function listGitHubFiles(
   return files.map(f => f.path);
 }
 
+
+/**
+ * List commits that touched a path, newest first
+ * `until` (ISO date) only returns commits made at or before that moment
+ */
+export async function listGitHubCommits(
+  path: string,
+  token: string,
+  owner: string,
+  repo: string,
+  limit = 30,
+  page = 1,
+  until?: string
+): Promise<GitHubCommit[]> {
+  let url = `https://api.github.com/repos/${owner}/${repo}/commits?path=${encodeURIComponent(path)}&per_page=${limit}&page=${page}`;
+  if (until) {
+    url += `&until=${encodeURIComponent(until)}`;
+  }
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return [];
+    }
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  const commits: any[] = await response.json();
+  return commits.map(c => ({
+    sha: c.sha,
+    message: c.commit.message,
+    author: c.commit.author?.name || c.author?.login || 'unknown',
+    email: c.commit.author?.email,
+    date: c.commit.author?.date || c.commit.committer?.date,
+    parent: c.parents?.[0]?.sha,
+  }));
+}
+
+/**
+ * List the paths of the files changed by a commit
+ */
+export async function getGitHubCommitFiles(
+  sha: string,
+  token: string,
+  owner: string,
+  repo: string
+): Promise<string[]> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/commits/${sha}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  const commit = await response.json();
+  return (commit.files || []).map((f: any) => f.filename);
+}
+
+export interface GitHubFileChange {
+  path: string;
+  content: any;
+  /** Expected current blob sha; the commit is refused if the file has changed since */
+  sha?: string;
+}
+
+/**
+ * Call a GitHub REST endpoint and return the parsed JSON body
+ */
+async function githubRequest(
+  url: string,
+  token: string,
+  init: { method?: string; body?: any } = {}
+): Promise<any> {
+  const response = await fetch(url, {
+    method: init.method || 'GET',
+    headers: {
+      Authorization: `token ${token}`,
+      Accept: 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json',
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(`GitHub API error: ${response.status} - ${error.message || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Write several JSON files as a single commit on the default branch
+ * (blobs -> tree -> commit -> move the branch ref), so either all files change or none do.
+ * This should be called from backend API routes only
+ * Returns the new blob SHA of each file, keyed by path
+ *
+ * Files given with a sha are checked against the branch head first; a mismatch fails
+ * with "GitHub API error: 409". If the branch moves while the commit is being built,
+ * the whole commit is rebuilt on the new head.
+ */
+export async function commitGitHubFiles(
+  files: GitHubFileChange[],
+  token: string,
+  owner: string,
+  repo: string,
+  commit: CommitDetails = {}
+): Promise<Record<string, string>> {
+  const message = commit.message || `Update ${files.map(f => f.path).join(', ')}`;
+  const base = `https://api.github.com/repos/${owner}/${repo}`;
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const Buffer = require('buffer').Buffer;
+
+  const repoInfo = await githubRequest(base, token);
+  const branch: string = repoInfo.default_branch || 'main';
+
+  // Blobs do not depend on the branch head, so they are created once
+  const blobShas: Record<string, string> = {};
+  for (const file of files) {
+    const blob = await githubRequest(`${base}/git/blobs`, token, {
+      method: 'POST',
+      body: {
+        content: Buffer.from(JSON.stringify(file.content, null, 2)).toString('base64'),
+        encoding: 'base64',
+      },
+    });
+    blobShas[file.path] = blob.sha;
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const ref = await githubRequest(`${base}/git/ref/heads/${branch}`, token);
+    const headSha: string = ref.object.sha;
+    const headCommit = await githubRequest(`${base}/git/commits/${headSha}`, token);
+
+    for (const file of files) {
+      if (!file.sha) continue;
+      const current = await githubRequest(
+        `${base}/contents/${file.path}?ref=${headSha}`,
+        token
+      ).catch((error: any) => {
+        if (/GitHub API error: 404/.test(error.message)) return null;
+        throw error;
+      });
+      if (current?.sha !== file.sha) {
+        throw new Error(`GitHub API error: 409 - ${file.path} does not match ${file.sha}`);
+      }
+    }
+
+    const tree = await githubRequest(`${base}/git/trees`, token, {
+      method: 'POST',
+      body: {
+        base_tree: headCommit.tree.sha,
+        tree: files.map(file => ({
+          path: file.path,
+          mode: '100644',
+          type: 'blob',
+          sha: blobShas[file.path],
+        })),
+      },
+    });
+
+    const newCommit = await githubRequest(`${base}/git/commits`, token, {
+      method: 'POST',
+      body: { message, tree: tree.sha, parents: [headSha], ...(commit.author && { author: commit.author }) },
+    });
+
+    try {
+      // Not forced: fails with 422 if someone else committed since the head was read
+      await githubRequest(`${base}/git/refs/heads/${branch}`, token, {
+        method: 'PATCH',
+        body: { sha: newCommit.sha, force: false },
+      });
+      return blobShas;
+    } catch (error: any) {
+      if (attempt >= 3 || !/GitHub API error: 422/.test(error.message)) {
+        throw error;
+      }
+    }
+  }
+}
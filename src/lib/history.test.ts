@@ -0,0 +1,57 @@
+import fs from 'fs';
+import os from 'os';
+import nodePath from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSqliteStorage } from '@/lib/storage/sqlite';
+import type { StorageAdapter, CommitInfo } from '@/lib/storage';
+import { runMigrations } from '@/lib/migrations';
+import { createRecord, updateRecord } from '@/lib/records';
+import { IntegrityError } from '@/lib/schema';
+import { getSnapshot, restoreSnapshot } from './history';
+
+const admin = { userId: 'admin', name: 'Admin' };
+
+describe('point-in-time restore', () => {
+  let root: string;
+  let storage: StorageAdapter;
+  // The last commit before any loan, with savings stored in rupees before the paisa migration
+  let before: CommitInfo;
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'history-'));
+    storage = createSqliteStorage({ file: nodePath.join(root, 'data.sqlite'), root });
+    await storage.write('data/meta.json', { schemaVersion: 3 });
+    await storage.write('data/members.json', [{ id: 'M1', name: 'Sita', phone: '9800000000', joinDate: '2024-01-01', isActive: true }]);
+    await storage.write('data/savings.json', [{ id: 'S1', memberId: 'M1', amount: 100.5, date: '2024-01-01' }]);
+    [before] = await storage.history('data', { limit: 1 });
+    await runMigrations(storage, admin);
+
+    await createRecord(
+      storage,
+      'loans',
+      { id: 'L1', memberId: 'M1', principal: 100000, interestRate: 12, startDate: '2024-01-01', termMonths: 12, status: 'applied' },
+      admin
+    );
+    await updateRecord(storage, 'loans', 'L1', { status: 'disbursed' }, admin, { loanWorkflow: true });
+    await createRecord(storage, 'payments', { id: 'P1', loanId: 'L1', memberId: 'M1', date: '2024-02-01', principalPaid: 10000, interestPaid: 0 }, admin);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('previews data from before a migration as migrated', async () => {
+    const { collections } = await getSnapshot(storage, before);
+    expect(collections.find(c => c.collection === 'savings')).toMatchObject({ count: 1, added: 0, removed: 0, changed: 0 });
+    expect(collections.find(c => c.collection === 'loans')).toMatchObject({ count: 0, removed: 1 });
+  });
+
+  it('refuses a partial restore that leaves records referring to missing ones', async () => {
+    await expect(restoreSnapshot(storage, before, ['loans'], admin)).rejects.toThrow(IntegrityError);
+    expect((await storage.read('data/loans.json'))?.data).toHaveLength(1);
+
+    await restoreSnapshot(storage, before, ['loans', 'payments'], admin);
+    expect((await storage.read('data/loans.json'))?.data).toEqual([]);
+    expect((await storage.read('data/savings.json'))?.data).toEqual([{ id: 'S1', memberId: 'M1', amount: 10050, date: '2024-01-01' }]);
+  });
+});
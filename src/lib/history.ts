@@ -0,0 +1,266 @@
+/**
+ * Audit history built from the storage commit log
+ * Each commit that touched data/*.json is turned into a list of record-level changes
+ * by diffing the JSON arrays before and after the commit.
+ * This should be called from backend API routes only.
+ */
+
+import type { StorageAdapter, CommitInfo, FileWrite } from '@/lib/storage';
+import { COLLECTIONS, type CollectionName } from '@/lib/records';
+import { commitDetails, type Actor } from '@/lib/audit';
+import { META_PATH, SCHEMA_VERSION, migrateData, type DataSet } from '@/lib/migrations';
+import { validateChanges } from '@/lib/schema';
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface RecordDiff {
+  id: string;
+  type: 'added' | 'removed' | 'changed';
+  /** The record after the change (before it, for removals) */
+  record: any;
+  /** Changed fields, for type 'changed' */
+  fields?: FieldChange[];
+}
+
+export interface FileDiff {
+  path: string;
+  /** Collection name, e.g. payments */
+  collection: string;
+  records: RecordDiff[];
+}
+
+export interface HistoryEntry extends CommitInfo {
+  files: FileDiff[];
+}
+
+type Keyed = { id: string; [key: string]: any };
+
+const DATA_FILE = /^data\/[^/]+\.json$/;
+
+// Files at a given commit never change, so they are cached for the life of the server process
+const snapshotCache = new Map<string, any>();
+const SNAPSHOT_CACHE_SIZE = 200;
+
+async function readSnapshot(storage: StorageAdapter, path: string, ref: string | undefined): Promise<any> {
+  if (!ref) return null;
+  const key = `${ref}:${path}`;
+  if (!snapshotCache.has(key)) {
+    const file = await storage.readAt(path, ref);
+    if (snapshotCache.size >= SNAPSHOT_CACHE_SIZE) {
+      snapshotCache.clear();
+    }
+    snapshotCache.set(key, file?.data ?? null);
+  }
+  return snapshotCache.get(key);
+}
+
+function asRecords(value: any): Keyed[] {
+  return Array.isArray(value) ? value.filter(r => r && typeof r === 'object' && typeof r.id === 'string') : [];
+}
+
+/**
+ * Compare two versions of a collection record by record
+ */
+export function diffRecords(before: any, after: any): RecordDiff[] {
+  const beforeList = asRecords(before);
+  const afterList = asRecords(after);
+  const beforeMap = new Map(beforeList.map(r => [r.id, r]));
+  const afterMap = new Map(afterList.map(r => [r.id, r]));
+  const diffs: RecordDiff[] = [];
+
+  afterList.forEach(record => {
+    const previous = beforeMap.get(record.id);
+    if (!previous) {
+      diffs.push({ id: record.id, type: 'added', record });
+      return;
+    }
+
+    const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(record)]));
+    const fields = keys
+      .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(record[key]))
+      .map(key => ({ field: key, from: previous[key], to: record[key] }));
+    if (fields.length > 0) {
+      diffs.push({ id: record.id, type: 'changed', record, fields });
+    }
+  });
+
+  beforeList.forEach(record => {
+    if (!afterMap.has(record.id)) {
+      diffs.push({ id: record.id, type: 'removed', record });
+    }
+  });
+
+  return diffs;
+}
+
+/**
+ * Whether a record change concerns the given member, loan or record ID
+ */
+function concerns(diff: RecordDiff, recordId: string): boolean {
+  const { record } = diff;
+  return diff.id === recordId || record.memberId === recordId || record.loanId === recordId;
+}
+
+/**
+ * List recent commits to the data files with the record changes each one made.
+ * With `recordId`, only changes to that record or to records belonging to it
+ * (e.g. a member's savings, a loan's payments) are kept, and commits without any are skipped.
+ */
+export async function getHistory(
+  storage: StorageAdapter,
+  options: { recordId?: string; limit?: number; page?: number } = {}
+): Promise<{ entries: HistoryEntry[]; hasMore: boolean }> {
+  const { recordId, limit = 20, page = 1 } = options;
+  const commits = await storage.history('data', { limit, page });
+  const entries: HistoryEntry[] = [];
+
+  for (const commit of commits) {
+    const paths = (await storage.commitFiles(commit.sha)).filter(p => DATA_FILE.test(p));
+    const files: FileDiff[] = [];
+
+    for (const path of paths) {
+      const [before, after] = await Promise.all([
+        readSnapshot(storage, path, commit.parent),
+        readSnapshot(storage, path, commit.sha),
+      ]);
+
+      let records = diffRecords(before, after);
+      if (recordId) {
+        records = records.filter(diff => concerns(diff, recordId));
+      }
+      if (records.length > 0) {
+        files.push({ path, collection: path.replace(/^data\//, '').replace(/\.json$/, ''), records });
+      }
+    }
+
+    if (!recordId || files.length > 0) {
+      entries.push({ ...commit, files });
+    }
+  }
+
+  // A full page means there may be older commits on the next one
+  return { entries, hasMore: commits.length === limit };
+}
+
+export interface CollectionSnapshot {
+  collection: CollectionName;
+  /** Records in the collection as of the snapshot */
+  count: number;
+  /** Records in the collection now */
+  currentCount: number;
+  /** Changes a restore would make to the current data */
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface Snapshot {
+  commit: CommitInfo;
+  collections: CollectionSnapshot[];
+}
+
+/**
+ * Find the last commit to the data files made at or before `at` (ISO date)
+ */
+export async function findCommitAt(storage: StorageAdapter, at: string): Promise<CommitInfo | null> {
+  const [commit] = await storage.history('data', { limit: 1, until: at });
+  return commit || null;
+}
+
+/**
+ * All collections as they were at a commit, migrated from the schema version they had then, so
+ * they can be compared with and written over the current data.
+ * Migrations may look at other collections (e.g. payments to set a loan's status), so all are read.
+ */
+async function readMigratedSnapshot(storage: StorageAdapter, commit: CommitInfo): Promise<DataSet> {
+  const names = Object.keys(COLLECTIONS) as CollectionName[];
+  const [meta, ...lists] = await Promise.all([
+    readSnapshot(storage, META_PATH, commit.sha),
+    ...names.map(name => readSnapshot(storage, COLLECTIONS[name], commit.sha)),
+  ]);
+  const then: Partial<DataSet> = {};
+  names.forEach((name, i) => {
+    then[name] = lists[i];
+  });
+  return migrateData(then, typeof meta?.schemaVersion === 'number' ? meta.schemaVersion : 0).data;
+}
+
+/**
+ * Preview the collections as they were at a commit, compared with the current data
+ */
+export async function getSnapshot(storage: StorageAdapter, commit: CommitInfo): Promise<Snapshot> {
+  const names = Object.keys(COLLECTIONS) as CollectionName[];
+  const then = await readMigratedSnapshot(storage, commit);
+
+  const collections = await Promise.all(
+    names.map(async collection => {
+      const now = await storage.read(COLLECTIONS[collection]);
+      // Diff from the current data to the snapshot, i.e. what restoring it would do
+      const diffs = diffRecords(now?.data ?? [], then[collection]);
+      return {
+        collection,
+        count: asRecords(then[collection]).length,
+        currentCount: asRecords(now?.data).length,
+        added: diffs.filter(d => d.type === 'added').length,
+        removed: diffs.filter(d => d.type === 'removed').length,
+        changed: diffs.filter(d => d.type === 'changed').length,
+      };
+    })
+  );
+
+  return { commit, collections };
+}
+
+/**
+ * Replace the selected collections with their contents at a commit, as one new commit.
+ * Later history is kept, so a restore can itself be undone.
+ * The data is migrated from the schema version it had then and validated against the collections
+ * that are not restored, so a partial restore cannot leave records referring to ones that no
+ * longer exist. Throws ValidationError or IntegrityError if it would, and StorageConflictError
+ * if the data changed while the restore was being checked.
+ */
+export async function restoreSnapshot(
+  storage: StorageAdapter,
+  commit: CommitInfo,
+  collections: CollectionName[],
+  actor: Actor
+): Promise<void> {
+  const names = Object.keys(COLLECTIONS) as CollectionName[];
+  const then = await readMigratedSnapshot(storage, commit);
+  const [meta, ...current] = await Promise.all([
+    storage.read(META_PATH),
+    ...names.map(name => storage.read<any[]>(COLLECTIONS[name])),
+  ]);
+
+  // The data after the restore: the selected collections as they were, the others as they are now
+  const now: Partial<DataSet> = {};
+  const after: Partial<DataSet> = {};
+  names.forEach((name, i) => {
+    now[name] = Array.isArray(current[i]?.data) ? current[i]!.data : [];
+    after[name] = collections.includes(name) ? then[name] : now[name];
+  });
+  for (const name of collections) {
+    // A snapshot holds loans at every step of their workflow
+    await validateChanges(storage, name, now[name]!, then[name], after, { loanWorkflow: true });
+  }
+
+  // Every collection is written with the sha it was checked against, the ones not restored
+  // unchanged, so a write made in the meantime fails the restore instead of being overwritten
+  const files: FileWrite[] = [];
+  names.forEach((name, i) => {
+    if (collections.includes(name) || current[i]) {
+      files.push({ path: COLLECTIONS[name], content: after[name], sha: current[i]?.sha });
+    }
+  });
+  files.push({ path: META_PATH, content: { schemaVersion: SCHEMA_VERSION }, sha: meta?.sha });
+
+  const when = commit.date.replace('T', ' ').slice(0, 16);
+  await storage.writeMany(
+    files,
+    commitDetails(`${collections.join(', ')}: restore to ${commit.sha.slice(0, 7)} (${when})`, actor)
+  );
+}
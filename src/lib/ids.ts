@@ -0,0 +1,106 @@
+/**
+ * Sequential IDs for transactions, issued on the server
+ * Savings, loans, payments, fines and expenditures are numbered per type and fiscal year,
+ * e.g. PAY-2082-000123. The last number issued is kept in data/counters.json, written in the
+ * same commit as the records that use it: when two admins add records at once the second write
+ * conflicts, and its retry takes the next number.
+ * This should be called from backend API routes only.
+ */
+
+import type { CollectionName, StoredRecord } from '@/lib/records';
+
+export const COUNTERS_PATH = 'data/counters.json';
+
+/** Last number issued, per collection and fiscal year */
+export type Counters = Partial<Record<CollectionName, Record<string, number>>>;
+
+const SEQUENCES: Partial<Record<CollectionName, { prefix: string; dateField: string }>> = {
+  savings: { prefix: 'SAV', dateField: 'date' },
+  loans: { prefix: 'LN', dateField: 'startDate' },
+  payments: { prefix: 'PAY', dateField: 'date' },
+  fines: { prefix: 'FIN', dateField: 'date' },
+  expenditures: { prefix: 'EXP', dateField: 'date' },
+};
+
+// The Nepali fiscal year starts on Shrawan 1 (July 16 or 17) and is named by its Bikram Sambat
+// year, which is 57 years ahead at that time of year. FISCAL_YEAR_OFFSET=0 uses Gregorian years.
+const FISCAL_YEAR_START = process.env.FISCAL_YEAR_START || '07-17';
+const FISCAL_YEAR_OFFSET = parseInt(process.env.FISCAL_YEAR_OFFSET || '57', 10);
+
+/**
+ * Whether new records of a collection get their ID from the server
+ */
+export function hasSequence(collection: CollectionName): boolean {
+  return !!SEQUENCES[collection];
+}
+
+/**
+ * The fiscal year a date (YYYY-MM-DD) falls in
+ */
+export function fiscalYear(date: string): number {
+  const year = parseInt(date.slice(0, 4), 10);
+  return (date.slice(5, 10) >= FISCAL_YEAR_START ? year : year - 1) + FISCAL_YEAR_OFFSET;
+}
+
+/**
+ * Read stored counters, ignoring anything that is not a number
+ */
+export function parseCounters(data: unknown): Counters {
+  const counters: Counters = {};
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return counters;
+
+  (Object.keys(SEQUENCES) as CollectionName[]).forEach(collection => {
+    const years = (data as Record<string, unknown>)[collection];
+    if (!years || typeof years !== 'object') return;
+    Object.entries(years as Record<string, unknown>).forEach(([year, last]) => {
+      if (typeof last === 'number' && Number.isInteger(last) && last > 0) {
+        counters[collection] = { ...counters[collection], [year]: last };
+      }
+    });
+  });
+  return counters;
+}
+
+/**
+ * Combine two sets of counters, keeping the higher number of each type and year,
+ * so restoring an older backup never issues a number a second time
+ */
+export function mergeCounters(a: unknown, b: unknown): Counters {
+  const merged = parseCounters(a);
+  const other = parseCounters(b);
+  (Object.keys(other) as CollectionName[]).forEach(collection => {
+    Object.entries(other[collection]!).forEach(([year, last]) => {
+      merged[collection] = { ...merged[collection], [year]: Math.max(merged[collection]?.[year] || 0, last) };
+    });
+  });
+  return merged;
+}
+
+/**
+ * Issue the ID of a new record, returning it with the updated counters.
+ * Numbers already used in `list` are skipped, so IDs stay unique even if the counters
+ * are missing or older than the data.
+ */
+export function allocateId(
+  collection: CollectionName,
+  record: Record<string, any>,
+  list: StoredRecord[],
+  counters: Counters
+): { id: string; counters: Counters } {
+  const { prefix, dateField } = SEQUENCES[collection]!;
+  const value = record[dateField];
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : new Date().toISOString().slice(0, 10);
+  const year = String(fiscalYear(date));
+
+  const pattern = new RegExp(`^${prefix}-${year}-(\\d+)$`);
+  const used = list.reduce((max, r) => {
+    const match = typeof r?.id === 'string' ? r.id.match(pattern) : null;
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  const next = Math.max(counters[collection]?.[year] || 0, used) + 1;
+  return {
+    id: `${prefix}-${year}-${String(next).padStart(6, '0')}`,
+    counters: { ...counters, [collection]: { ...counters[collection], [year]: next } },
+  };
+}
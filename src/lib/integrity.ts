@@ -0,0 +1,108 @@
+/**
+ * Integrity check of the stored data
+ * Writes are checked as they happen (see schema.ts), but data written before those checks, or
+ * changed straight in the repository, can still hold records that refer to missing or deleted
+ * records, duplicate IDs, or payments made by someone other than their loan's member.
+ * This should be called from backend API routes only.
+ */
+
+import type { StorageAdapter } from '@/lib/storage';
+import { COLLECTIONS, type CollectionName } from '@/lib/records';
+import { referenceFields } from '@/lib/schema';
+import { isDeleted } from '@/lib/utils';
+
+export interface IntegrityIssue {
+  /**
+   * orphan: refers to a record that does not exist;
+   * deleted-reference: refers to a record in the recycle bin;
+   * duplicate-id: the id is used by more than one record of the collection;
+   * member-mismatch: a payment's member is not its loan's member
+   */
+  type: 'orphan' | 'deleted-reference' | 'duplicate-id' | 'member-mismatch';
+  collection: CollectionName;
+  recordId: string;
+  message: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  /** Number of records checked per collection */
+  records: Record<CollectionName, number>;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Find the integrity issues in a full set of collections
+ */
+export function findIntegrityIssues(data: Record<CollectionName, any[]>): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const names = Object.keys(COLLECTIONS) as CollectionName[];
+  const records = (collection: CollectionName) => data[collection].filter(r => r && typeof r.id === 'string');
+
+  names.forEach(collection => {
+    const counts = new Map<string, number>();
+    records(collection).forEach(r => counts.set(r.id, (counts.get(r.id) || 0) + 1));
+    counts.forEach((count, recordId) => {
+      if (count > 1) {
+        issues.push({ type: 'duplicate-id', collection, recordId, message: `${recordId} is used by ${count} ${collection}` });
+      }
+    });
+  });
+
+  const byId = new Map<CollectionName, Map<string, any>>(
+    names.map(collection => [collection, new Map(records(collection).map(r => [r.id, r]))])
+  );
+
+  referenceFields().forEach(([collection, field, target]) => {
+    records(collection).forEach(record => {
+      if (typeof record[field] !== 'string') return;
+      const referenced = byId.get(target)!.get(record[field]);
+      if (!referenced) {
+        issues.push({
+          type: 'orphan',
+          collection,
+          recordId: record.id,
+          message: `${field} ${record[field]} does not exist in ${target}`,
+        });
+      } else if (isDeleted(referenced) && !isDeleted(record)) {
+        issues.push({
+          type: 'deleted-reference',
+          collection,
+          recordId: record.id,
+          message: `${field} ${record[field]} is in the recycle bin`,
+        });
+      }
+    });
+  });
+
+  records('payments').forEach(payment => {
+    const loan = byId.get('loans')!.get(payment.loanId);
+    if (loan && loan.memberId !== payment.memberId) {
+      issues.push({
+        type: 'member-mismatch',
+        collection: 'payments',
+        recordId: payment.id,
+        message: `Paid by ${payment.memberId}, but loan ${loan.id} belongs to ${loan.memberId}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Read every collection and check it
+ */
+export async function checkIntegrity(storage: StorageAdapter): Promise<IntegrityReport> {
+  const names = Object.keys(COLLECTIONS) as CollectionName[];
+  const files = await Promise.all(names.map(name => storage.read<any[]>(COLLECTIONS[name])));
+
+  const data = {} as Record<CollectionName, any[]>;
+  const records = {} as Record<CollectionName, number>;
+  names.forEach((name, i) => {
+    data[name] = Array.isArray(files[i]?.data) ? files[i]!.data : [];
+    records[name] = data[name].length;
+  });
+
+  return { checkedAt: new Date().toISOString(), records, issues: findIntegrityIssues(data) };
+}
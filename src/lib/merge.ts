@@ -0,0 +1,83 @@
+/**
+ * Three-way merge of JSON data files
+ * Used by the API client when a write is rejected because someone else saved the file first.
+ * Collections are merged record by record (matched on `id`); the merge only succeeds
+ * when the two sides changed different records.
+ */
+
+type Keyed = { id: string; [key: string]: any };
+
+/**
+ * Deep equality for plain JSON values
+ */
+export function jsonEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+
+  const keysA = Object.keys(a).filter(k => a[k] !== undefined);
+  const keysB = Object.keys(b).filter(k => b[k] !== undefined);
+  return keysA.length === keysB.length && keysA.every(k => jsonEqual(a[k], b[k]));
+}
+
+function isRecordList(value: any): value is Keyed[] {
+  return Array.isArray(value) && value.every(r => r && typeof r === 'object' && typeof r.id === 'string');
+}
+
+/**
+ * IDs of records that differ between two versions of a collection
+ * (added, changed or removed)
+ */
+export function changedRecordIds(before: Keyed[], after: Keyed[]): string[] {
+  const beforeMap = new Map(before.map(r => [r.id, r]));
+  const afterMap = new Map(after.map(r => [r.id, r]));
+  const ids = new Set([...Array.from(beforeMap.keys()), ...Array.from(afterMap.keys())]);
+  return Array.from(ids).filter(id => !jsonEqual(beforeMap.get(id), afterMap.get(id)));
+}
+
+/**
+ * Merge my changes (base -> mine) with the server's changes (base -> theirs).
+ * Returns the merged content, or null if both sides changed the same thing differently.
+ */
+export function threeWayMerge(base: any, mine: any, theirs: any): any | null {
+  if (jsonEqual(mine, theirs) || jsonEqual(base, theirs)) return mine;
+  if (jsonEqual(base, mine)) return theirs;
+
+  if (!isRecordList(base) || !isRecordList(mine) || !isRecordList(theirs)) {
+    return null;
+  }
+
+  const baseMap = new Map(base.map(r => [r.id, r]));
+  const mineMap = new Map(mine.map(r => [r.id, r]));
+  const theirsMap = new Map(theirs.map(r => [r.id, r]));
+
+  const mineChanged = new Set(changedRecordIds(base, mine));
+  const theirsChanged = new Set(changedRecordIds(base, theirs));
+
+  for (const id of Array.from(mineChanged)) {
+    if (theirsChanged.has(id) && !jsonEqual(mineMap.get(id), theirsMap.get(id))) {
+      return null;
+    }
+  }
+
+  // Start from the server's order, apply my edits and deletions, then append my new records
+  const merged: Keyed[] = [];
+  theirs.forEach(record => {
+    if (!mineChanged.has(record.id)) {
+      merged.push(record);
+    } else if (mineMap.has(record.id)) {
+      merged.push(mineMap.get(record.id)!);
+    }
+  });
+  mine.forEach(record => {
+    if (mineChanged.has(record.id) && !theirsMap.has(record.id) && !baseMap.has(record.id)) {
+      merged.push(record);
+    }
+  });
+
+  return merged;
+}
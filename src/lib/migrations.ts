@@ -0,0 +1,221 @@
+/**
+ * Versioned data migrations
+ * data/meta.json records the `schemaVersion` the stored data is at. Each migration upgrades
+ * the collections from the previous version to its own; they run in order, once, when the
+ * server first touches the data (or from Settings, where a dry run reports what would change).
+ * Backups carry the version they were made at and are upgraded when restored.
+ * This should be called from backend API routes only.
+ */
+
+import type { StorageAdapter, FileWrite } from '@/lib/storage';
+import { COLLECTIONS, RecordError, type CollectionName } from '@/lib/records';
+import { commitDetails, type Actor } from '@/lib/audit';
+import { normalizeCollection } from '@/lib/schema';
+import { changedRecordIds } from '@/lib/merge';
+import { toPaisa } from '@/lib/money';
+
+export const META_PATH = 'data/meta.json';
+
+export type DataSet = Record<CollectionName, any[]>;
+
+/**
+ * Convert the given rupee fields of each record to integer paisa
+ */
+function amountsToPaisa(list: any[], fields: string[]): any[] {
+  return list.map(record => {
+    if (!record || typeof record !== 'object') return record;
+    const converted = { ...record };
+    fields.forEach(field => {
+      if (typeof converted[field] === 'number') converted[field] = toPaisa(converted[field]);
+    });
+    return converted;
+  });
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  /** Return the collections this migration changes; the others are kept as they are */
+  up: (data: DataSet) => Partial<DataSet>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Members: replace the legacy `active` flag with `isActive`',
+    up: data => ({ members: normalizeCollection('members', data.members) }),
+  },
+  {
+    version: 2,
+    description: 'Loans: set a missing `status` (closed when the principal is repaid, otherwise active)',
+    up: data => ({
+      loans: data.loans.map(loan => {
+        if (!loan || typeof loan !== 'object' || loan.status) return loan;
+        const repaid = data.payments
+          .filter(p => p && p.loanId === loan.id)
+          .reduce((sum, p) => sum + (Number(p.principalPaid) || 0), 0);
+        return { ...loan, status: repaid >= loan.principal ? 'closed' : 'active' };
+      }),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Savings: remove the stored `balance`, which is computed from the savings list',
+    up: data => ({
+      savings: data.savings.map(saving => {
+        if (!saving || typeof saving !== 'object' || !('balance' in saving)) return saving;
+        const { balance, ...rest } = saving;
+        return rest;
+      }),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Amounts: store rupee amounts as integer paisa',
+    up: data => ({
+      savings: amountsToPaisa(data.savings, ['amount']),
+      loans: amountsToPaisa(data.loans, ['principal']),
+      payments: amountsToPaisa(data.payments, ['principalPaid', 'interestPaid']),
+      fines: amountsToPaisa(data.fines, ['amount']),
+      expenditures: amountsToPaisa(data.expenditures, ['amount']),
+    }),
+  },
+];
+
+/** The version data is at once every migration has run */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  /** Number of records changed in each collection */
+  changed: Partial<Record<CollectionName, number>>;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  steps: MigrationStep[];
+}
+
+function asList(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * The migrations that have not run yet on data at `fromVersion`
+ */
+export function pendingMigrations(fromVersion: number): Array<{ version: number; description: string }> {
+  return MIGRATIONS.filter(m => m.version > fromVersion).map(({ version, description }) => ({ version, description }));
+}
+
+/**
+ * Upgrade a set of collections from `fromVersion` to SCHEMA_VERSION in memory
+ */
+export function migrateData(data: Partial<DataSet>, fromVersion: number): { data: DataSet; steps: MigrationStep[] } {
+  let current = {} as DataSet;
+  NAMES.forEach(name => {
+    current[name] = asList(data[name]);
+  });
+
+  const steps: MigrationStep[] = [];
+  MIGRATIONS.filter(m => m.version > fromVersion).forEach(migration => {
+    const changes = migration.up(current);
+    const changed: MigrationStep['changed'] = {};
+    (Object.keys(changes) as CollectionName[]).forEach(name => {
+      const count = changedRecordIds(asList(current[name]), asList(changes[name])).length;
+      if (count > 0) changed[name] = count;
+    });
+    current = { ...current, ...changes };
+    steps.push({ version: migration.version, description: migration.description, changed });
+  });
+
+  return { data: current, steps };
+}
+
+/**
+ * The schema version of the stored data (0 for data from before versioning)
+ */
+export async function readSchemaVersion(storage: StorageAdapter): Promise<number> {
+  const meta = await storage.read<{ schemaVersion?: number }>(META_PATH);
+  return typeof meta?.data?.schemaVersion === 'number' ? meta.data.schemaVersion : 0;
+}
+
+/**
+ * Run the pending migrations on the stored data, writing the changed collections and the
+ * new version in one commit. With `dryRun` nothing is written and the report shows what would change.
+ */
+export async function runMigrations(
+  storage: StorageAdapter,
+  actor: Actor,
+  options: { dryRun?: boolean } = {}
+): Promise<MigrationReport> {
+  const dryRun = !!options.dryRun;
+  const fromVersion = await readSchemaVersion(storage);
+
+  if (fromVersion >= SCHEMA_VERSION) {
+    return { fromVersion, toVersion: fromVersion, dryRun, steps: [] };
+  }
+
+  const files = await Promise.all(NAMES.map(name => storage.read<any[]>(COLLECTIONS[name])));
+  const stored = {} as DataSet;
+  NAMES.forEach((name, i) => {
+    stored[name] = asList(files[i]?.data);
+  });
+
+  const { data, steps } = migrateData(stored, fromVersion);
+
+  if (!dryRun) {
+    // Only collections a migration changed are rewritten, each checked against the version read
+    const writes: FileWrite[] = NAMES.filter(name => steps.some(step => step.changed[name])).map(name => ({
+      path: COLLECTIONS[name],
+      content: data[name],
+      sha: files[NAMES.indexOf(name)]?.sha,
+    }));
+    writes.push({ path: META_PATH, content: { schemaVersion: SCHEMA_VERSION } });
+    await storage.writeMany(
+      writes,
+      commitDetails(`migrate data from schema version ${fromVersion} to ${SCHEMA_VERSION}`, actor)
+    );
+  }
+
+  return { fromVersion, toVersion: SCHEMA_VERSION, dryRun, steps };
+}
+
+const SYSTEM_ACTOR: Actor = { userId: 'system', name: 'System' };
+
+let startupMigration: Promise<void> | null = null;
+
+/**
+ * Run the pending migrations once per server process, before the first request that uses the data.
+ * If they fail, the request fails with a 503 and the next request tries again, so nothing reads or
+ * writes the data while it is still in an older shape (new records in paisa next to old ones in
+ * rupees, say). They can also be run from Settings.
+ */
+export function ensureMigrated(storage: StorageAdapter): Promise<void> {
+  if (!startupMigration) {
+    startupMigration = runMigrations(storage, SYSTEM_ACTOR).then(
+      () => undefined,
+      error => {
+        startupMigration = null;
+        console.error('Data migration failed:', error);
+        throw new RecordError(
+          `The data could not be migrated to schema version ${SCHEMA_VERSION}: ${error.message}. ` +
+            'Run the migrations from Settings.',
+          503
+        );
+      }
+    );
+  }
+  return startupMigration;
+}
+
+/**
+ * Check the stored version again on the next request, e.g. after data was imported from elsewhere
+ */
+export function resetMigrationCheck(): void {
+  startupMigration = null;
+}
@@ -0,0 +1,89 @@
+/**
+ * Money as integer paisa (1 rupee = 100 paisa)
+ * Every stored amount - savings, loan principals, payments, fines and expenditures - is a whole
+ * number of paisa, so sums and balances are exact. Rupee values typed into forms are converted
+ * with toPaisa, and amounts computed from a rate are rounded to the paisa by a fixed rule:
+ * - interest: to the nearest paisa, halves rounded up (INTEREST_ROUNDING)
+ * - fines: down, so a member is never charged more than the rate gives (FINE_ROUNDING)
+ */
+
+/** An amount in paisa, always a whole number */
+export type Paisa = number;
+
+/** half-up rounds halves away from zero; down and up round towards and away from zero */
+export type Rounding = 'half-up' | 'down' | 'up';
+
+export const INTEREST_ROUNDING: Rounding = 'half-up';
+export const FINE_ROUNDING: Rounding = 'down';
+
+/**
+ * Round a computed number of paisa to a whole one
+ */
+export function roundPaisa(value: number, rounding: Rounding): Paisa {
+  // Drop floating point noise first, so 1000.4999999999 (from 10.005 * 100) counts as a half
+  const clean = Number(value.toPrecision(12));
+  const sign = clean < 0 ? -1 : 1;
+  const size = Math.abs(clean);
+  switch (rounding) {
+    case 'half-up':
+      return sign * Math.round(size);
+    case 'down':
+      return sign * Math.floor(size);
+    case 'up':
+      return sign * Math.ceil(size);
+  }
+}
+
+/**
+ * Convert rupees (a number, or text from a form input) to paisa; NaN if it is not a number
+ */
+export function toPaisa(rupees: number | string): Paisa {
+  const value = typeof rupees === 'string' ? (rupees.trim() ? Number(rupees.trim()) : NaN) : rupees;
+  return isFinite(value) ? roundPaisa(value * 100, 'half-up') : NaN;
+}
+
+/**
+ * Convert paisa to rupees, e.g. for chart axes
+ */
+export function toRupees(amount: Paisa): number {
+  return amount / 100;
+}
+
+/**
+ * Rupees with thousand separators, and paisa only when there are any: "1,250" or "1,250.50".
+ * With `fixed` the paisa are always shown ("1,250.00"), e.g. so the columns of a report line up.
+ */
+export function formatRupees(amount: Paisa, options: { fixed?: boolean } = {}): string {
+  return new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: options.fixed || amount % 100 !== 0 ? 2 : 0,
+    maximumFractionDigits: 2,
+  }).format(amount / 100);
+}
+
+/**
+ * The value to put in a form input for an amount: "1250" or "1250.50"
+ */
+export function toInputValue(amount: Paisa): string {
+  return amount % 100 === 0 ? String(amount / 100) : (amount / 100).toFixed(2);
+}
+
+/**
+ * Add up amounts
+ */
+export function sumPaisa(amounts: Paisa[]): Paisa {
+  return amounts.reduce((sum, amount) => sum + amount, 0);
+}
+
+/**
+ * Interest on a principal for a number of months at an annual rate in percent
+ */
+export function interestFor(principal: Paisa, annualRate: number, months = 1): Paisa {
+  return roundPaisa((principal * annualRate * months) / 1200, INTEREST_ROUNDING);
+}
+
+/**
+ * A fine of `percent` of an amount
+ */
+export function fineFor(amount: Paisa, percent: number): Paisa {
+  return roundPaisa((amount * percent) / 100, FINE_ROUNDING);
+}
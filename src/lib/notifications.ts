@@ -0,0 +1,199 @@
+/**
+ * WhatsApp notifications for data updates
+ * This should be called from backend API routes only
+ */
+
+import { getStorage } from '@/lib/storage';
+import { isDeleted } from '@/lib/utils';
+import {
+  sendLoanNotification,
+  sendPaymentNotification,
+  sendSavingsNotification,
+  sendFineNotification,
+  sendExpenditureNotification
+} from '@/lib/whatsapp';
+
+/**
+ * Read members from storage to find phone numbers
+ */
+async function readMembers(): Promise<any[]> {
+  const result = await getStorage().read<any[]>('data/members.json');
+  return result?.data || [];
+}
+
+/**
+ * Total savings of a member, for the balance in savings notifications
+ */
+async function readSavingsBalance(memberId: string): Promise<number> {
+  const result = await getStorage().read<any[]>('data/savings.json');
+  return (result?.data || [])
+    .filter(s => s.memberId === memberId && !isDeleted(s))
+    .reduce((sum, s) => sum + (Number(s.amount) || 0), 0);
+}
+
+/**
+ * Trigger WhatsApp notifications based on the data being updated
+ */
+export async function triggerWhatsAppNotifications(path: string, content: any): Promise<void> {
+  // Only process JSON files
+  if (!path.endsWith('.json')) return;
+
+  try {
+    const fileName = path.split('/').pop()?.replace('.json', '');
+
+    switch (fileName) {
+      case 'loans':
+        await handleLoanNotifications(content);
+        break;
+      case 'payments':
+        await handlePaymentNotifications(content);
+        break;
+      case 'savings':
+        await handleSavingsNotifications(content);
+        break;
+      case 'fines':
+        await handleFineNotifications(content);
+        break;
+      case 'expenditures':
+        await handleExpenditureNotifications(content);
+        break;
+    }
+  } catch (error: any) {
+    console.error('Error triggering WhatsApp notifications:', error);
+    throw error;
+  }
+}
+
+/**
+ * Handle loan notifications: new applications, and the steps of the workflow sent on by
+ * /api/loans/{id}/status (statuses without a message are skipped)
+ */
+async function handleLoanNotifications(loans: any[]): Promise<void> {
+  if (!Array.isArray(loans)) return;
+
+  try {
+    const members = await readMembers();
+
+    for (const loan of loans) {
+      const member = members.find(m => m.id === loan.memberId);
+      if (member && member.phone) {
+        await sendLoanNotification(member.phone, member.name, {
+          id: loan.id,
+          principal: loan.principal,
+          interestRate: loan.interestRate,
+          termMonths: loan.termMonths,
+          startDate: loan.startDate,
+          status: loan.status,
+          comment: loan.history?.[loan.history.length - 1]?.comment,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error sending loan notifications:', error);
+  }
+}
+
+/**
+ * Handle payment notifications
+ */
+async function handlePaymentNotifications(payments: any[]): Promise<void> {
+  if (!Array.isArray(payments)) return;
+
+  try {
+    const members = await readMembers();
+
+    for (const payment of payments) {
+      const member = members.find(m => m.id === payment.memberId);
+      if (member && member.phone) {
+        await sendPaymentNotification(member.phone, member.name, {
+          id: payment.id,
+          loanId: payment.loanId,
+          date: payment.date,
+          principalPaid: payment.principalPaid || 0,
+          interestPaid: payment.interestPaid || 0,
+          remarks: payment.remarks,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error sending payment notifications:', error);
+  }
+}
+
+/**
+ * Handle savings notifications
+ */
+async function handleSavingsNotifications(savings: any[]): Promise<void> {
+  if (!Array.isArray(savings)) return;
+
+  try {
+    const members = await readMembers();
+
+    for (const saving of savings) {
+      const member = members.find(m => m.id === saving.memberId);
+      if (member && member.phone) {
+        await sendSavingsNotification(member.phone, member.name, {
+          id: saving.id,
+          date: saving.date,
+          amount: saving.amount,
+          balance: await readSavingsBalance(saving.memberId),
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error sending savings notifications:', error);
+  }
+}
+
+/**
+ * Handle fine notifications
+ */
+async function handleFineNotifications(fines: any[]): Promise<void> {
+  if (!Array.isArray(fines)) return;
+
+  try {
+    const members = await readMembers();
+
+    for (const fine of fines) {
+      const member = members.find(m => m.id === fine.memberId);
+      if (member && member.phone) {
+        await sendFineNotification(member.phone, member.name, {
+          id: fine.id,
+          date: fine.date,
+          amount: fine.amount,
+          reason: fine.reason,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error sending fine notifications:', error);
+  }
+}
+
+/**
+ * Handle expenditure notifications (notify all active members)
+ */
+async function handleExpenditureNotifications(expenditures: any[]): Promise<void> {
+  if (!Array.isArray(expenditures)) return;
+
+  try {
+    const members = await readMembers();
+    // Members without isActive (older records) are active; the legacy `active` flag is migrated away
+    const activeMembers = members.filter(m => m.isActive !== false && !isDeleted(m) && m.phone);
+
+    for (const expenditure of expenditures) {
+      // Send notification to all active members
+      for (const member of activeMembers) {
+        await sendExpenditureNotification(member.phone, member.name, {
+          id: expenditure.id,
+          date: expenditure.date,
+          amount: expenditure.amount,
+          description: expenditure.description,
+          category: expenditure.category,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error sending expenditure notifications:', error);
+  }
+}
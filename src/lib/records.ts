@@ -0,0 +1,378 @@
+/**
+ * Record-level operations on the JSON collections
+ * Each change is applied to the latest stored file on the server, so two admins
+ * editing different records at the same time never overwrite each other.
+ * This should be called from backend API routes only.
+ */
+
+import { StorageConflictError, type StorageAdapter, type FileWrite } from '@/lib/storage';
+import { summarizeChange, commitDetails, type Actor } from '@/lib/audit';
+import {
+  normalizeRecord,
+  normalizeCollection,
+  validateChanges,
+  findDependents,
+  type RelatedData,
+  type ValidationOptions,
+} from '@/lib/schema';
+import { isDeleted } from '@/lib/utils';
+import { COUNTERS_PATH, hasSequence, allocateId, parseCounters, type Counters } from '@/lib/ids';
+
+export const COLLECTIONS = {
+  members: 'data/members.json',
+  savings: 'data/savings.json',
+  loans: 'data/loans.json',
+  payments: 'data/payments.json',
+  fines: 'data/fines.json',
+  expenditures: 'data/expenditures.json',
+} as const;
+
+export type CollectionName = keyof typeof COLLECTIONS;
+
+export interface StoredRecord {
+  id: string;
+  [key: string]: any;
+}
+
+/**
+ * A record to add. Savings, loans, payments, fines and expenditures without an id get the next
+ * sequential one (see ids.ts).
+ */
+export interface NewRecord {
+  id?: string;
+  [key: string]: any;
+}
+
+/**
+ * Error carrying the HTTP status the API route should respond with
+ */
+export class RecordError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RecordError';
+    this.status = status;
+  }
+}
+
+const MAX_ATTEMPTS = 3;
+
+export function isCollection(name: string): name is CollectionName {
+  return Object.prototype.hasOwnProperty.call(COLLECTIONS, name);
+}
+
+/**
+ * Read the latest version of a collection, apply a change and write it back.
+ * If someone else wrote the file in between, the change is re-applied to their version.
+ */
+async function modifyCollection<R>(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  actor: Actor,
+  change: (list: StoredRecord[]) => { list: StoredRecord[]; result: R },
+  options: ValidationOptions = {}
+): Promise<R> {
+  const path = COLLECTIONS[collection];
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await storage.read<StoredRecord[]>(path);
+    const list = Array.isArray(current?.data) ? current!.data : [];
+    const { list: changed, result } = change(list);
+    const updated: StoredRecord[] = normalizeCollection(collection, changed);
+    await validateChanges(storage, collection, list, updated, {}, options);
+
+    try {
+      await storage.write(path, updated, current?.sha, commitDetails(summarizeChange(path, list, updated), actor));
+      return result;
+    } catch (error: any) {
+      if (attempt >= MAX_ATTEMPTS || !(error instanceof StorageConflictError)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Changes computed from the latest stored version of a record, on every attempt of a write
+ */
+export type RecordUpdate = (record: StoredRecord) => Record<string, any>;
+
+/**
+ * `update` merges changes into a record, given as they are or as a RecordUpdate.
+ * `delete` moves a record to the recycle bin (it is kept, marked with deletedAt/deletedBy);
+ * `restore` takes it out again and `purge` removes a deleted record for good.
+ * Neither delete nor purge may leave records referring to the record; with `cascade` those
+ * records are deleted (or purged) along with it.
+ */
+export type RecordChange =
+  | { action: 'create'; collection: CollectionName; record: NewRecord }
+  | { action: 'update'; collection: CollectionName; id: string; changes: Record<string, any> | RecordUpdate }
+  | { action: 'delete'; collection: CollectionName; id: string; cascade?: boolean }
+  | { action: 'restore'; collection: CollectionName; id: string }
+  | { action: 'purge'; collection: CollectionName; id: string; cascade?: boolean };
+
+/**
+ * Apply one change to a collection in memory. Outside the loan workflow routes, new loans are
+ * applications whatever status they were sent with.
+ */
+function applyChange(
+  list: StoredRecord[],
+  change: RecordChange,
+  actor: Actor,
+  options: ValidationOptions = {}
+): { list: StoredRecord[]; result: StoredRecord } {
+  const { collection } = change;
+
+  if (change.action === 'create') {
+    const { deletedAt, deletedBy, ...fields } = change.record;
+    if (collection === 'loans' && !options.loanWorkflow) {
+      fields.status = 'applied';
+      fields.history = [{ status: 'applied', at: new Date().toISOString(), by: actor.userId }];
+    }
+    const record = normalizeRecord(collection, fields);
+    const existing = list.find(r => r.id === record.id);
+    if (existing) {
+      const where = isDeleted(existing) ? ' (in the recycle bin)' : '';
+      throw new RecordError(`Record ${record.id} already exists in ${collection}${where}`, 409);
+    }
+    return { list: [...list, record], result: record };
+  }
+
+  const { id } = change;
+  const index = list.findIndex(r => r.id === id);
+  if (index === -1) {
+    throw new RecordError(`Record ${id} not found in ${collection}`, 404);
+  }
+
+  const record = list[index];
+  const replace = (updated: StoredRecord) => ({
+    list: list.map((r, i) => (i === index ? updated : r)),
+    result: updated,
+  });
+
+  if (change.action === 'purge') {
+    if (!isDeleted(record)) {
+      throw new RecordError(`Record ${id} is not in the recycle bin; delete it first`, 409);
+    }
+    return { list: list.filter((_, i) => i !== index), result: record };
+  }
+
+  if (change.action === 'restore') {
+    if (!isDeleted(record)) {
+      throw new RecordError(`Record ${id} is not in the recycle bin`, 409);
+    }
+    const { deletedAt, deletedBy, ...restored } = record;
+    return replace(restored as StoredRecord);
+  }
+
+  if (isDeleted(record)) {
+    throw new RecordError(`Record ${id} is in the recycle bin; restore it first`, 409);
+  }
+
+  if (change.action === 'delete') {
+    return replace({ ...record, deletedAt: new Date().toISOString(), deletedBy: actor.userId });
+  }
+
+  // The recycle bin fields are only changed through delete and restore
+  const requested = typeof change.changes === 'function' ? change.changes(record) : change.changes;
+  const { deletedAt, deletedBy, ...changes } = requested;
+  const merged: StoredRecord = normalizeRecord(collection, { ...record, ...changes, id });
+  Object.keys(merged).forEach(key => {
+    if (merged[key] === null) delete merged[key];
+  });
+
+  return replace(merged);
+}
+
+/**
+ * Add a new record. Fails if a record with the same id already exists.
+ * Without an id, records of sequenced collections get the next one.
+ */
+export async function createRecord(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  record: NewRecord,
+  actor: Actor,
+  options: ValidationOptions = {}
+): Promise<StoredRecord> {
+  if (!record.id && hasSequence(collection)) {
+    const [created] = await applyRecordChanges(storage, [{ action: 'create', collection, record }], actor, options);
+    return created;
+  }
+  return modifyCollection(
+    storage,
+    collection,
+    actor,
+    list => applyChange(list, { action: 'create', collection, record }, actor, options),
+    options
+  );
+}
+
+/**
+ * Merge changes into an existing record. A null value removes the field.
+ * Changes given as a function get the latest stored record, and may throw to refuse it.
+ */
+export function updateRecord(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  id: string,
+  changes: Record<string, any> | RecordUpdate,
+  actor: Actor,
+  options: ValidationOptions = {}
+): Promise<StoredRecord> {
+  return modifyCollection(
+    storage,
+    collection,
+    actor,
+    list => applyChange(list, { action: 'update', collection, id, changes }, actor, options),
+    options
+  );
+}
+
+/**
+ * Move a record to the recycle bin; with `cascade`, together with the records referring to it
+ */
+export async function deleteRecord(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  id: string,
+  actor: Actor,
+  cascade = false
+): Promise<StoredRecord> {
+  if (cascade) {
+    const [result] = await applyRecordChanges(storage, [{ action: 'delete', collection, id, cascade }], actor);
+    return result;
+  }
+  return modifyCollection(storage, collection, actor, list =>
+    applyChange(list, { action: 'delete', collection, id }, actor)
+  );
+}
+
+/**
+ * Add the changes cascading deletes and purges imply: deleting a record also deletes the
+ * records referring to it (a member's savings, loans, payments and fines, and a loan's payments),
+ * and purging it also purges those that are in the recycle bin. The given changes come first.
+ */
+async function expandCascades(
+  storage: StorageAdapter,
+  changes: RecordChange[],
+  related: RelatedData
+): Promise<RecordChange[]> {
+  const key = (collection: CollectionName, id: string) => `${collection}:${id}`;
+  const seen = new Set(changes.flatMap(c => (c.action === 'create' ? [] : [key(c.collection, c.id)])));
+  const queue = [...changes];
+  const expanded: RecordChange[] = [];
+
+  while (queue.length > 0) {
+    const change = queue.shift()!;
+    expanded.push(change);
+    if ((change.action !== 'delete' && change.action !== 'purge') || !change.cascade) continue;
+
+    const purge = change.action === 'purge';
+    const dependents = await findDependents(storage, change.collection, change.id, related, true);
+    for (const collection of Object.keys(dependents) as CollectionName[]) {
+      for (const record of dependents[collection]!) {
+        // Deleting skips records already in the recycle bin; purging only takes those
+        if (isDeleted(record) !== purge || seen.has(key(collection, record.id))) continue;
+        seen.add(key(collection, record.id));
+        queue.push({ action: change.action, collection, id: record.id, cascade: true });
+      }
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Works out the changes to make from every collection as stored, on each attempt of a write
+ */
+export type RecordPlan = (lists: Record<CollectionName, StoredRecord[]>) => RecordChange[];
+
+export interface WriteOptions extends ValidationOptions {
+  /**
+   * Collections the changes depend on without changing. They are written back as they were read,
+   * so that a concurrent write to one of them makes this write conflict and start over.
+   */
+  reads?: CollectionName[];
+}
+
+/**
+ * Apply several changes, possibly across collections, as one atomic write.
+ * If any change fails nothing is saved. Returns the resulting record of each change, in order.
+ * Changes that depend on what is stored are given as a plan, worked out again on every attempt.
+ */
+export async function applyRecordChanges(
+  storage: StorageAdapter,
+  changes: RecordChange[] | RecordPlan,
+  actor: Actor,
+  options: WriteOptions = {}
+): Promise<StoredRecord[]> {
+  // A cascade can reach any collection that refers to the deleted record
+  const cascades = (list: RecordChange[]) => list.some(c => (c.action === 'delete' || c.action === 'purge') && c.cascade);
+  const reads = options.reads || [];
+  const loaded = typeof changes === 'function' || cascades(changes)
+    ? (Object.keys(COLLECTIONS) as CollectionName[])
+    : Array.from(new Set([...changes.map(c => c.collection), ...reads]));
+
+  for (let attempt = 1; ; attempt++) {
+    const files = await Promise.all(loaded.map(c => storage.read<StoredRecord[]>(COLLECTIONS[c])));
+    const lists = new Map<CollectionName, StoredRecord[]>();
+    loaded.forEach((c, i) => {
+      lists.set(c, Array.isArray(files[i]?.data) ? files[i]!.data : []);
+    });
+    const requested = typeof changes === 'function'
+      ? changes(Object.fromEntries(Array.from(lists.entries())) as Record<CollectionName, StoredRecord[]>)
+      : changes;
+
+    // New records without an id are numbered from the counters, which are written with them
+    const allocates = requested.some(c => c.action === 'create' && !c.record.id && hasSequence(c.collection));
+    const countersFile = allocates ? await storage.read<Counters>(COUNTERS_PATH) : null;
+    let counters = parseCounters(countersFile?.data);
+
+    const expanded = cascades(requested)
+      ? await expandCascades(storage, requested, Object.fromEntries(Array.from(lists.entries())))
+      : requested;
+    const results = expanded.map(given => {
+      let change = given;
+      if (change.action === 'create' && !change.record.id && hasSequence(change.collection)) {
+        const allocated = allocateId(change.collection, change.record, lists.get(change.collection)!, counters);
+        counters = allocated.counters;
+        change = { ...change, record: { ...change.record, id: allocated.id } };
+      }
+      const { list, result } = applyChange(lists.get(change.collection)!, change, actor, options);
+      lists.set(change.collection, list);
+      return result;
+    });
+
+    // Only the collections the changes touch are validated and written
+    const collections = loaded.filter(c => expanded.some(change => change.collection === c));
+    const before = (c: CollectionName) => {
+      const file = files[loaded.indexOf(c)];
+      return Array.isArray(file?.data) ? file!.data : [];
+    };
+
+    // Validate against the other collections as they will be after this batch
+    collections.forEach(c => lists.set(c, normalizeCollection(c, lists.get(c))));
+    const related = Object.fromEntries(Array.from(lists.entries()));
+    for (const c of collections) {
+      await validateChanges(storage, c, before(c), lists.get(c), related, options);
+    }
+
+    try {
+      const summaries = collections.map(c => summarizeChange(COLLECTIONS[c], before(c), lists.get(c)));
+      const writes: FileWrite[] = collections.map(c => ({ path: COLLECTIONS[c], content: lists.get(c), sha: files[loaded.indexOf(c)]?.sha }));
+      if (allocates) {
+        writes.push({ path: COUNTERS_PATH, content: counters, sha: countersFile?.sha });
+      }
+      reads
+        .filter(c => !collections.includes(c) && Array.isArray(files[loaded.indexOf(c)]?.data))
+        .forEach(c => writes.push({ path: COLLECTIONS[c], content: before(c), sha: files[loaded.indexOf(c)]!.sha }));
+      await storage.writeMany(writes, commitDetails(summaries, actor));
+      return results.slice(0, requested.length);
+    } catch (error: any) {
+      if (attempt >= MAX_ATTEMPTS || !(error instanceof StorageConflictError)) {
+        throw error;
+      }
+    }
+  }
+}
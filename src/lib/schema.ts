@@ -0,0 +1,767 @@
+/**
+ * Runtime schemas for the data collections
+ * Each schema lists every field of the matching interface in types/index.ts (the compiler checks
+ * that none is missing or extra), so stored data keeps the shape the pages expect.
+ * Writes are validated on the server before they reach storage.
+ * This should be called from backend API routes only.
+ */
+
+import type { Member, Saving, Loan, Payment, FinePayment, Expenditure } from '@/types';
+import type { StorageAdapter } from '@/lib/storage';
+import { COLLECTIONS, type CollectionName } from '@/lib/records';
+import { jsonEqual } from '@/lib/merge';
+import { isDeleted, formatCurrency } from '@/lib/utils';
+import { CONFIG_PATH, isAllocationOrder } from '@/lib/config';
+import {
+  DAY_COUNTS,
+  ALLOCATION_ORDER,
+  LOAN_STATUSES,
+  MAX_GUARANTORS,
+  COLLATERAL_TYPES,
+  RESTRUCTURING_KINDS,
+  unpledgedSavings,
+  isReleased,
+  canReleaseCollateral,
+  isDisbursed,
+} from '@/lib/finance';
+
+interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'date' | 'list' | 'object';
+  required?: boolean;
+  /** Strings: must not be blank */
+  nonEmpty?: boolean;
+  /** Numbers: smallest allowed value, and whether it is excluded */
+  min?: number;
+  exclusiveMin?: boolean;
+  max?: number;
+  integer?: boolean;
+  /** Numbers: an amount in whole paisa */
+  paisa?: boolean;
+  oneOf?: readonly string[];
+  /** Must be the id of a record in that collection */
+  references?: CollectionName;
+  /** Lists of objects, and objects: the fields of each entry */
+  items?: Record<string, FieldRule>;
+  /** Lists of plain values: the rule for each value */
+  each?: FieldRule;
+  /** Lists: the most entries allowed */
+  maxItems?: number;
+}
+
+interface Schema<T> {
+  fields: { [K in keyof Required<T>]: FieldRule };
+  /** Convert fields older records may still carry into the current shape */
+  normalize?: (record: any) => any;
+}
+
+const id: FieldRule = { type: 'string', required: true, nonEmpty: true };
+const date: FieldRule = { type: 'date', required: true };
+const amount: FieldRule = { type: 'number', required: true, min: 0, exclusiveMin: true, paisa: true };
+const optionalText: FieldRule = { type: 'string' };
+const softDelete = { deletedAt: optionalText, deletedBy: optionalText };
+
+const memberSchema: Schema<Member> = {
+  fields: {
+    id,
+    name: { type: 'string', required: true, nonEmpty: true },
+    phone: { type: 'string', required: true },
+    joinDate: date,
+    address: optionalText,
+    isActive: { type: 'boolean' },
+    ...softDelete,
+  },
+  // Older members carry `active` next to `isActive`; the pages only use isActive
+  normalize: ({ active, ...member }) => ({
+    ...member,
+    ...(member.isActive === undefined && typeof active === 'boolean' && { isActive: active }),
+  }),
+};
+
+const savingSchema: Schema<Saving> = {
+  fields: {
+    id,
+    memberId: { ...id, references: 'members' },
+    amount,
+    date,
+    remarks: optionalText,
+    ...softDelete,
+  },
+};
+
+const loanSchema: Schema<Loan> = {
+  fields: {
+    id,
+    memberId: { ...id, references: 'members' },
+    principal: amount,
+    interestRate: { type: 'number', required: true, min: 0, max: 100 },
+    startDate: date,
+    termMonths: { type: 'number', required: true, min: 1, integer: true },
+    repayment: { type: 'string', oneOf: ['interest-only', 'equal-principal', 'emi'] },
+    purpose: optionalText,
+    guarantors: {
+      type: 'list',
+      maxItems: MAX_GUARANTORS,
+      items: {
+        memberId: id,
+        amount,
+      },
+    },
+    collateral: {
+      type: 'list',
+      items: {
+        id,
+        type: { type: 'string', required: true, oneOf: COLLATERAL_TYPES },
+        description: { type: 'string', required: true, nonEmpty: true },
+        value: amount,
+        custodian: { type: 'string', required: true, nonEmpty: true },
+        documents: {
+          type: 'list',
+          items: {
+            name: { type: 'string', required: true, nonEmpty: true },
+            url: { type: 'string', required: true, nonEmpty: true },
+            type: optionalText,
+            uploadedAt: { type: 'string', required: true, nonEmpty: true },
+          },
+        },
+        releasedDate: { type: 'date' },
+        releasedBy: optionalText,
+        releasedAt: optionalText,
+      },
+    },
+    restructuredFrom: {
+      type: 'object',
+      items: {
+        kind: { type: 'string', required: true, oneOf: RESTRUCTURING_KINDS },
+        date,
+        from: { type: 'list', required: true, each: id },
+        carried: { type: 'number', required: true, min: 0, paisa: true },
+        topUp: { type: 'number', required: true, min: 0, paisa: true },
+      },
+    },
+    transferred: {
+      type: 'object',
+      items: {
+        date,
+        principal: { type: 'number', required: true, min: 0, paisa: true },
+      },
+    },
+    status: { type: 'string', required: true, oneOf: LOAN_STATUSES },
+    history: {
+      type: 'list',
+      items: {
+        status: { type: 'string', required: true, oneOf: LOAN_STATUSES },
+        at: { type: 'string', required: true, nonEmpty: true },
+        by: { type: 'string', required: true, nonEmpty: true },
+        comment: optionalText,
+      },
+    },
+    ...softDelete,
+  },
+};
+
+const paymentSchema: Schema<Payment> = {
+  fields: {
+    id,
+    loanId: { ...id, references: 'loans' },
+    memberId: { ...id, references: 'members' },
+    date,
+    principalPaid: { type: 'number', required: true, min: 0, paisa: true },
+    interestPaid: { type: 'number', required: true, min: 0, paisa: true },
+    remarks: optionalText,
+    ...softDelete,
+  },
+};
+
+const fineSchema: Schema<FinePayment> = {
+  fields: {
+    id,
+    memberId: { ...id, references: 'members' },
+    date,
+    amount,
+    reason: { type: 'string', required: true, oneOf: ['Saving Default', 'Interest Default', 'Other'] },
+    note: optionalText,
+    status: { type: 'string', oneOf: ['due', 'paid'] },
+    paidDate: { type: 'date' },
+    ...softDelete,
+  },
+};
+
+const expenditureSchema: Schema<Expenditure> = {
+  fields: {
+    id,
+    date,
+    item: { type: 'string', required: true, nonEmpty: true },
+    amount,
+    note: optionalText,
+    ...softDelete,
+  },
+};
+
+const SCHEMAS: Record<CollectionName, Schema<any>> = {
+  members: memberSchema,
+  savings: savingSchema,
+  loans: loanSchema,
+  payments: paymentSchema,
+  fines: fineSchema,
+  expenditures: expenditureSchema,
+};
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * A write was rejected because a record is invalid.
+ * `fieldErrors` maps field names to messages that forms can show next to the inputs.
+ */
+export class ValidationError extends Error {
+  status = 400;
+  fieldErrors: FieldErrors;
+  recordId?: string;
+
+  constructor(message: string, fieldErrors: FieldErrors = {}, recordId?: string) {
+    super(message);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+    this.recordId = recordId;
+  }
+}
+
+export type DependentCounts = Partial<Record<CollectionName, number>>;
+
+/**
+ * A delete was rejected because other records still refer to the record.
+ * `dependents` counts them per collection, so the page can offer to delete them as well.
+ */
+export class IntegrityError extends Error {
+  status = 409;
+  recordId: string;
+  dependents: DependentCounts;
+
+  constructor(message: string, recordId: string, dependents: DependentCounts) {
+    super(message);
+    this.name = 'IntegrityError';
+    this.recordId = recordId;
+    this.dependents = dependents;
+  }
+}
+
+/**
+ * The fields that refer to another collection, as [collection, field, referenced collection]
+ */
+export function referenceFields(): Array<[CollectionName, string, CollectionName]> {
+  const fields: Array<[CollectionName, string, CollectionName]> = [];
+  (Object.keys(SCHEMAS) as CollectionName[]).forEach(collection => {
+    Object.entries(SCHEMAS[collection].fields).forEach(([name, rule]) => {
+      const { references } = rule as FieldRule;
+      if (references) fields.push([collection, name, references]);
+    });
+  });
+  return fields;
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+function checkField(name: string, rule: FieldRule, value: any): string | null {
+  if (value === undefined) {
+    return rule.required ? `${name} is required` : null;
+  }
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${name} must be text`;
+      if (rule.nonEmpty && !value.trim()) return `${name} is required`;
+      if (rule.oneOf && !rule.oneOf.includes(value)) return `${name} must be one of: ${rule.oneOf.join(', ')}`;
+      return null;
+    case 'date':
+      return typeof value === 'string' && isValidDate(value) ? null : `${name} must be a date (YYYY-MM-DD)`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${name} must be true or false`;
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) return `${name} must be a number`;
+      if (rule.integer && !Number.isInteger(value)) return `${name} must be a whole number`;
+      if (rule.paisa && !Number.isInteger(value)) return `${name} must be a whole number of paisa`;
+      if (rule.min !== undefined) {
+        if (rule.exclusiveMin ? value <= rule.min : value < rule.min) {
+          return rule.exclusiveMin ? `${name} must be greater than ${rule.min}` : `${name} cannot be less than ${rule.min}`;
+        }
+      }
+      if (rule.max !== undefined && value > rule.max) return `${name} cannot be more than ${rule.max}`;
+      return null;
+    case 'list':
+      if (!Array.isArray(value)) return `${name} must be a list`;
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) return `${name} cannot have more than ${rule.maxItems} entries`;
+      for (let i = 0; i < value.length; i++) {
+        const message = rule.each
+          ? checkField('value', rule.each, value[i])
+          : checkEntry(rule.items || {}, value[i]);
+        if (message) return `${name} #${i + 1}: ${message}`;
+      }
+      return null;
+    case 'object': {
+      const message = checkEntry(rule.items || {}, value);
+      return message && `${name}: ${message}`;
+    }
+  }
+}
+
+/**
+ * Check one entry of a list, or a nested object, against the rules for its fields
+ */
+function checkEntry(items: Record<string, FieldRule>, entry: any): string | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return 'must be an object';
+  for (const [field, itemRule] of Object.entries(items)) {
+    const message = checkField(field, itemRule, entry[field]);
+    if (message) return message;
+  }
+  const unknown = Object.keys(entry).find(field => !(field in items));
+  return unknown ? `${unknown} is not a field` : null;
+}
+
+/**
+ * Bring an older record into the current shape before it is written
+ */
+export function normalizeRecord(collection: CollectionName, record: any): any {
+  const { normalize } = SCHEMAS[collection];
+  if (!normalize || !record || typeof record !== 'object' || Array.isArray(record)) return record;
+  return normalize(record);
+}
+
+/**
+ * Bring all older records of a collection into the current shape before it is written
+ */
+export function normalizeCollection(collection: CollectionName, list: any): any {
+  return Array.isArray(list) ? list.map(record => normalizeRecord(collection, record)) : list;
+}
+
+/**
+ * Check the shape of one record: field types, required fields, ranges and unknown fields
+ */
+export function validateRecord(collection: CollectionName, record: any): FieldErrors {
+  const schema = SCHEMAS[collection];
+  const errors: FieldErrors = {};
+
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { id: 'Record must be an object' };
+  }
+
+  Object.entries(schema.fields).forEach(([name, rule]) => {
+    const message = checkField(name, rule as FieldRule, record[name]);
+    if (message) errors[name] = message;
+  });
+
+  Object.keys(record).forEach(name => {
+    if (!(name in schema.fields)) {
+      errors[name] = `${name} is not a field of ${collection}`;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Lists of other collections, used to check references.
+ * Lists being written in the same operation are passed in so they are checked against the new data.
+ */
+export type RelatedData = Partial<Record<CollectionName, any[]>>;
+
+async function loadRelated(storage: StorageAdapter, collection: CollectionName, related: RelatedData): Promise<any[]> {
+  if (!related[collection]) {
+    const file = await storage.read<any[]>(COLLECTIONS[collection]);
+    related[collection] = Array.isArray(file?.data) ? file!.data : [];
+  }
+  return related[collection]!;
+}
+
+/**
+ * Records that refer to a record, per collection. Records in the recycle bin only count
+ * when `includeDeleted` is set.
+ */
+export async function findDependents(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  id: string,
+  related: RelatedData,
+  includeDeleted = false
+): Promise<Partial<Record<CollectionName, any[]>>> {
+  const dependents: Partial<Record<CollectionName, any[]>> = {};
+  for (const [source, field, target] of referenceFields()) {
+    if (target !== collection) continue;
+    const records = (await loadRelated(storage, source, related)).filter(
+      r => r && r[field] === id && (includeDeleted || !isDeleted(r))
+    );
+    // A payment refers to both its member and its loan; count it once
+    const known = dependents[source] || [];
+    dependents[source] = [...known, ...records.filter(r => !known.includes(r))];
+  }
+
+  (Object.keys(dependents) as CollectionName[]).forEach(c => {
+    if (dependents[c]!.length === 0) delete dependents[c];
+  });
+  return dependents;
+}
+
+/**
+ * Reject taking a record out of use (into the recycle bin, or purging it) while other records
+ * still refer to it. A purged record may not leave even deleted records behind, since restoring
+ * them would bring back references to nothing.
+ */
+async function checkDependents(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  previous: any,
+  current: any,
+  related: RelatedData
+): Promise<void> {
+  const purged = !current;
+  if (!purged && (isDeleted(previous) || !isDeleted(current))) return;
+
+  // Guarantees are listed inside other members' loans, which a cascade must not take with it
+  if (collection === 'members') {
+    const guaranteed = (await loadRelated(storage, 'loans', related)).filter(
+      l => l && (purged || !isDeleted(l)) && Array.isArray(l.guarantors)
+        && l.guarantors.some((g: any) => g && g.memberId === previous.id)
+    );
+    if (guaranteed.length > 0) {
+      throw new ValidationError(
+        `${previous.id} cannot be ${purged ? 'purged' : 'deleted'}: they guarantee loan ${guaranteed.map(l => l.id).join(', ')}; change the guarantors first`,
+        {},
+        previous.id
+      );
+    }
+  }
+
+  const found = await findDependents(storage, collection, previous.id, related, purged);
+  const counts: DependentCounts = {};
+  (Object.keys(found) as CollectionName[]).forEach(c => {
+    counts[c] = found[c]!.length;
+  });
+  const names = Object.keys(counts) as CollectionName[];
+  if (names.length === 0) return;
+
+  const list = names.map(c => `${counts[c]} ${c}`).join(', ');
+  throw new IntegrityError(
+    purged
+      ? `${previous.id} cannot be purged: ${list} (including the recycle bin) still refer to it`
+      : `${previous.id} cannot be deleted: ${list} still refer to it`,
+    previous.id,
+    counts
+  );
+}
+
+/**
+ * Check that the referenced members and loans exist and are not in the recycle bin
+ * (and that a payment's member owns its loan). Deleted records are not checked.
+ */
+async function checkReferences(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  record: any,
+  related: RelatedData
+): Promise<FieldErrors> {
+  const errors: FieldErrors = {};
+  if (isDeleted(record)) return errors;
+
+  for (const [name, rule] of Object.entries(SCHEMAS[collection].fields) as Array<[string, FieldRule]>) {
+    if (!rule.references || typeof record[name] !== 'string') continue;
+    const targets = await loadRelated(storage, rule.references, related);
+    const target = targets.find(t => t.id === record[name]);
+    if (!target) {
+      errors[name] = `${record[name]} does not exist in ${rule.references}`;
+    } else if (isDeleted(target)) {
+      errors[name] = `${record[name]} is in the recycle bin`;
+    }
+  }
+
+  if (collection === 'payments' && !errors.loanId && !errors.memberId) {
+    const loans = await loadRelated(storage, 'loans', related);
+    const loan = loans.find(l => l.id === record.loanId);
+    if (loan && loan.memberId !== record.memberId) {
+      errors.memberId = `Loan ${record.loanId} belongs to ${loan.memberId}, not ${record.memberId}`;
+    }
+  }
+
+  // Moving a loan to another member would leave its payments with the old member
+  if (collection === 'loans' && !errors.memberId) {
+    const payments = await loadRelated(storage, 'payments', related);
+    const payment = payments.find(p => p.loanId === record.id && !isDeleted(p) && p.memberId !== record.memberId);
+    if (payment) {
+      errors.memberId = `Payment ${payment.id} of this loan was made by ${payment.memberId}`;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a loan's guarantors: other members, each listed once, not in the recycle bin, and with
+ * enough savings not already pledged for other loans to cover their pledge
+ */
+async function checkGuarantors(storage: StorageAdapter, loan: any, related: RelatedData): Promise<FieldErrors> {
+  if (isDeleted(loan) || !Array.isArray(loan.guarantors)) return {};
+
+  const members = await loadRelated(storage, 'members', related);
+  const data = {
+    savings: (await loadRelated(storage, 'savings', related)).filter(s => !isDeleted(s)),
+    loans: (await loadRelated(storage, 'loans', related)).filter(l => !isDeleted(l)),
+    payments: (await loadRelated(storage, 'payments', related)).filter(p => !isDeleted(p)),
+  };
+
+  const seen = new Set<string>();
+  for (const guarantee of loan.guarantors) {
+    if (!guarantee || typeof guarantee.memberId !== 'string' || typeof guarantee.amount !== 'number') continue;
+    const { memberId } = guarantee;
+
+    const member = members.find(m => m.id === memberId);
+    if (!member) return { guarantors: `${memberId} does not exist in members` };
+    if (isDeleted(member)) return { guarantors: `${memberId} is in the recycle bin` };
+    if (memberId === loan.memberId) return { guarantors: 'A member cannot guarantee their own loan' };
+    if (seen.has(memberId)) return { guarantors: `${memberId} is listed as a guarantor more than once` };
+    seen.add(memberId);
+
+    const available = unpledgedSavings(memberId, data, loan.id);
+    if (guarantee.amount > available) {
+      return {
+        guarantors: `${member.name} (${memberId}) has only ${formatCurrency(Math.max(0, available))} of savings not already pledged`,
+      };
+    }
+  }
+  return {};
+}
+
+/** Collateral fields set when its release is recorded */
+const RELEASE_FIELDS = ['releasedDate', 'releasedBy', 'releasedAt'];
+
+/**
+ * Check a loan's collateral: ids used once, documents only released once the loan is closed and
+ * through the collateral route, and collateral still held on a disbursed loan kept on record
+ */
+function checkCollateral(loan: any, previous: any, options: ValidationOptions): FieldErrors {
+  if (isDeleted(loan)) return {};
+  const list = Array.isArray(loan.collateral) ? loan.collateral : [];
+
+  const seen = new Set<string>();
+  for (const collateral of list) {
+    if (!collateral || typeof collateral.id !== 'string') continue;
+    if (seen.has(collateral.id)) return { collateral: `Collateral ${collateral.id} is listed more than once` };
+    seen.add(collateral.id);
+
+    const before = (previous?.collateral || []).find((c: any) => c && c.id === collateral.id);
+    const released = isReleased(collateral) && !(before && isReleased(before));
+    if (released && !canReleaseCollateral(loan)) {
+      return { collateral: `Collateral ${collateral.id} can only be released once the loan is closed` };
+    }
+    const recorded = RELEASE_FIELDS.some(field => !jsonEqual(before?.[field], collateral[field]));
+    if (recorded && !options.collateral && !options.loanWorkflow) {
+      return { collateral: 'Collateral is released with /api/loans/{id}/collateral' };
+    }
+  }
+
+  // Restructuring moves held collateral to the successor; otherwise it stays until released
+  if (previous && isDisbursed(previous) && !options.loanWorkflow) {
+    const dropped = (previous.collateral || []).find(
+      (c: any) => c && !isReleased(c) && !list.some((after: any) => after && after.id === c.id)
+    );
+    if (dropped) {
+      return { collateral: `Collateral ${dropped.id} is still held; release it to the member instead of removing it` };
+    }
+  }
+  return {};
+}
+
+/** Loan fields that only the loan workflow routes change */
+const WORKFLOW_FIELDS = ['status', 'history', 'restructuredFrom', 'transferred'];
+
+/** The terms of a loan, fixed once it is disbursed */
+const LOAN_TERMS = ['principal', 'interestRate', 'startDate', 'termMonths', 'repayment'];
+
+/**
+ * Check that a loan written outside the workflow routes leaves its workflow alone: new loans are
+ * applications, existing ones keep their status, history and restructuring links, and disbursed
+ * ones their terms
+ */
+function checkWorkflow(loan: any, previous: any): FieldErrors {
+  if (!loan || typeof loan !== 'object') return {};
+
+  if (!previous) {
+    if (loan.status !== 'applied') {
+      return { status: 'A new loan starts as applied; move it on with /api/loans/{id}/status' };
+    }
+    if (Array.isArray(loan.history) && loan.history.some((step: any) => step?.status !== 'applied')) {
+      return { history: 'A new loan\'s history can only hold its application' };
+    }
+    if (loan.restructuredFrom || loan.transferred) {
+      return { restructuredFrom: 'Loans are restructured with /api/loans/{id}/restructure' };
+    }
+    return {};
+  }
+
+  const changed = WORKFLOW_FIELDS.find(field => !jsonEqual(previous[field], loan[field]));
+  if (changed === 'restructuredFrom' || changed === 'transferred') {
+    return { [changed]: 'Loans are restructured with /api/loans/{id}/restructure' };
+  }
+  if (changed) {
+    return { [changed]: 'A loan\'s status and history are changed with /api/loans/{id}/status' };
+  }
+
+  const term = isDisbursed(previous) ? LOAN_TERMS.find(field => !jsonEqual(previous[field], loan[field])) : undefined;
+  if (term) {
+    return { [term]: 'A disbursed loan\'s terms are changed by restructuring it with /api/loans/{id}/restructure' };
+  }
+  return {};
+}
+
+export interface ValidationOptions {
+  /**
+   * Set by the loan status and restructure routes and by backup restores, which may move loans
+   * through their workflow and set the terms of disbursed ones
+   */
+  loanWorkflow?: boolean;
+  /** Set by the collateral route, which records releases */
+  collateral?: boolean;
+}
+
+/**
+ * Validate the records a write adds or changes (unchanged records are left alone,
+ * so older data that predates a rule does not block unrelated edits).
+ * Throws ValidationError for the first invalid record, and IntegrityError for the first record
+ * deleted or purged while others still refer to it.
+ */
+export async function validateChanges(
+  storage: StorageAdapter,
+  collection: CollectionName,
+  before: any[],
+  after: any,
+  related: RelatedData = {},
+  options: ValidationOptions = {}
+): Promise<void> {
+  if (!Array.isArray(after)) {
+    throw new ValidationError(`${collection} must be a list of records`);
+  }
+
+  const ids = new Set<string>();
+  for (const record of after) {
+    if (record && typeof record.id === 'string') {
+      if (ids.has(record.id)) {
+        throw new ValidationError(`Duplicate id ${record.id} in ${collection}`, { id: 'This ID is already used' }, record.id);
+      }
+      ids.add(record.id);
+    }
+  }
+
+  const beforeById = new Map(before.filter(r => r && typeof r.id === 'string').map(r => [r.id, r]));
+  const context: RelatedData = { ...related, [collection]: after };
+
+  for (const record of after) {
+    const previous = record && beforeById.get(record.id);
+    if (previous && jsonEqual(previous, record)) continue;
+
+    // Shape errors take precedence over reference errors on the same field
+    // Pledges are only checked when the guarantors change, so later steps of a loan go through
+    const errors: FieldErrors = {
+      ...(await checkReferences(storage, collection, record, context)),
+      ...(collection === 'loans' && !jsonEqual(previous?.guarantors, record?.guarantors)
+        ? await checkGuarantors(storage, record, context)
+        : {}),
+      ...(collection === 'loans' ? checkCollateral(record, previous, options) : {}),
+      ...(collection === 'loans' && !options.loanWorkflow ? checkWorkflow(record, previous) : {}),
+      ...validateRecord(collection, record),
+    };
+
+    const fields = Object.keys(errors);
+    if (fields.length > 0) {
+      const recordId = record?.id;
+      throw new ValidationError(
+        `Invalid ${collection} record${recordId ? ` ${recordId}` : ''}: ${errors[fields[0]]}`,
+        errors,
+        recordId
+      );
+    }
+  }
+
+  const afterById = new Map(after.filter(r => r && typeof r.id === 'string').map(r => [r.id, r]));
+  for (const previous of Array.from(beforeById.values())) {
+    await checkDependents(storage, collection, previous, afterById.get(previous.id), context);
+  }
+}
+
+/**
+ * Validate settings.json: a list of users with unique IDs and known roles
+ */
+export function validateSettings(settings: any): void {
+  if (!settings || typeof settings !== 'object' || !Array.isArray(settings.users)) {
+    throw new ValidationError('Settings must contain a list of users', { users: 'Users list is required' });
+  }
+
+  const seen = new Set<string>();
+  settings.users.forEach((user: any, index: number) => {
+    const errors: FieldErrors = {};
+    if (!user || typeof user.userId !== 'string' || !user.userId.trim()) errors.userId = 'User ID is required';
+    else if (seen.has(user.userId)) errors.userId = `User ID ${user.userId} is already used`;
+    if (typeof user?.name !== 'string' || !user.name.trim()) errors.name = 'Name is required';
+    if (typeof user?.password !== 'string' || !user.password) errors.password = 'Password is required';
+    if (!['Admin', 'Committee', 'Viewer'].includes(user?.role)) errors.role = 'Role must be Admin, Committee or Viewer';
+
+    const fields = Object.keys(errors);
+    if (fields.length > 0) {
+      throw new ValidationError(`Invalid user #${index + 1}: ${errors[fields[0]]}`, errors, user?.userId);
+    }
+    seen.add(user.userId);
+  });
+}
+
+/**
+ * Validate config.json: known values for the settings it holds
+ */
+export function validateConfig(config: any): void {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError('Configuration must be an object');
+  }
+  if (config.dayCount !== undefined && !DAY_COUNTS.includes(config.dayCount)) {
+    throw new ValidationError(`dayCount must be one of: ${DAY_COUNTS.join(', ')}`, { dayCount: 'Unknown day-count convention' });
+  }
+  if (config.allocationOrder !== undefined && !isAllocationOrder(config.allocationOrder)) {
+    throw new ValidationError(
+      `allocationOrder must list each of ${ALLOCATION_ORDER.join(', ')} once`,
+      { allocationOrder: 'Each part of a repayment must appear once' }
+    );
+  }
+}
+
+/**
+ * The collection stored at a path, if any
+ */
+export function collectionForPath(path: string): CollectionName | undefined {
+  return (Object.keys(COLLECTIONS) as CollectionName[]).find(c => COLLECTIONS[c] === path);
+}
+
+/**
+ * Normalize and validate a whole-file write to one of the data files, returning the content to store.
+ * `before` is the currently stored content; only records that differ from it are validated.
+ * Other paths (backups, uploads) are passed through unchecked.
+ */
+export async function prepareFileWrite(
+  storage: StorageAdapter,
+  path: string,
+  content: any,
+  before: any,
+  related: RelatedData = {}
+): Promise<any> {
+  if (path === 'data/settings.json') {
+    validateSettings(content);
+    return content;
+  }
+  if (path === CONFIG_PATH) {
+    validateConfig(content);
+    return content;
+  }
+
+  const collection = collectionForPath(path);
+  if (!collection) return content;
+
+  const normalized = normalizeCollection(collection, content);
+  await validateChanges(storage, collection, Array.isArray(before) ? before : [], normalized, related);
+  return normalized;
+}
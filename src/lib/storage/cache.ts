@@ -0,0 +1,63 @@
+/**
+ * Read cache for a storage adapter
+ * Keeps recently read files in memory so pages loading the same collections do not each cost
+ * a GitHub API request. A write through the adapter drops the files it touched (also when it
+ * fails with a conflict, so the retry reads the latest version). Entries expire after `ttl`
+ * milliseconds, which bounds how long changes made elsewhere (another server instance, or a
+ * commit straight to the repository) can go unseen.
+ */
+
+import type { StorageAdapter, StoredFile } from './index';
+
+export function withReadCache(storage: StorageAdapter, ttl: number): StorageAdapter {
+  const entries = new Map<string, { file: Promise<StoredFile | null>; expires: number }>();
+
+  const invalidate = (paths: string[]) => paths.forEach(path => entries.delete(path));
+
+  // Callers may change the data they get back, so each one gets its own copy
+  const copy = (file: StoredFile | null): StoredFile | null =>
+    file && { data: structuredClone(file.data), sha: file.sha };
+
+  return {
+    ...storage,
+
+    read<T>(path: string) {
+      const cached = entries.get(path);
+      if (cached && cached.expires > Date.now()) {
+        return cached.file.then(copy) as Promise<StoredFile<T> | null>;
+      }
+
+      const file = storage.read(path);
+      entries.set(path, { file, expires: Date.now() + ttl });
+      // A failed read is not cached
+      file.catch(() => {
+        if (entries.get(path)?.file === file) entries.delete(path);
+      });
+      return file.then(copy) as Promise<StoredFile<T> | null>;
+    },
+
+    async write(path, content, sha, commit) {
+      try {
+        return await storage.write(path, content, sha, commit);
+      } finally {
+        invalidate([path]);
+      }
+    },
+
+    async writeMany(files, commit) {
+      try {
+        return await storage.writeMany(files, commit);
+      } finally {
+        invalidate(files.map(f => f.path));
+      }
+    },
+
+    async writeRaw(path, base64Content, sha, commit) {
+      try {
+        return await storage.writeRaw(path, base64Content, sha, commit);
+      } finally {
+        invalidate([path]);
+      }
+    },
+  };
+}
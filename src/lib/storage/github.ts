@@ -0,0 +1,85 @@
+/**
+ * GitHub storage adapter
+ * Stores data files in a GitHub repository through the REST API helpers in lib/github.
+ */
+
+import {
+  readGitHubFile,
+  writeGitHubFile,
+  writeRawFile,
+  readRawFile,
+  listGitHubFiles,
+  listGitHubCommits,
+  getGitHubFileSha,
+  getGitHubCommitFiles,
+  commitGitHubFiles,
+} from '@/lib/github';
+import { StorageConflictError, type StorageAdapter } from './index';
+
+export interface GitHubStorageConfig {
+  token: string;
+  owner: string;
+  repo: string;
+}
+
+export function createGitHubStorage({ token, owner, repo }: GitHubStorageConfig): StorageAdapter {
+  return {
+    name: 'github',
+    keepsHistory: true,
+
+    read(path) {
+      return readGitHubFile(path, token, owner, repo);
+    },
+
+    async write(path, content, sha, commit) {
+      // GitHub requires the current sha to update an existing file
+      const fileSha = sha ?? (await getGitHubFileSha(path, token, owner, repo));
+      try {
+        return await writeGitHubFile(path, content, token, owner, repo, fileSha, commit);
+      } catch (error: any) {
+        // 409: sha does not match the current file, 422: file exists but no sha was given
+        if (sha && /GitHub API error: (409|422)/.test(error.message)) {
+          throw new StorageConflictError(path);
+        }
+        throw error;
+      }
+    },
+
+    async writeMany(files, commit) {
+      try {
+        return await commitGitHubFiles(files, token, owner, repo, commit);
+      } catch (error: any) {
+        const match = /GitHub API error: 409 - (\S+) does not match/.exec(error.message);
+        if (match) {
+          throw new StorageConflictError(match[1]);
+        }
+        throw error;
+      }
+    },
+
+    list(path) {
+      return listGitHubFiles(path, token, owner, repo);
+    },
+
+    async writeRaw(path, base64Content, sha, commit) {
+      await writeRawFile(path, base64Content, token, owner, repo, sha, commit);
+      return `https://raw.githubusercontent.com/${owner}/${repo}/main/${path}`;
+    },
+
+    readRaw(path) {
+      return readRawFile(path, token, owner, repo);
+    },
+
+    history(path, { limit, page, until } = {}) {
+      return listGitHubCommits(path, token, owner, repo, limit, page, until);
+    },
+
+    readAt(path, ref) {
+      return readGitHubFile(path, token, owner, repo, ref);
+    },
+
+    commitFiles(ref) {
+      return getGitHubCommitFiles(ref, token, owner, repo);
+    },
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Storage backend abstraction
+ * API routes read and write data files through a StorageAdapter instead of calling
+ * the GitHub helpers directly, so the app can also run from a local data/ directory.
+ *
+ * The backend is picked with the STORAGE_BACKEND environment variable:
+ * - `github` (default): JSON files in the GitHub repository (needs GITHUB_TOKEN, GITHUB_OWNER, GITHUB_REPO)
+ * - `local`: JSON files on disk under LOCAL_DATA_ROOT (defaults to the project directory)
+ * - `sqlite`: tables in the SQLite database at SQLITE_PATH (defaults to data.sqlite under LOCAL_DATA_ROOT),
+ *   which keeps its own commit history; see getJsonStorage() for moving data in and out of it
+ */
+
+import nodePath from 'path';
+import type { CommitDetails } from '@/lib/github';
+import { createGitHubStorage } from './github';
+import { createLocalStorage } from './local';
+import { createSqliteStorage } from './sqlite';
+import { withReadCache } from './cache';
+
+export type { CommitDetails, CommitAuthor } from '@/lib/github';
+
+export interface StoredFile<T = any> {
+  data: T;
+  sha?: string;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author: string;
+  email?: string;
+  date: string;
+  /** Sha of the commit before this one, if any */
+  parent?: string;
+}
+
+/**
+ * Thrown by StorageAdapter.write when the given sha is not the file's current sha,
+ * i.e. someone else saved the file after it was read.
+ */
+export class StorageConflictError extends Error {
+  path: string;
+
+  constructor(path: string) {
+    super(`${path} was changed by someone else`);
+    this.name = 'StorageConflictError';
+    this.path = path;
+  }
+}
+
+export interface FileWrite {
+  path: string;
+  content: any;
+  /** Expected current sha, as for StorageAdapter.write */
+  sha?: string;
+}
+
+export interface StorageAdapter {
+  name: 'github' | 'local' | 'sqlite';
+  /** Whether writes are recorded so history(), readAt() and commitFiles() return them */
+  keepsHistory: boolean;
+  /** Read and parse a JSON file. Returns null if it does not exist or is not valid JSON. */
+  read<T = any>(path: string): Promise<StoredFile<T> | null>;
+  /**
+   * Write a JSON file and return the sha of the new version.
+   * With a sha the write fails with StorageConflictError if the file has changed since;
+   * without one the current file (if any) is overwritten.
+   * `commit` sets the message and author recorded in the history (where the backend keeps one).
+   */
+  write(path: string, content: any, sha?: string, commit?: CommitDetails): Promise<string | undefined>;
+  /**
+   * Write several JSON files together: either all of them change or none do.
+   * Fails with StorageConflictError (naming the first stale file) if any given sha is out of date.
+   * Returns the new sha of each file, keyed by path.
+   */
+  writeMany(files: FileWrite[], commit?: CommitDetails): Promise<Record<string, string>>;
+  /** List the entries of a directory as repository-relative paths */
+  list(path: string): Promise<string[]>;
+  /** Write an already base64-encoded file and return the URL it can be downloaded from */
+  writeRaw(path: string, base64Content: string, sha?: string, commit?: CommitDetails): Promise<string>;
+  /** Read a file written with writeRaw. Returns null if it does not exist. */
+  readRaw(path: string): Promise<Buffer | null>;
+  /**
+   * Commits that touched a path, newest first (empty for backends without history).
+   * `until` (ISO date) skips commits made after that moment.
+   */
+  history(path: string, options?: { limit?: number; page?: number; until?: string }): Promise<CommitInfo[]>;
+  /** Read a JSON file as it was at a commit from history() */
+  readAt<T = any>(path: string, ref: string): Promise<StoredFile<T> | null>;
+  /** Paths of the files changed by a commit from history() */
+  commitFiles(ref: string): Promise<string[]>;
+}
+
+let cached: StorageAdapter | null = null;
+
+/**
+ * Get the configured storage adapter, with reads cached for STORAGE_CACHE_SECONDS (default 30).
+ * Throws if the selected backend is missing its configuration.
+ */
+export function getStorage(): StorageAdapter {
+  if (cached) return cached;
+
+  const seconds = Number(process.env.STORAGE_CACHE_SECONDS);
+  cached = withReadCache(createStorage(), (Number.isFinite(seconds) && seconds >= 0 ? seconds : 30) * 1000);
+  return cached;
+}
+
+function createStorage(): StorageAdapter {
+  const backend = process.env.STORAGE_BACKEND || 'github';
+
+  if (backend === 'local') {
+    return createLocalStorage(process.env.LOCAL_DATA_ROOT || process.cwd());
+  }
+
+  if (backend === 'sqlite') {
+    const root = process.env.LOCAL_DATA_ROOT || process.cwd();
+    return createSqliteStorage({ file: process.env.SQLITE_PATH || nodePath.join(root, 'data.sqlite'), root });
+  }
+
+  if (backend !== 'github') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use "github", "local" or "sqlite".`);
+  }
+
+  const github = getGitHubConfig();
+  if (!github) {
+    throw new Error(
+      'GitHub configuration missing. Please set GITHUB_TOKEN, GITHUB_OWNER, and GITHUB_REPO in environment variables, or set STORAGE_BACKEND=local.'
+    );
+  }
+
+  return createGitHubStorage(github);
+}
+
+function getGitHubConfig(): { token: string; owner: string; repo: string } | null {
+  const token = process.env.GITHUB_TOKEN;
+  const owner = process.env.GITHUB_OWNER;
+  const repo = process.env.GITHUB_REPO;
+  return token && owner && repo ? { token, owner, repo } : null;
+}
+
+/**
+ * The JSON file repository the SQLite backend imports from and exports to:
+ * the GitHub repository when it is configured, otherwise the JSON files under LOCAL_DATA_ROOT.
+ */
+export function getJsonStorage(): StorageAdapter {
+  const github = getGitHubConfig();
+  return github ? createGitHubStorage(github) : createLocalStorage(process.env.LOCAL_DATA_ROOT || process.cwd());
+}
@@ -0,0 +1,183 @@
+/**
+ * Local filesystem storage adapter
+ * Stores data files on disk so the app can run offline or in development without a GitHub token.
+ * Paths are resolved relative to the root directory (data/members.json -> <root>/data/members.json).
+ * File SHAs are computed the same way git does, so clients can keep passing them back on writes.
+ */
+
+import { promises as fs } from 'fs';
+import nodePath from 'path';
+import crypto from 'crypto';
+import { StorageConflictError, type StorageAdapter } from './index';
+
+/**
+ * Compute the git blob SHA-1 of file contents
+ */
+function blobSha(content: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+// The write in progress on each file (by absolute path), shared by every adapter in the process
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Run `fn` once the writes already queued on any of these files have finished, so the sha check
+ * and the write of one request cannot interleave with another's
+ */
+async function serialize<T>(files: string[], fn: () => Promise<T>): Promise<T> {
+  const keys = Array.from(new Set(files));
+  const previous = keys.map(key => pendingWrites.get(key));
+  let release = () => {};
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  keys.forEach(key => pendingWrites.set(key, done));
+
+  try {
+    await Promise.all(previous);
+    return await fn();
+  } finally {
+    release();
+    keys.forEach(key => {
+      if (pendingWrites.get(key) === done) pendingWrites.delete(key);
+    });
+  }
+}
+
+export function createLocalStorage(root: string): StorageAdapter {
+  const rootDir = nodePath.resolve(root);
+
+  // Resolve a repository-relative path, refusing anything that escapes the root
+  const resolve = (path: string): string => {
+    const full = nodePath.resolve(rootDir, path);
+    if (full !== rootDir && !full.startsWith(rootDir + nodePath.sep)) {
+      throw new Error(`Invalid path: ${path}`);
+    }
+    return full;
+  };
+
+  const currentSha = async (path: string): Promise<string | undefined> => {
+    try {
+      return blobSha(await fs.readFile(resolve(path)));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return undefined;
+      throw e;
+    }
+  };
+
+  const writeAtomic = async (path: string, content: Buffer): Promise<void> => {
+    const full = resolve(path);
+    await fs.mkdir(nodePath.dirname(full), { recursive: true });
+    const tmp = `${full}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, content);
+    await fs.rename(tmp, full);
+  };
+
+  return {
+    name: 'local',
+    keepsHistory: false,
+
+    async read(path) {
+      let raw: Buffer;
+      try {
+        raw = await fs.readFile(resolve(path));
+      } catch (e: any) {
+        if (e.code === 'ENOENT') return null;
+        throw e;
+      }
+
+      try {
+        return { data: JSON.parse(raw.toString('utf-8')), sha: blobSha(raw) };
+      } catch (e) {
+        // If file is empty or invalid JSON, return null
+        return null;
+      }
+    },
+
+    async write(path, content, sha) {
+      return serialize([resolve(path)], async () => {
+        if (sha && sha !== (await currentSha(path))) {
+          throw new StorageConflictError(path);
+        }
+        const raw = Buffer.from(JSON.stringify(content, null, 2));
+        await writeAtomic(path, raw);
+        return blobSha(raw);
+      });
+    },
+
+    async writeMany(files) {
+      return serialize(files.map(file => resolve(file.path)), async () => {
+        for (const file of files) {
+          if (file.sha && file.sha !== (await currentSha(file.path))) {
+            throw new StorageConflictError(file.path);
+          }
+        }
+
+        // Stage every file first, then move them all into place
+        const staged: Array<{ tmp: string; full: string }> = [];
+        const shas: Record<string, string> = {};
+        try {
+          for (const file of files) {
+            const full = resolve(file.path);
+            const raw = Buffer.from(JSON.stringify(file.content, null, 2));
+            await fs.mkdir(nodePath.dirname(full), { recursive: true });
+            const tmp = `${full}.${process.pid}.tmp`;
+            await fs.writeFile(tmp, raw);
+            staged.push({ tmp, full });
+            shas[file.path] = blobSha(raw);
+          }
+        } catch (error) {
+          await Promise.all(staged.map(s => fs.rm(s.tmp, { force: true })));
+          throw error;
+        }
+
+        for (const { tmp, full } of staged) {
+          await fs.rename(tmp, full);
+        }
+        return shas;
+      });
+    },
+
+    async list(path) {
+      try {
+        const entries = await fs.readdir(resolve(path));
+        return entries.sort().map(name => `${path.replace(/\/+$/, '')}/${name}`);
+      } catch (e: any) {
+        if (e.code === 'ENOENT') return [];
+        throw e;
+      }
+    },
+
+    async writeRaw(path, base64Content) {
+      await serialize([resolve(path)], () => writeAtomic(path, Buffer.from(base64Content, 'base64')));
+      // Files under public/ are served by Next.js from the site root
+      return `/${path.replace(/^public\//, '')}`;
+    },
+
+    async readRaw(path) {
+      try {
+        return await fs.readFile(resolve(path));
+      } catch (e: any) {
+        if (e.code === 'ENOENT') return null;
+        throw e;
+      }
+    },
+
+    async history() {
+      // Plain files on disk keep no version history
+      return [];
+    },
+
+    async readAt() {
+      return null;
+    },
+
+    async commitFiles() {
+      return [];
+    },
+  };
+}
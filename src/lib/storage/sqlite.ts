@@ -0,0 +1,539 @@
+/**
+ * SQLite storage adapter
+ * Keeps the collections in real tables (members, savings, loans, payments, fines, expenditures,
+ * users and chat messages) in a single database file, while still presenting them to the rest of
+ * the app as the same JSON files the other backends store. Fields without a column of their own
+ * are kept in each row's `extra` JSON, so nothing is lost when a record carries more fields.
+ *
+ * Every write is recorded as a commit, so the History page and point-in-time restore work as they
+ * do with GitHub. A commit keeps only the records that changed in each file it touched, with the
+ * whole file stored every SNAPSHOT_EVERY versions so that older versions are quick to rebuild.
+ * Chat attachments are saved on disk under <root>/public/uploads/, as with the local backend.
+ */
+
+import Database from 'better-sqlite3';
+import nodePath from 'path';
+import crypto from 'crypto';
+import { StorageConflictError, type StorageAdapter, type CommitInfo, type CommitDetails, type FileWrite } from './index';
+import { createLocalStorage } from './local';
+
+type ColumnType = 'text' | 'real' | 'integer' | 'boolean' | 'json';
+
+interface TableSpec {
+  table: string;
+  /** [record field, column name, column type] */
+  columns: Array<[string, string, ColumnType]>;
+  /** Columns to index for lookups by member, loan or date */
+  indexes?: string[];
+}
+
+const TABLES: Record<string, TableSpec> = {
+  'data/members.json': {
+    table: 'members',
+    columns: [
+      ['id', 'id', 'text'],
+      ['name', 'name', 'text'],
+      ['phone', 'phone', 'text'],
+      ['joinDate', 'join_date', 'text'],
+      ['address', 'address', 'text'],
+      ['isActive', 'is_active', 'boolean'],
+    ],
+  },
+  'data/savings.json': {
+    table: 'savings',
+    columns: [
+      ['id', 'id', 'text'],
+      ['memberId', 'member_id', 'text'],
+      ['amount', 'amount', 'integer'],
+      ['date', 'date', 'text'],
+      ['remarks', 'remarks', 'text'],
+    ],
+    indexes: ['member_id', 'date'],
+  },
+  'data/loans.json': {
+    table: 'loans',
+    columns: [
+      ['id', 'id', 'text'],
+      ['memberId', 'member_id', 'text'],
+      ['principal', 'principal', 'integer'],
+      ['interestRate', 'interest_rate', 'real'],
+      ['startDate', 'start_date', 'text'],
+      ['termMonths', 'term_months', 'integer'],
+      ['purpose', 'purpose', 'text'],
+      ['status', 'status', 'text'],
+    ],
+    indexes: ['member_id'],
+  },
+  'data/payments.json': {
+    table: 'payments',
+    columns: [
+      ['id', 'id', 'text'],
+      ['loanId', 'loan_id', 'text'],
+      ['memberId', 'member_id', 'text'],
+      ['date', 'date', 'text'],
+      ['principalPaid', 'principal_paid', 'integer'],
+      ['interestPaid', 'interest_paid', 'integer'],
+      ['remarks', 'remarks', 'text'],
+    ],
+    indexes: ['loan_id', 'member_id', 'date'],
+  },
+  'data/fines.json': {
+    table: 'fines',
+    columns: [
+      ['id', 'id', 'text'],
+      ['memberId', 'member_id', 'text'],
+      ['date', 'date', 'text'],
+      ['amount', 'amount', 'integer'],
+      ['reason', 'reason', 'text'],
+      ['note', 'note', 'text'],
+    ],
+    indexes: ['member_id', 'date'],
+  },
+  'data/expenditures.json': {
+    table: 'expenditures',
+    columns: [
+      ['id', 'id', 'text'],
+      ['date', 'date', 'text'],
+      ['item', 'item', 'text'],
+      ['amount', 'amount', 'integer'],
+      ['note', 'note', 'text'],
+    ],
+    indexes: ['date'],
+  },
+  'data/chat-messages.json': {
+    table: 'chat_messages',
+    columns: [
+      ['id', 'id', 'text'],
+      ['sender', 'sender', 'text'],
+      ['text', 'text', 'text'],
+      ['timestamp', 'timestamp', 'text'],
+      ['edited', 'edited', 'boolean'],
+      ['attachment', 'attachment', 'json'],
+      ['seenBy', 'seen_by', 'json'],
+    ],
+  },
+};
+
+/** settings.json is an object: its `users` list goes to this table, any other keys to the files table */
+const SETTINGS_PATH = 'data/settings.json';
+const USERS: TableSpec = {
+  table: 'users',
+  columns: [
+    ['userId', 'user_id', 'text'],
+    ['name', 'name', 'text'],
+    ['password', 'password', 'text'],
+    ['role', 'role', 'text'],
+  ],
+};
+
+/** How many versions of a file go by in its history between two copies of its whole content */
+const SNAPSHOT_EVERY = 20;
+
+/** A collection as changed from its previous version: its new length and the records that differ */
+interface Delta {
+  length: number;
+  set: Record<number, any>;
+}
+
+const SQL_TYPES: Record<ColumnType, string> = {
+  text: 'TEXT',
+  real: 'REAL',
+  integer: 'INTEGER',
+  boolean: 'INTEGER',
+  json: 'TEXT',
+};
+
+function createTableSql({ table, columns, indexes = [] }: TableSpec): string {
+  const cols = columns.map(([, column, type]) => `${column} ${SQL_TYPES[type]}`).join(', ');
+  // Rows keep the order of the JSON array; ids are not unique keys so any stored data round-trips
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table} (position INTEGER PRIMARY KEY, ${cols}, extra TEXT);`,
+    `CREATE INDEX IF NOT EXISTS ${table}_${columns[0][1]} ON ${table} (${columns[0][1]});`,
+    ...indexes.map(column => `CREATE INDEX IF NOT EXISTS ${table}_${column} ON ${table} (${column});`),
+  ].join('\n');
+}
+
+const SCHEMA = `
+  -- Every stored path. Files kept in a table have in_table = 1 (content then holds the settings
+  -- keys other than users, or NULL for collections); other files are stored whole in content.
+  CREATE TABLE IF NOT EXISTS files (path TEXT PRIMARY KEY, content TEXT, in_table INTEGER NOT NULL DEFAULT 0);
+
+  CREATE TABLE IF NOT EXISTS commits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    sha TEXT NOT NULL UNIQUE,
+    parent TEXT,
+    message TEXT NOT NULL,
+    author_name TEXT NOT NULL,
+    author_email TEXT,
+    date TEXT NOT NULL
+  );
+  -- Each version holds either the whole file (content) or the changes since the previous one (delta)
+  CREATE TABLE IF NOT EXISTS commit_files (
+    commit_id INTEGER NOT NULL REFERENCES commits (id),
+    path TEXT NOT NULL,
+    content TEXT,
+    delta TEXT,
+    PRIMARY KEY (commit_id, path)
+  );
+  CREATE INDEX IF NOT EXISTS commit_files_path ON commit_files (path, commit_id);
+
+  ${[...Object.values(TABLES), USERS].map(createTableSql).join('\n')}
+`;
+
+/**
+ * Compute the git blob SHA-1 of file contents, as the local adapter does
+ */
+function blobSha(content: Buffer): string {
+  return crypto
+    .createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+function serialize(content: any): string {
+  return JSON.stringify(content, null, 2);
+}
+
+/**
+ * The records of a collection that changed from one version to the next; null for files that are
+ * not lists
+ */
+function diff(before: any, after: any): Delta | null {
+  if (!Array.isArray(before) || !Array.isArray(after)) return null;
+  const set: Record<number, any> = {};
+  after.forEach((record, i) => {
+    if (i >= before.length || JSON.stringify(record) !== JSON.stringify(before[i])) set[i] = record;
+  });
+  return { length: after.length, set };
+}
+
+function patch(before: any[], { length, set }: Delta): any[] {
+  return Array.from({ length }, (_, i) => (i in set ? set[i] : before[i]));
+}
+
+/** A file version as kept in the history */
+interface Version {
+  data: any;
+  /** Deltas applied since the last whole copy */
+  deltas: number;
+}
+
+/**
+ * The [content, delta] to store for a new version of a file: a delta on the previous version when
+ * there is one, the last whole copy is recent enough and the delta is the smaller of the two
+ */
+function historyEntry(previous: Version | undefined, file: string): [string | null, string | null] {
+  if (previous && previous.deltas + 1 < SNAPSHOT_EVERY) {
+    const delta = diff(previous.data, JSON.parse(file));
+    const encoded = delta && JSON.stringify(delta);
+    if (encoded && encoded.length < file.length) return [null, encoded];
+  }
+  return [file, null];
+}
+
+function fits(type: ColumnType, value: any): boolean {
+  switch (type) {
+    case 'text':
+      return typeof value === 'string';
+    case 'real':
+      return typeof value === 'number' && isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'json':
+      return value !== null && typeof value === 'object';
+  }
+}
+
+/**
+ * Split a record into column values and the `extra` JSON for everything else
+ * (unknown fields, nulls and values of an unexpected type)
+ */
+function toRow(spec: TableSpec, record: any, position: number): any[] {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return [position, ...spec.columns.map(() => null), JSON.stringify({ value: record })];
+  }
+
+  const extra: Record<string, any> = { ...record };
+  const values = spec.columns.map(([field, , type]) => {
+    const value = record[field];
+    if (!fits(type, value)) return null;
+    delete extra[field];
+    if (type === 'boolean') return value ? 1 : 0;
+    if (type === 'json') return JSON.stringify(value);
+    return value;
+  });
+
+  return [position, ...values, Object.keys(extra).length > 0 ? JSON.stringify({ fields: extra }) : null];
+}
+
+function fromRow(spec: TableSpec, row: any): any {
+  const extra = row.extra ? JSON.parse(row.extra) : null;
+  if (extra && 'value' in extra) return extra.value;
+
+  const record: Record<string, any> = {};
+  spec.columns.forEach(([field, column, type]) => {
+    const value = row[column];
+    if (value === null || value === undefined) return;
+    if (type === 'boolean') record[field] = value === 1;
+    else if (type === 'json') record[field] = JSON.parse(value);
+    else record[field] = value;
+  });
+
+  // Fields that were not stored in columns keep their place after the column fields
+  return extra?.fields ? { ...record, ...extra.fields } : record;
+}
+
+export interface SqliteStorageConfig {
+  /** Path of the database file */
+  file: string;
+  /** Directory under which chat attachments (public/uploads/) are saved */
+  root: string;
+}
+
+export function createSqliteStorage({ file, root }: SqliteStorageConfig): StorageAdapter {
+  const db = new Database(nodePath.resolve(file));
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  // Databases from before deltas were kept store every version whole; they are compacted once
+  const legacy = db.prepare('PRAGMA table_info(commit_files)').all() as Array<{ name: string }>;
+  const compact = legacy.length > 0 && !legacy.some(column => column.name === 'delta');
+  db.transaction(() => {
+    if (compact) db.exec('ALTER TABLE commit_files RENAME TO commit_files_full; DROP INDEX commit_files_path;');
+
+    // Tables whose columns changed type (money moved from REAL to INTEGER paisa) are rebuilt
+    const rebuilt = [...Object.values(TABLES), USERS].filter(spec => {
+      const existing = db.prepare(`PRAGMA table_info(${spec.table})`).all() as Array<{ name: string; type: string }>;
+      return (
+        existing.length > 0 &&
+        spec.columns.some(([, column, type]) => existing.find(c => c.name === column)?.type !== SQL_TYPES[type])
+      );
+    });
+    rebuilt.forEach(({ table }) => {
+      const indexes = db.prepare(`PRAGMA index_list(${table})`).all() as Array<{ name: string; origin: string }>;
+      indexes.filter(index => index.origin === 'c').forEach(index => db.exec(`DROP INDEX ${index.name}`));
+      db.exec(`ALTER TABLE ${table} RENAME TO ${table}_old`);
+    });
+
+    db.exec(SCHEMA);
+    rebuilt.forEach(({ table }) => {
+      const columns = (db.prepare(`PRAGMA table_info(${table}_old)`).all() as Array<{ name: string }>).map(c => c.name);
+      db.exec(`INSERT INTO ${table} (${columns.join(', ')}) SELECT ${columns.join(', ')} FROM ${table}_old; DROP TABLE ${table}_old;`);
+    });
+    if (!compact) return;
+
+    const insert = db.prepare('INSERT INTO commit_files (commit_id, path, content, delta) VALUES (?, ?, ?, ?)');
+    const versions: Record<string, Version> = {};
+    const rows = db
+      .prepare('SELECT commit_id, path, content FROM commit_files_full ORDER BY path, commit_id')
+      .all() as Array<{ commit_id: number; path: string; content: string }>;
+    for (const row of rows) {
+      const [content, delta] = historyEntry(versions[row.path], row.content);
+      insert.run(row.commit_id, row.path, content, delta);
+      versions[row.path] = { data: JSON.parse(row.content), deltas: delta ? versions[row.path].deltas + 1 : 0 };
+    }
+    db.exec('DROP TABLE commit_files_full');
+  })();
+
+  // Uploads are binary files served by Next.js, so they stay on disk
+  const uploads = createLocalStorage(root);
+
+  const readTable = (spec: TableSpec): any[] =>
+    db.prepare(`SELECT * FROM ${spec.table} ORDER BY position`).all().map(row => fromRow(spec, row));
+
+  const writeTable = (spec: TableSpec, list: any[]): void => {
+    db.prepare(`DELETE FROM ${spec.table}`).run();
+    const placeholders = ['position', ...spec.columns.map(c => c[1]), 'extra'];
+    const insert = db.prepare(
+      `INSERT INTO ${spec.table} (${placeholders.join(', ')}) VALUES (${placeholders.map(() => '?').join(', ')})`
+    );
+    list.forEach((record, i) => insert.run(toRow(spec, record, i)));
+  };
+
+  const readContent = (path: string): any => {
+    const row = db.prepare('SELECT content, in_table FROM files WHERE path = ?').get(path) as
+      | { content: string | null; in_table: number }
+      | undefined;
+    if (!row) return undefined;
+    if (!row.in_table) return JSON.parse(row.content as string);
+
+    if (path === SETTINGS_PATH) return { ...JSON.parse(row.content || '{}'), users: readTable(USERS) };
+    return readTable(TABLES[path]);
+  };
+
+  const writeContent = (path: string, content: any): void => {
+    const spec = TABLES[path];
+    let stored: string | null = serialize(content);
+    let inTable = false;
+
+    if (spec) {
+      writeTable(spec, Array.isArray(content) ? content : []);
+      if (Array.isArray(content)) {
+        stored = null;
+        inTable = true;
+      }
+    } else if (path === SETTINGS_PATH) {
+      const users = content && Array.isArray(content.users) ? content.users : [];
+      writeTable(USERS, users);
+      if (content && Array.isArray(content.users)) {
+        const { users: _, ...rest } = content;
+        stored = JSON.stringify(rest);
+        inTable = true;
+      }
+    }
+
+    db.prepare(
+      'INSERT INTO files (path, content, in_table) VALUES (?, ?, ?) ON CONFLICT (path) DO UPDATE SET content = excluded.content, in_table = excluded.in_table'
+    ).run(path, stored, inTable ? 1 : 0);
+  };
+
+  // Content as read back (fields stored in columns come first), which is what shas are computed from
+  const currentFile = (path: string): string | undefined => {
+    const content = readContent(path);
+    return content === undefined ? undefined : serialize(content);
+  };
+
+  const currentSha = (path: string): string | undefined => {
+    const file = currentFile(path);
+    return file === undefined ? undefined : blobSha(Buffer.from(file));
+  };
+
+  /**
+   * A file as it was at a commit (by row id), rebuilt from its last whole copy and the deltas since
+   */
+  const versionAt = (path: string, commitId: number): Version | undefined => {
+    const rows = db
+      .prepare(
+        `SELECT content, delta FROM commit_files
+         WHERE path = ? AND commit_id <= ? AND commit_id >= (
+           SELECT MAX(commit_id) FROM commit_files WHERE path = ? AND commit_id <= ? AND content IS NOT NULL
+         )
+         ORDER BY commit_id`
+      )
+      .all(path, commitId, path, commitId) as Array<{ content: string | null; delta: string | null }>;
+    if (rows.length === 0) return undefined;
+
+    return rows.slice(1).reduce<Version>(
+      (version, row) => ({ data: patch(version.data, JSON.parse(row.delta as string)), deltas: version.deltas + 1 }),
+      { data: JSON.parse(rows[0].content as string), deltas: 0 }
+    );
+  };
+
+  const toCommitInfo = (row: any): CommitInfo => ({
+    sha: row.sha,
+    message: row.message,
+    author: row.author_name,
+    email: row.author_email || undefined,
+    date: row.date,
+    parent: row.parent || undefined,
+  });
+
+  /**
+   * Write files and record them as one commit, all in a single transaction
+   */
+  const commitFiles = db.transaction((files: FileWrite[], commit: CommitDetails = {}): Record<string, string> => {
+    for (const file of files) {
+      if (file.sha && file.sha !== currentSha(file.path)) {
+        throw new StorageConflictError(file.path);
+      }
+    }
+
+    // A file written twice in one commit keeps its last content
+    const paths = Array.from(new Set(files.map(f => f.path)));
+    const previous: Record<string, Version | undefined> = {};
+    paths.forEach(path => {
+      previous[path] = versionAt(path, Number.MAX_SAFE_INTEGER);
+    });
+
+    const shas: Record<string, string> = {};
+    const stored: Record<string, string> = {};
+    files.forEach(file => {
+      writeContent(file.path, file.content);
+      stored[file.path] = currentFile(file.path) as string;
+      shas[file.path] = blobSha(Buffer.from(stored[file.path]));
+    });
+
+    const parent = (db.prepare('SELECT sha FROM commits ORDER BY id DESC LIMIT 1').get() as { sha: string } | undefined)?.sha;
+    // Stored in one format so dates compare correctly as text
+    const date = new Date(commit.author?.date || Date.now()).toISOString();
+    const message = commit.message || `Update ${files.map(f => f.path).join(', ')}`;
+    const sha = crypto
+      .createHash('sha1')
+      .update(`${parent || ''}\n${date}\n${message}\n${files.map(f => `${f.path} ${shas[f.path]}`).join('\n')}\n${crypto.randomUUID()}`)
+      .digest('hex');
+
+    const { lastInsertRowid } = db
+      .prepare('INSERT INTO commits (sha, parent, message, author_name, author_email, date) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(sha, parent || null, message, commit.author?.name || 'unknown', commit.author?.email || null, date);
+    const insertFile = db.prepare('INSERT INTO commit_files (commit_id, path, content, delta) VALUES (?, ?, ?, ?)');
+    paths.forEach(path => insertFile.run(lastInsertRowid, path, ...historyEntry(previous[path], stored[path])));
+
+    return shas;
+  });
+
+  return {
+    name: 'sqlite',
+    keepsHistory: true,
+
+    async read(path) {
+      const content = readContent(path);
+      if (content === undefined) return null;
+      return { data: content, sha: blobSha(Buffer.from(serialize(content))) };
+    },
+
+    async write(path, content, sha, commit) {
+      return commitFiles([{ path, content, sha }], commit)[path];
+    },
+
+    async writeMany(files, commit) {
+      return commitFiles(files, commit);
+    },
+
+    async list(path) {
+      const dir = path.replace(/\/+$/, '');
+      const rows = db
+        .prepare('SELECT path FROM files WHERE substr(path, 1, ?) = ? ORDER BY path')
+        .all(dir.length + 1, `${dir}/`) as Array<{ path: string }>;
+      // Only direct entries, like a directory listing
+      return rows.map(r => r.path).filter(p => !p.slice(dir.length + 1).includes('/'));
+    },
+
+    writeRaw(path, base64Content, sha, commit) {
+      return uploads.writeRaw(path, base64Content, sha, commit);
+    },
+
+    readRaw(path) {
+      return uploads.readRaw(path);
+    },
+
+    async history(path, { limit = 30, page = 1, until: untilDate } = {}) {
+      const dir = path.replace(/\/+$/, '');
+      const until = untilDate ? new Date(untilDate).toISOString() : null;
+      const rows = db
+        .prepare(
+          `SELECT DISTINCT c.* FROM commits c JOIN commit_files f ON f.commit_id = c.id
+           WHERE (f.path = ? OR substr(f.path, 1, ?) = ?) AND (? IS NULL OR c.date <= ?)
+           ORDER BY c.id DESC LIMIT ? OFFSET ?`
+        )
+        .all(dir, dir.length + 1, `${dir}/`, until, until, limit, (page - 1) * limit);
+      return rows.map(toCommitInfo);
+    },
+
+    async readAt(path, ref) {
+      const commit = db.prepare('SELECT id FROM commits WHERE sha = ?').get(ref) as { id: number } | undefined;
+      const version = commit && versionAt(path, commit.id);
+      if (!version) return null;
+      return { data: version.data, sha: blobSha(Buffer.from(serialize(version.data))) };
+    },
+
+    async commitFiles(ref) {
+      const rows = db
+        .prepare('SELECT f.path FROM commit_files f JOIN commits c ON c.id = f.commit_id WHERE c.sha = ? ORDER BY f.path')
+        .all(ref) as Array<{ path: string }>;
+      return rows.map(r => r.path);
+    },
+  };
+}
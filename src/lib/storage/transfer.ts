@@ -0,0 +1,121 @@
+/**
+ * Move data between the JSON repository (GitHub or local files) and the SQLite backend
+ * Importing replays every commit that changed data/ oldest first, so the SQLite history keeps
+ * the original messages, authors and dates, then copies the current version of every data and
+ * backup file. Exporting writes the current SQLite data back out as JSON files in one commit.
+ * This should be called from backend API routes only.
+ */
+
+import type { StorageAdapter, FileWrite, CommitDetails } from './index';
+import { BACKUP_DIR, SETTINGS_PATH } from '@/lib/access';
+import { COLLECTIONS } from '@/lib/records';
+import { jsonEqual } from '@/lib/merge';
+import { META_PATH } from '@/lib/migrations';
+
+const DIRS = ['data', BACKUP_DIR];
+const PAGE_SIZE = 100;
+
+/**
+ * Thrown when a transfer cannot start, e.g. importing into a database that already has data
+ */
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export interface TransferReport {
+  /** Commits copied from the source's history */
+  commits: number;
+  /** Files written by the final copy of the current data */
+  files: number;
+}
+
+async function listJsonFiles(storage: StorageAdapter): Promise<string[]> {
+  const lists = await Promise.all(DIRS.map(dir => storage.list(dir)));
+  return lists.flat().filter(path => path.endsWith('.json'));
+}
+
+/**
+ * Write the source's current version of every file that differs in the target, as one commit
+ */
+async function copyChangedFiles(source: StorageAdapter, target: StorageAdapter, commit: CommitDetails): Promise<number> {
+  const files: FileWrite[] = [];
+  for (const path of await listJsonFiles(source)) {
+    const [from, to] = await Promise.all([source.read(path), target.read(path)]);
+    if (from && (!to || !jsonEqual(from.data, to.data))) {
+      files.push({ path, content: from.data, sha: to?.sha });
+    }
+  }
+
+  if (files.length > 0) {
+    await target.writeMany(files, commit);
+  }
+  return files.length;
+}
+
+/**
+ * Copy the JSON repository into an empty SQLite database, history first
+ */
+export async function importFromJson(
+  source: StorageAdapter,
+  target: StorageAdapter,
+  commit: CommitDetails
+): Promise<TransferReport> {
+  // data/meta.json may already be there from the startup migration check; the records may not
+  const existing = await Promise.all([...Object.values(COLLECTIONS), SETTINGS_PATH].map(path => target.read(path)));
+  if (existing.some(Boolean)) {
+    throw new TransferError('The SQLite database already has data; import only runs into an empty database');
+  }
+
+  let commits = 0;
+  if (source.keepsHistory) {
+    const history = [];
+    for (let page = 1; ; page++) {
+      const batch = await source.history('data', { limit: PAGE_SIZE, page });
+      history.push(...batch);
+      if (batch.length < PAGE_SIZE) break;
+    }
+
+    for (const entry of history.reverse()) {
+      const files: FileWrite[] = [];
+      for (const path of await source.commitFiles(entry.sha)) {
+        if (!path.startsWith('data/') || !path.endsWith('.json')) continue;
+        // Files deleted by the commit (or not valid JSON) read as null and are skipped
+        const file = await source.readAt(path, entry.sha);
+        if (file) files.push({ path, content: file.data });
+      }
+      if (files.length === 0) continue;
+
+      await target.writeMany(files, {
+        message: entry.message,
+        author: { name: entry.author, email: entry.email || '', date: entry.date },
+      });
+      commits++;
+    }
+  }
+
+  const files = await copyChangedFiles(source, target, commit);
+
+  // The startup migration check stamps the empty database with the current schema version. Data
+  // without a meta.json is at version 0, so mark it as such for the migrations run after the import.
+  const [sourceMeta, targetMeta] = await Promise.all([source.read(META_PATH), target.read(META_PATH)]);
+  if (!sourceMeta && targetMeta) {
+    await target.write(META_PATH, { schemaVersion: 0 }, targetMeta.sha, commit);
+  }
+
+  return { commits, files };
+}
+
+/**
+ * Write the current data back to the JSON repository
+ */
+export async function exportToJson(
+  source: StorageAdapter,
+  target: StorageAdapter,
+  commit: CommitDetails
+): Promise<TransferReport> {
+  const files = await copyChangedFiles(source, target, commit);
+  return { commits: 0, files };
+}
@@ -0,0 +1,100 @@
+/**
+ * User management on data/settings.json
+ * Passwords are hashed here on the server, and users are only ever returned without their hash.
+ * This should be called from backend API routes only.
+ */
+
+import { StorageConflictError, type StorageAdapter } from '@/lib/storage';
+import { hashPassword, type User } from '@/lib/auth';
+import { commitDetails, type Actor } from '@/lib/audit';
+import { RecordError } from '@/lib/records';
+import { SETTINGS_PATH } from '@/lib/access';
+import { validateSettings, ValidationError } from '@/lib/schema';
+import type { Settings } from '@/types';
+
+export type PublicUser = Omit<User, 'password'>;
+
+const MAX_ATTEMPTS = 3;
+
+function toPublicUser({ userId, name, role }: User): PublicUser {
+  return { userId, name, role };
+}
+
+async function readSettings(storage: StorageAdapter): Promise<{ settings: Settings; sha?: string }> {
+  const file = await storage.read<Settings>(SETTINGS_PATH);
+  const settings = file?.data && Array.isArray(file.data.users) ? file.data : { ...file?.data, users: [] };
+  return { settings, sha: file?.sha };
+}
+
+/**
+ * Read the latest settings, change the users and write them back (retrying if someone saved in between)
+ */
+async function modifyUsers(
+  storage: StorageAdapter,
+  actor: Actor,
+  message: string,
+  change: (users: User[]) => User[]
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const { settings, sha } = await readSettings(storage);
+    const updated: Settings = { ...settings, users: change(settings.users) };
+    validateSettings(updated);
+
+    try {
+      await storage.write(SETTINGS_PATH, updated, sha, commitDetails(message, actor));
+      return;
+    } catch (error: any) {
+      if (attempt >= MAX_ATTEMPTS || !(error instanceof StorageConflictError)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * All users, without password hashes
+ */
+export async function listUsers(storage: StorageAdapter): Promise<PublicUser[]> {
+  const { settings } = await readSettings(storage);
+  return settings.users.map(toPublicUser);
+}
+
+/**
+ * Add a user with a plain-text password, which is hashed before it is stored
+ */
+export async function addUser(
+  storage: StorageAdapter,
+  user: { userId: string; name: string; password: string; role: User['role'] },
+  actor: Actor
+): Promise<PublicUser> {
+  if (typeof user.password !== 'string' || !user.password) {
+    throw new ValidationError('Password is required', { password: 'Password is required' });
+  }
+
+  const created: User = {
+    userId: String(user.userId || '').trim(),
+    name: String(user.name || '').trim(),
+    password: await hashPassword(user.password),
+    role: user.role,
+  };
+
+  await modifyUsers(storage, actor, `settings: add user ${created.userId}`, users => {
+    if (users.some(u => u.userId === created.userId)) {
+      throw new ValidationError('User ID already exists', { userId: 'User ID already exists' }, created.userId);
+    }
+    return [...users, created];
+  });
+  return toPublicUser(created);
+}
+
+/**
+ * Remove a user
+ */
+export async function deleteUser(storage: StorageAdapter, userId: string, actor: Actor): Promise<void> {
+  await modifyUsers(storage, actor, `settings: delete user ${userId}`, users => {
+    if (!users.some(u => u.userId === userId)) {
+      throw new RecordError(`User ${userId} not found`, 404);
+    }
+    return users.filter(u => u.userId !== userId);
+  });
+}
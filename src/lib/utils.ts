@@ -2,14 +2,13 @@
  * Utility functions
  */
 
+import { formatRupees, type Paisa } from '@/lib/money';
+
 /**
- * Format currency with thousand separators and "Rs" prefix
+ * Format an amount in paisa with thousand separators and "Rs" prefix (see formatRupees for `fixed`)
  */
-export function formatCurrency(amount: number): string {
-  return `Rs ${new Intl.NumberFormat('en-US', {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount)}`;
+export function formatCurrency(amount: Paisa, options: { fixed?: boolean } = {}): string {
+  return `Rs ${formatRupees(amount, options)}`;
 }
 
 /**
@@ -19,6 +18,13 @@ export function formatNumber(num: number): string {
   return new Intl.NumberFormat('en-US').format(num);
 }
 
+/**
+ * Format a share (0 to 1) as a percentage with one decimal, e.g. "12.5%"
+ */
+export function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
 /**
  * Generate unique Member ID (M-0001, M-0002, etc.)
  */
@@ -34,26 +40,6 @@ export function generateMemberId(existingIds: string[]): string {
   return `M-${String(nextNum).padStart(4, '0')}`;
 }
 
-/**
- * Calculate loan outstanding principal
- */
-export function calculateOutstandingPrincipal(
-  principal: number,
-  interestRate: number,
-  termMonths: number,
-  payments: Array<{ principalPaid: number; interestPaid: number; date: string }>
-): number {
-  const totalPrincipalPaid = payments.reduce((sum, p) => sum + p.principalPaid, 0);
-  return Math.max(0, principal - totalPrincipalPaid);
-}
-
-/**
- * Calculate monthly interest payment
- */
-export function calculateMonthlyInterest(principal: number, annualRate: number): number {
-  return (principal * annualRate) / 100 / 12;
-}
-
 /**
  * Format date for display
  */
@@ -72,3 +58,39 @@ export function formatDate(date: string | Date): string {
 export function getCurrentDate(): string {
   return new Date().toISOString().split('T')[0];
 }
+
+/**
+ * Whether a record has been moved to the recycle bin
+ */
+export function isDeleted(record: unknown): boolean {
+  return !!record && typeof (record as { deletedAt?: unknown }).deletedAt === 'string';
+}
+
+/**
+ * The records of a list that are not in the recycle bin
+ */
+export function withoutDeleted<T extends { deletedAt?: string }>(list: T[]): T[] {
+  return list.filter(record => !isDeleted(record));
+}
+
+/**
+ * Describe record counts per collection, e.g. "2 loans and 5 savings"
+ */
+export function describeCounts(counts: Partial<Record<string, number>>): string {
+  const parts = Object.entries(counts).map(([collection, count]) => `${count} ${collection}`);
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts.join('');
+}
+
+/**
+ * Where a scanned loan document is stored: outside public/, so only the download route serves it
+ */
+export function loanDocumentPath(loanId: string, name: string): string {
+  return `uploads/loans/${loanId.replace(/[^a-zA-Z0-9._-]/g, '_')}/${name}`;
+}
+
+/**
+ * The URL a loan document is downloaded from (GET /api/loans/{id}/documents/{name})
+ */
+export function loanDocumentUrl(loanId: string, name: string): string {
+  return `/api/loans/${encodeURIComponent(loanId)}/documents/${name}`;
+}
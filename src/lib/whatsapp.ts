@@ -1,7 +1,11 @@
 /**
  * WhatsApp messaging service using SendWo
+ * Amounts are passed in paisa.
  */
 
+import { formatRupees, type Paisa } from '@/lib/money';
+import type { LoanStatus } from '@/types';
+
 const sendWoApiKey = process.env.SENDWO_API_KEY;
 const sendWoBaseUrl = process.env.SENDWO_BASE_URL || 'https://api.sendwo.com';
 const whatsappNumber = process.env.SENDWO_WHATSAPP_NUMBER;
@@ -85,30 +89,59 @@ function formatPhoneNumber(phone: string): string {
   return cleaned;
 }
 
+const LOAN_MESSAGES: Partial<Record<LoanStatus, { title: string; text: string; footer: string }>> = {
+  applied: {
+    title: '📝 *Loan Application Received',
+    text: 'Your loan application has been received and will be reviewed by the committee.',
+    footer: 'We will let you know once a decision has been made.',
+  },
+  approved: {
+    title: '🎉 *Loan Approved',
+    text: 'Your loan application has been approved!',
+    footer: 'Please contact the office for disbursement details.',
+  },
+  disbursed: {
+    title: '💵 *Loan Disbursed',
+    text: 'Your loan has been disbursed. Repayments are due monthly from the start date below.',
+    footer: 'Please keep this message for your records.',
+  },
+  rejected: {
+    title: '❌ *Loan Application Rejected',
+    text: 'We are sorry, your loan application has not been approved.',
+    footer: 'Please contact the office if you have any questions.',
+  },
+};
+
 /**
- * Send loan approval notification
+ * Send a notification for a step of a loan application: received, approved, disbursed or rejected.
+ * Other statuses send nothing (returns false).
  */
 export async function sendLoanNotification(phone: string, memberName: string, loanDetails: {
   id: string;
-  principal: number;
+  principal: Paisa;
   interestRate: number;
   termMonths: number;
   startDate: string;
+  status: LoanStatus;
+  comment?: string;
 }): Promise<boolean> {
-  const message = `🎉 *Loan Approved - श्री थलेस्वर महादेव युवा समूह*
+  const wording = LOAN_MESSAGES[loanDetails.status];
+  if (!wording) return false;
 
-Dear ${memberName},
+  const message = `${wording.title} - श्री थलेस्वर महादेव युवा समूह*
 
-Your loan application has been approved! 
+Dear ${memberName},
 
+${wording.text}
+${loanDetails.comment ? `\n💬 ${loanDetails.comment}\n` : ''}
 📋 *Loan Details:*
 • Loan ID: ${loanDetails.id}
-• Principal Amount: रू ${loanDetails.principal.toLocaleString()}
+• Principal Amount: रू ${formatRupees(loanDetails.principal)}
 • Interest Rate: ${loanDetails.interestRate}%
 • Term: ${loanDetails.termMonths} months
 • Start Date: ${loanDetails.startDate}
 
-Please contact the office for disbursement details.
+${wording.footer}
 
 *श्री थलेस्वर महादेव युवा समूह*
 Thank you for choosing us! 🙏`;
@@ -123,8 +156,8 @@ export async function sendPaymentNotification(phone: string, memberName: string,
   id: string;
   loanId: string;
   date: string;
-  principalPaid: number;
-  interestPaid: number;
+  principalPaid: Paisa;
+  interestPaid: Paisa;
   remarks?: string;
 }): Promise<boolean> {
   const totalPaid = paymentDetails.principalPaid + paymentDetails.interestPaid;
@@ -139,9 +172,9 @@ Your payment has been successfully received!
 • Payment ID: ${paymentDetails.id}
 • Loan ID: ${paymentDetails.loanId}
 • Date: ${paymentDetails.date}
-• Principal Paid: रू ${paymentDetails.principalPaid.toLocaleString()}
-• Interest Paid: रू ${paymentDetails.interestPaid.toLocaleString()}
-• Total Paid: रू ${totalPaid.toLocaleString()}
+• Principal Paid: रू ${formatRupees(paymentDetails.principalPaid)}
+• Interest Paid: रू ${formatRupees(paymentDetails.interestPaid)}
+• Total Paid: रू ${formatRupees(totalPaid)}
 ${paymentDetails.remarks ? `• Remarks: ${paymentDetails.remarks}` : ''}
 
 Thank you for your timely payment! 🙏
@@ -157,8 +190,8 @@ Thank you for your timely payment! 🙏
 export async function sendSavingsNotification(phone: string, memberName: string, savingsDetails: {
   id: string;
   date: string;
-  amount: number;
-  balance: number;
+  amount: Paisa;
+  balance: Paisa;
 }): Promise<boolean> {
   const message = `💸 *Savings Deposit Confirmed - श्री थलेस्वर महादेव युवा समूह*
 
@@ -169,8 +202,8 @@ Your savings deposit has been recorded successfully!
 📋 *Deposit Details:*
 • Transaction ID: ${savingsDetails.id}
 • Date: ${savingsDetails.date}
-• Amount Deposited: रू ${savingsDetails.amount.toLocaleString()}
-• Current Balance: रू ${savingsDetails.balance.toLocaleString()}
+• Amount Deposited: रू ${formatRupees(savingsDetails.amount)}
+• Current Balance: रू ${formatRupees(savingsDetails.balance)}
 
 Keep saving for a brighter future! 🌟
 
@@ -185,7 +218,7 @@ Keep saving for a brighter future! 🌟
 export async function sendFineNotification(phone: string, memberName: string, fineDetails: {
   id: string;
   date: string;
-  amount: number;
+  amount: Paisa;
   reason: string;
 }): Promise<boolean> {
   const message = `⚠️ *Fine Applied - श्री थलेस्वर महादेव युवा समूह*
@@ -197,7 +230,7 @@ A fine has been applied to your account.
 📋 *Fine Details:*
 • Fine ID: ${fineDetails.id}
 • Date: ${fineDetails.date}
-• Amount: रू ${fineDetails.amount.toLocaleString()}
+• Amount: रू ${formatRupees(fineDetails.amount)}
 • Reason: ${fineDetails.reason}
 
 Please clear the fine at the earliest to avoid additional charges.
@@ -213,7 +246,7 @@ Please clear the fine at the earliest to avoid additional charges.
 export async function sendExpenditureNotification(phone: string, memberName: string, expenditureDetails: {
   id: string;
   date: string;
-  amount: number;
+  amount: Paisa;
   description: string;
   category: string;
 }): Promise<boolean> {
@@ -226,7 +259,7 @@ A new expenditure has been recorded in our group funds.
 📋 *Expenditure Details:*
 • Transaction ID: ${expenditureDetails.id}
 • Date: ${expenditureDetails.date}
-• Amount: रू ${expenditureDetails.amount.toLocaleString()}
+• Amount: रू ${formatRupees(expenditureDetails.amount)}
 • Category: ${expenditureDetails.category}
 • Description: ${expenditureDetails.description}
 
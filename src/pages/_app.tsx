@@ -1,6 +1,7 @@
 import type { AppProps } from 'next/app';
 import { AuthProvider } from '@/hooks/useAuth';
 import { Toaster } from 'react-hot-toast';
+import ConflictDialog from '@/components/ConflictDialog';
 import '@/styles/globals.css';
 
 export default function App({ Component, pageProps }: AppProps) {
@@ -8,6 +9,7 @@ export default function App({ Component, pageProps }: AppProps) {
     <AuthProvider>
       <Component {...pageProps} />
       <Toaster position="top-right" />
+      <ConflictDialog />
     </AuthProvider>
   );
 }
@@ -4,7 +4,7 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { verifyPassword, generateToken } from '@/lib/auth';
-import { readGitHubFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
 import type { Settings } from '@/types';
 
 export default async function handler(
@@ -21,17 +21,9 @@ export default async function handler(
     return res.status(400).json({ error: 'UserId and password are required' });
   }
 
-  const token = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
-  if (!token || !owner || !repo) {
-    return res.status(500).json({ error: 'GitHub configuration missing' });
-  }
-
   try {
     // Read settings to get users
-    const result = await readGitHubFile('data/settings.json', token, owner, repo);
+    const result = await getStorage().read('data/settings.json');
     const settings: Settings | null = result?.data || null;
     
     // Bootstrap fallback: if no users configured yet, allow default admin login
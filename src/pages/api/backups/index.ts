@@ -0,0 +1,51 @@
+/**
+ * API Route: Server backups (Admin only)
+ *
+ * GET  /api/backups  - list backup files
+ * POST /api/backups  - back up all data files, including settings, to a new file in backups/
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { getActor } from '@/lib/audit';
+import { listBackups, createBackup } from '@/lib/backup';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can manage backups' });
+  }
+
+  try {
+    const storage = getStorage();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ data: await listBackups(storage) });
+    }
+
+    const actor = await getActor(storage, payload);
+    const path = await createBackup(storage, actor);
+    res.status(200).json({ data: { path } });
+  } catch (error: any) {
+    console.error('Backup error:', error);
+    res.status(500).json({ error: error.message || 'Failed to process backup request' });
+  }
+}
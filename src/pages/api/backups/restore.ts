@@ -0,0 +1,66 @@
+/**
+ * API Route: Restore all data files from a backup (Admin only)
+ *
+ * POST /api/backups/restore
+ * Body: { path: 'backups/backup-<timestamp>.json' } for a server backup,
+ *   or { backup: { members, savings, ... } } for a backup file uploaded in the browser
+ * Every collection and the settings are replaced in one commit, after migrating older backups
+ * to the current schema version. Uploaded backups are validated (400 with fieldErrors).
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { getActor } from '@/lib/audit';
+import { isBackupPath, restoreBackup, restoreUploadedBackup } from '@/lib/backup';
+import { ValidationError, IntegrityError } from '@/lib/schema';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can restore backups' });
+  }
+
+  const { path, backup } = req.body || {};
+  const uploaded = backup && typeof backup === 'object' && !Array.isArray(backup);
+  if (!uploaded && !isBackupPath(path)) {
+    return res.status(400).json({ error: 'A backup file path or backup data is required' });
+  }
+
+  try {
+    const storage = getStorage();
+    const actor = await getActor(storage, payload);
+    if (uploaded) {
+      await restoreUploadedBackup(storage, backup, actor);
+    } else if (!(await restoreBackup(storage, path, actor))) {
+      return res.status(404).json({ error: 'Backup file not found' });
+    }
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    if (error instanceof IntegrityError) {
+      return res.status(409).json({ error: error.message, recordId: error.recordId, dependents: error.dependents });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    console.error('Backup restore error:', error);
+    res.status(500).json({ error: error.message || 'Failed to restore backup' });
+  }
+}
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { readGitHubFile, writeGitHubFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
 import { verifyToken, isAdmin } from '@/lib/auth';
+import { getActor, commitDetails } from '@/lib/audit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -10,22 +11,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { id } = req.body || {};
   if (!id) return res.status(400).json({ error: 'Id required' });
 
-  const token = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
   const authHeader = req.headers.authorization;
   const userToken = authHeader?.split(' ')[1];
   if (!userToken) return res.status(401).json({ error: 'Authentication required' });
   const user = verifyToken(userToken);
   if (!user) return res.status(401).json({ error: 'Invalid token' });
 
-  if (!token || !owner || !repo) {
-    return res.status(500).json({ error: 'GitHub configuration missing' });
-  }
-
   try {
-    const result = await readGitHubFile('data/chat-messages.json', token, owner, repo);
+    const storage = getStorage();
+    const result = await storage.read('data/chat-messages.json');
     const list = result?.data ?? [];
     const sha = result?.sha;
 
@@ -39,7 +33,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     const filtered = list.filter((m: any) => m.id !== id);
 
-    await writeGitHubFile('data/chat-messages.json', filtered, token, owner, repo, sha);
+    const actor = await getActor(storage, user);
+    await storage.write('data/chat-messages.json', filtered, sha, commitDetails(`chat: delete message ${id}`, actor));
 
     res.status(200).json({ success: true });
   } catch (error: any) {
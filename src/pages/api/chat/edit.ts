@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { readGitHubFile, writeGitHubFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
 import { verifyToken } from '@/lib/auth';
+import { getActor, commitDetails } from '@/lib/audit';
 
 type Message = {
   id: string;
@@ -20,22 +21,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ error: 'Id and text are required' });
   }
 
-  const token = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
   const authHeader = req.headers.authorization;
   const userToken = authHeader?.split(' ')[1];
   if (!userToken) return res.status(401).json({ error: 'Authentication required' });
   const user = verifyToken(userToken);
   if (!user) return res.status(401).json({ error: 'Invalid token' });
 
-  if (!token || !owner || !repo) {
-    return res.status(500).json({ error: 'GitHub configuration missing' });
-  }
-
   try {
-    const result = await readGitHubFile('data/chat-messages.json', token, owner, repo);
+    const storage = getStorage();
+    const result = await storage.read('data/chat-messages.json');
     const list: Message[] = result?.data ?? [];
     const sha = result?.sha;
 
@@ -52,7 +46,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     list[idx].edited = true;
     list[idx].timestamp = new Date().toISOString();
 
-    await writeGitHubFile('data/chat-messages.json', list, token, owner, repo, sha);
+    const actor = await getActor(storage, user);
+    await storage.write('data/chat-messages.json', list, sha, commitDetails(`chat: edit message ${id}`, actor));
 
     res.status(200).json(list[idx]);
   } catch (error: any) {
@@ -1,21 +1,19 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { readGitHubFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
+import { verifyToken } from '@/lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const token = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
-  if (!token || !owner || !repo) {
-    return res.status(500).json({ error: 'GitHub configuration missing' });
-  }
+  const authHeader = req.headers.authorization;
+  const authToken = authHeader?.split(' ')[1];
+  if (!authToken) return res.status(401).json({ error: 'Authentication required' });
+  if (!verifyToken(authToken)) return res.status(401).json({ error: 'Invalid token' });
 
   try {
-    const result = await readGitHubFile('data/chat-messages.json', token, owner, repo);
+    const result = await getStorage().read('data/chat-messages.json');
     const data = result?.data ?? [];
     res.status(200).json(data);
   } catch (error: any) {
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { readGitHubFile, writeGitHubFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
 import { verifyToken } from '@/lib/auth';
+import { getActor, commitDetails } from '@/lib/audit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -14,16 +15,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (!payload) return res.status(401).json({ error: 'Invalid token' });
   const userId = payload.userId;
 
-  const githubToken = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
-  if (!githubToken || !owner || !repo) {
-    return res.status(500).json({ error: 'GitHub configuration missing' });
-  }
-
   try {
-    const result = await readGitHubFile('data/chat-messages.json', githubToken, owner, repo);
+    const storage = getStorage();
+    const result = await storage.read('data/chat-messages.json');
     const list = result?.data ?? [];
     const sha = result?.sha;
 
@@ -38,7 +32,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
 
     if (changed) {
-      await writeGitHubFile('data/chat-messages.json', updated, githubToken, owner, repo, sha);
+      const actor = await getActor(storage, payload);
+      await storage.write('data/chat-messages.json', updated, sha, commitDetails('chat: mark messages seen', actor));
     }
 
     res.status(200).json({ success: true });
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { readGitHubFile, writeGitHubFile, writeRawFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
 import { verifyToken } from '@/lib/auth';
+import { getActor, commitDetails } from '@/lib/audit';
 
 type Message = {
   id: string;
@@ -31,16 +32,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   if (!payload) return res.status(401).json({ error: 'Invalid token' });
   const sender = payload.userId;
 
-  const githubToken = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
-  if (!githubToken || !owner || !repo) {
-    return res.status(500).json({ error: 'GitHub configuration missing' });
-  }
-
   try {
-    const result = await readGitHubFile('data/chat-messages.json', githubToken, owner, repo);
+    const storage = getStorage();
+    const actor = await getActor(storage, payload);
+    const result = await storage.read('data/chat-messages.json');
     const list: Message[] = result?.data ?? [];
     const sha = result?.sha;
 
@@ -54,11 +49,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const filename = `${Date.now()}-${attachment.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
       const path = `public/uploads/${filename}`;
 
-      // write file to GitHub using raw content (attachment.data must be base64)
-      await writeRawFile(path, attachment.data, githubToken, owner, repo);
-
-      // raw.githubusercontent URL
-      const url = `https://raw.githubusercontent.com/${owner}/${repo}/main/${path}`;
+      // write file to storage using raw content (attachment.data must be base64)
+      const url = await storage.writeRaw(path, attachment.data, undefined, commitDetails(`uploads: add ${filename}`, actor));
       attachmentInfo = { name: attachment.name, url, type: attachment.type };
     }
 
@@ -72,7 +64,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     list.push(newMsg);
 
-    await writeGitHubFile('data/chat-messages.json', list, githubToken, owner, repo, sha);
+    await storage.write('data/chat-messages.json', list, sha, commitDetails(`chat: send message ${newMsg.id}`, actor));
 
     res.status(200).json(newMsg);
   } catch (error: any) {
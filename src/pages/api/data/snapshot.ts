@@ -0,0 +1,83 @@
+/**
+ * API Route: Several collections in one request
+ *
+ * GET /api/data/snapshot?collections=members,loans,payments
+ * Returns { data: { members: [...], ... }, shas: { members: '...', ... } } for the requested
+ * collections (all of them if none are named). The response carries an ETag built from the
+ * shas; a request with a matching If-None-Match gets 304 Not Modified and no body.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import crypto from 'crypto';
+import { getStorage } from '@/lib/storage';
+import { verifyToken } from '@/lib/auth';
+import { canRead } from '@/lib/access';
+import { COLLECTIONS, isCollection, type CollectionName } from '@/lib/records';
+import { ensureMigrated } from '@/lib/migrations';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const requested = typeof req.query.collections === 'string' && req.query.collections.trim()
+    ? req.query.collections.split(',').map(name => name.trim())
+    : Object.keys(COLLECTIONS);
+  const unknown = requested.filter(name => !isCollection(name));
+  if (unknown.length > 0) {
+    return res.status(400).json({ error: `Unknown collection: ${unknown.join(', ')}` });
+  }
+  const names = Array.from(new Set(requested)) as CollectionName[];
+
+  const denied = names.find(name => !canRead(payload.role, COLLECTIONS[name]));
+  if (denied) {
+    return res.status(403).json({ error: `Not allowed to read ${COLLECTIONS[denied]}` });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const files = await Promise.all(names.map(name => storage.read<any[]>(COLLECTIONS[name])));
+
+    const data: Partial<Record<CollectionName, any[]>> = {};
+    const shas: Partial<Record<CollectionName, string>> = {};
+    names.forEach((name, i) => {
+      data[name] = Array.isArray(files[i]?.data) ? files[i]!.data : [];
+      if (files[i]?.sha) shas[name] = files[i]!.sha;
+    });
+
+    const etag = `"${crypto
+      .createHash('sha1')
+      .update(names.map(name => `${name}:${shas[name] || ''}`).join('\n'))
+      .digest('hex')}"`;
+    res.setHeader('ETag', etag);
+    // Responses differ per user token, and must be revalidated on every load
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === etag)) {
+      return res.status(304).end();
+    }
+
+    // Sent directly: res.json would replace the ETag with a hash of the body
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.status(200).end(JSON.stringify({ data, shas }));
+  } catch (error: any) {
+    console.error('Snapshot read error:', error);
+    res.status(500).json({ error: error.message || 'Failed to read data' });
+  }
+}
@@ -1,9 +1,12 @@
 /**
- * API Route: List files in GitHub directory
+ * API Route: List files in a storage directory
+ * Only allowlisted directories can be listed (see lib/access)
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { listGitHubFiles } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
+import { verifyToken } from '@/lib/auth';
+import { canList } from '@/lib/access';
 
 export default async function handler(
   req: NextApiRequest,
@@ -13,24 +16,29 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
   const { path } = req.body;
 
   if (!path) {
     return res.status(400).json({ error: 'Path is required' });
   }
 
-  const token = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
-  if (!token || !owner || !repo) {
-    return res.status(500).json({ 
-      error: 'GitHub configuration missing' 
-    });
+  if (!canList(payload.role, path)) {
+    return res.status(403).json({ error: `Not allowed to list ${path}` });
   }
 
   try {
-    const files = await listGitHubFiles(path, token, owner, repo);
+    const files = await getStorage().list(path);
     res.status(200).json({ files });
   } catch (error: any) {
     console.error('GitHub list error:', error);
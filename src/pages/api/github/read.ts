@@ -1,10 +1,14 @@
 /**
- * API Route: Read JSON file from GitHub
- * This route proxies GitHub API calls to keep the token secure on the backend
+ * API Route: Read JSON file from storage
+ * This route proxies storage calls to keep the GitHub token secure on the backend
+ * Only allowlisted paths can be read (see lib/access); password hashes are removed
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { readGitHubFile } from '@/lib/github';
+import { getStorage } from '@/lib/storage';
+import { verifyToken } from '@/lib/auth';
+import { canRead, redactFile } from '@/lib/access';
+import { ensureMigrated } from '@/lib/migrations';
 
 export default async function handler(
   req: NextApiRequest,
@@ -14,28 +18,35 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
   const { path } = req.body;
 
   if (!path) {
     return res.status(400).json({ error: 'Path is required' });
   }
 
-  const token = process.env.GITHUB_TOKEN;
-  const owner = process.env.GITHUB_OWNER;
-  const repo = process.env.GITHUB_REPO;
-
-  if (!token || !owner || !repo) {
-    return res.status(500).json({ 
-      error: 'GitHub configuration missing. Please set GITHUB_TOKEN, GITHUB_OWNER, and GITHUB_REPO in environment variables.' 
-    });
+  if (!canRead(payload.role, path)) {
+    return res.status(403).json({ error: `Not allowed to read ${path}` });
   }
 
   try {
-    const result = await readGitHubFile(path, token, owner, repo);
-    res.status(200).json({ data: result?.data || null, sha: result?.sha });
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const result = await storage.read(path);
+    res.status(200).json({ data: redactFile(path, result?.data || null), sha: result?.sha });
   } catch (error: any) {
-    console.error('GitHub read error:', error);
-    res.status(500).json({ error: error.message || 'Failed to read file from GitHub' });
+    console.error('Storage read error:', error);
+    res.status(500).json({ error: error.message || 'Failed to read file' });
   }
 }
 
@@ -0,0 +1,47 @@
+/**
+ * API Route: Audit history of the data files
+ *
+ * GET /api/history?recordId=&page=&limit=
+ * Lists commits to data/*.json, newest first, with the records each one added, changed or removed.
+ * `recordId` narrows the list to one member, loan or other record.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken } from '@/lib/auth';
+import { getHistory } from '@/lib/history';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const recordId = typeof req.query.recordId === 'string' && req.query.recordId.trim()
+    ? req.query.recordId.trim()
+    : undefined;
+  const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+  const limit = Math.min(50, Math.max(1, parseInt(String(req.query.limit || '20'), 10) || 20));
+
+  try {
+    const storage = getStorage();
+    const { entries, hasMore } = await getHistory(storage, { recordId, page, limit });
+    res.status(200).json({ data: entries, hasMore, supported: storage.keepsHistory });
+  } catch (error: any) {
+    console.error('History error:', error);
+    res.status(500).json({ error: error.message || 'Failed to load history' });
+  }
+}
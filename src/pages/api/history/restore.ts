@@ -0,0 +1,86 @@
+/**
+ * API Route: Restore collections to a point in time
+ *
+ * POST /api/history/restore
+ * Body: { at: <ISO date>, sha: <commit from the preview>, collections: ['members', ...] }
+ * The selected collections are written back as they were at that commit, in one new commit.
+ * The restore is refused if it would leave records referring to ones that are not restored, or if
+ * the data changes while it is being checked.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage, StorageConflictError } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { isCollection, type CollectionName } from '@/lib/records';
+import { findCommitAt, restoreSnapshot } from '@/lib/history';
+import { getActor } from '@/lib/audit';
+import { ValidationError, IntegrityError } from '@/lib/schema';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can restore data' });
+  }
+
+  const { at, sha, collections } = req.body || {};
+
+  if (!at || isNaN(Date.parse(at))) {
+    return res.status(400).json({ error: 'A valid date and time is required' });
+  }
+  if (
+    !Array.isArray(collections) ||
+    collections.length === 0 ||
+    !collections.every((c: any) => isCollection(String(c)))
+  ) {
+    return res.status(400).json({ error: 'Select at least one collection to restore' });
+  }
+
+  try {
+    const storage = getStorage();
+    if (!storage.keepsHistory) {
+      return res.status(400).json({ error: 'Point-in-time restore needs the GitHub or SQLite storage backend' });
+    }
+
+    const commit = await findCommitAt(storage, new Date(at).toISOString());
+    if (!commit) {
+      return res.status(404).json({ error: 'No saved data exists from before that time' });
+    }
+    if (sha && commit.sha !== sha) {
+      return res.status(409).json({ error: 'The history for that time has changed. Preview it again before restoring.' });
+    }
+
+    const actor = await getActor(storage, payload);
+    await restoreSnapshot(storage, commit, collections as CollectionName[], actor);
+
+    res.status(200).json({ success: true, sha: commit.sha });
+  } catch (error: any) {
+    if (error instanceof StorageConflictError) {
+      return res.status(409).json({ error: `${error.message} during the restore. Preview it again and retry.` });
+    }
+    if (error instanceof IntegrityError) {
+      return res.status(409).json({ error: error.message, recordId: error.recordId, dependents: error.dependents });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    console.error('Restore error:', error);
+    res.status(500).json({ error: error.message || 'Failed to restore data' });
+  }
+}
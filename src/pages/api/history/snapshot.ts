@@ -0,0 +1,58 @@
+/**
+ * API Route: Preview the data as it was at a point in time
+ *
+ * GET /api/history/snapshot?at=<ISO date>
+ * Finds the last commit to the data files at or before `at` and compares each
+ * collection as of that commit with the current data.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { findCommitAt, getSnapshot } from '@/lib/history';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can restore data' });
+  }
+
+  const at = String(req.query.at || '');
+  if (!at || isNaN(Date.parse(at))) {
+    return res.status(400).json({ error: 'A valid date and time is required' });
+  }
+
+  try {
+    const storage = getStorage();
+    if (!storage.keepsHistory) {
+      return res.status(400).json({ error: 'Point-in-time restore needs the GitHub or SQLite storage backend' });
+    }
+
+    const commit = await findCommitAt(storage, new Date(at).toISOString());
+    if (!commit) {
+      return res.status(404).json({ error: 'No saved data exists from before that time' });
+    }
+
+    res.status(200).json({ data: await getSnapshot(storage, commit) });
+  } catch (error: any) {
+    console.error('Snapshot error:', error);
+    res.status(500).json({ error: error.message || 'Failed to load snapshot' });
+  }
+}
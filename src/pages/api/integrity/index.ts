@@ -0,0 +1,46 @@
+/**
+ * API Route: Integrity check (Admin only)
+ *
+ * GET /api/integrity - records referring to missing or deleted records, duplicate IDs and
+ *                      payments whose member is not their loan's member
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { checkIntegrity } from '@/lib/integrity';
+import { ensureMigrated } from '@/lib/migrations';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can run the integrity check' });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const report = await checkIntegrity(storage);
+    res.status(200).json({ data: report });
+  } catch (error: any) {
+    console.error('Integrity check error:', error);
+    res.status(500).json({ error: error.message || 'Failed to check data integrity' });
+  }
+}
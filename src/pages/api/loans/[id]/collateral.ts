@@ -0,0 +1,126 @@
+/**
+ * API Route: Change one item of a loan's collateral (see lib/finance/collateral.ts)
+ *
+ * POST /api/loans/{id}/collateral  - body: { action, ... }
+ *   add      { collateral: { type, description, value, custodian, documents? } }  - given the next free id
+ *   attach   { collateralId, documents }  - documents uploaded with POST /api/loans/{id}/documents
+ *   release  { collateralId, date? }  - the documents went back to the member on date (YYYY-MM-DD, defaults to today)
+ *   remove   { collateralId }  - collateral recorded by mistake; what is still held on a disbursed loan is released instead
+ *
+ * Each change is made to the loan as stored when it is written, so collateral changed by someone
+ * else in the meantime is kept. Releases are recorded with who recorded them and when, and are
+ * only allowed once the loan is closed. Admin only.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { updateRecord, RecordError, type StoredRecord } from '@/lib/records';
+import { ValidationError } from '@/lib/schema';
+import { getActor } from '@/lib/audit';
+import { ensureMigrated } from '@/lib/migrations';
+import { loanDocumentUrl } from '@/lib/utils';
+import { isReleased } from '@/lib/finance';
+import type { Loan, Collateral, CollateralDocument } from '@/types';
+
+const ACTIONS = ['add', 'attach', 'release', 'remove'];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can change a loan\'s collateral' });
+  }
+
+  const loanId = String(req.query.id);
+  const { action, collateralId, collateral, documents, date } = req.body || {};
+  if (!ACTIONS.includes(action)) {
+    return res.status(400).json({ error: `action must be one of: ${ACTIONS.join(', ')}` });
+  }
+  if (action !== 'add' && typeof collateralId !== 'string') {
+    return res.status(400).json({ error: 'collateralId is required' });
+  }
+  if (action === 'add' && (!collateral || typeof collateral !== 'object')) {
+    return res.status(400).json({ error: 'collateral is required' });
+  }
+  // Only documents uploaded for this loan can be listed on it
+  const uploaded = action === 'add' ? collateral.documents : documents;
+  if (
+    (action === 'attach' || uploaded !== undefined) &&
+    !(Array.isArray(uploaded) && uploaded.every(d => typeof d?.url === 'string' && d.url.startsWith(loanDocumentUrl(loanId, ''))))
+  ) {
+    return res.status(400).json({ error: 'documents must be a list of documents uploaded for this loan' });
+  }
+  if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'date must be a date (YYYY-MM-DD)' });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const actor = await getActor(storage, payload);
+    const at = new Date().toISOString();
+
+    // Worked out again from the stored loan if it changes before the write
+    const change = (record: StoredRecord) => {
+      const list = (record as Loan).collateral || [];
+
+      if (action === 'add') {
+        const next = list.reduce((max, c) => Math.max(max, parseInt(c.id.replace(/^C/, ''), 10) || 0), 0) + 1;
+        const added: Collateral = {
+          id: `C${next}`,
+          type: collateral.type,
+          description: typeof collateral.description === 'string' ? collateral.description.trim() : collateral.description,
+          value: collateral.value,
+          custodian: typeof collateral.custodian === 'string' ? collateral.custodian.trim() : collateral.custodian,
+          ...(Array.isArray(uploaded) && uploaded.length > 0 && { documents: uploaded as CollateralDocument[] }),
+        };
+        return { collateral: [...list, added] };
+      }
+
+      const item = list.find(c => c.id === collateralId);
+      if (!item) {
+        throw new RecordError(`Collateral ${collateralId} not found on loan ${record.id}`, 404);
+      }
+      if (action === 'remove') {
+        const rest = list.filter(c => c.id !== collateralId);
+        return { collateral: rest.length > 0 ? rest : null };
+      }
+      if (isReleased(item)) {
+        throw new RecordError(`Collateral ${collateralId} was already released on ${item.releasedDate}`, 409);
+      }
+      const changed: Collateral = action === 'release'
+        ? { ...item, releasedDate: date || at.slice(0, 10), releasedBy: actor.userId, releasedAt: at }
+        : { ...item, documents: [...(item.documents || []), ...(uploaded as CollateralDocument[])] };
+      return { collateral: list.map(c => (c.id === collateralId ? changed : c)) };
+    };
+    const updated = await updateRecord(storage, 'loans', loanId, change, actor, { collateral: true });
+
+    res.status(200).json({ data: updated });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Loan collateral error:', error);
+    res.status(500).json({ error: error.message || 'Failed to change collateral' });
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * API Route: Download a scanned collateral document of a loan
+ *
+ * GET /api/loans/{id}/documents/{name}  - the file, as uploaded with POST /api/loans/{id}/documents
+ *
+ * Only documents listed in the collateral of the loan, or of a loan it was restructured from or
+ * into, are served: held collateral moves to the successor loan while its documents stay stored
+ * under the loan they were uploaded for. Admins and committee members only, since land papers
+ * and other scans carry the member's personal details.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin, isCommittee } from '@/lib/auth';
+import { COLLECTIONS } from '@/lib/records';
+import { isDeleted, loanDocumentPath } from '@/lib/utils';
+import { findLoanDocument } from '@/lib/finance';
+import type { Loan } from '@/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role) && !isCommittee(payload.role)) {
+    return res.status(403).json({ error: 'Only admins and committee members can view loan documents' });
+  }
+
+  const name = String(req.query.name);
+  if (!/^[\w-][\w.-]*$/.test(name)) {
+    return res.status(400).json({ error: 'Invalid document name' });
+  }
+
+  try {
+    const storage = getStorage();
+    const file = await storage.read<Loan[]>(COLLECTIONS.loans);
+    const loans = (file?.data || []).filter(l => !isDeleted(l));
+    const loan = loans.find(l => l.id === req.query.id);
+    if (!loan) {
+      return res.status(404).json({ error: `Loan ${req.query.id} not found` });
+    }
+
+    const found = findLoanDocument(loans, loan.id, name);
+    const content = found && (await storage.readRaw(loanDocumentPath(found.storedUnder, name)));
+    const document = found?.document;
+    if (!document || !content) {
+      return res.status(404).json({ error: `Document ${name} not found for loan ${loan.id}` });
+    }
+
+    res.setHeader('Content-Type', document.type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `inline; filename="${name}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.status(200).send(content);
+  } catch (error: any) {
+    console.error('Document download error:', error);
+    res.status(500).json({ error: error.message || 'Failed to download document' });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * API Route: Upload a scanned collateral document for a loan
+ *
+ * POST /api/loans/{id}/documents  - body: { name, type, data } (data: the file, base64 without the data: header)
+ *
+ * The file is saved under uploads/loans/{id}/, outside public/ so it is not served to anyone
+ * who has the link, and its details are returned for the page to add to the loan's collateral.
+ * The document is then downloaded through GET /api/loans/{id}/documents/{name}. Admin only.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { getActor, commitDetails } from '@/lib/audit';
+import { COLLECTIONS } from '@/lib/records';
+import { isDeleted, loanDocumentPath, loanDocumentUrl } from '@/lib/utils';
+import type { Loan, CollateralDocument } from '@/types';
+
+// Scans of land papers are larger than the default 1 MB body limit
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '10mb' },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can upload documents' });
+  }
+
+  const { name, type, data } = req.body || {};
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'File name is required' });
+  }
+  if (typeof data !== 'string' || !data) {
+    return res.status(400).json({ error: 'File data missing' });
+  }
+
+  try {
+    const storage = getStorage();
+    const actor = await getActor(storage, payload);
+
+    const file = await storage.read<Loan[]>(COLLECTIONS.loans);
+    const loan = (file?.data || []).find(l => l.id === req.query.id && !isDeleted(l));
+    if (!loan) {
+      return res.status(404).json({ error: `Loan ${req.query.id} not found` });
+    }
+
+    const filename = `${Date.now()}-${name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+    // write file to storage using raw content (data must be base64)
+    await storage.writeRaw(loanDocumentPath(loan.id, filename), data, undefined, commitDetails(`uploads: add ${filename} for ${loan.id}`, actor));
+    const document: CollateralDocument = {
+      name,
+      url: loanDocumentUrl(loan.id, filename),
+      ...(typeof type === 'string' && type && { type }),
+      uploadedAt: new Date().toISOString(),
+    };
+
+    res.status(201).json({ data: document });
+  } catch (error: any) {
+    console.error('Document upload error:', error);
+    res.status(500).json({ error: error.message || 'Failed to upload document' });
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * API Route: Restructure a disbursed loan (see lib/finance/restructuring.ts)
+ *
+ * POST /api/loans/{id}/restructure  - body: { kind, date?, topUp?, interestRate, termMonths, repayment?, consolidate?, guarantors?, comment? }
+ *   kind         top-up, extension, rate-change or consolidation
+ *   date         restructuring date (YYYY-MM-DD, defaults to today); the successor starts on it
+ *   topUp        new money lent on top, in paisa (top-up only)
+ *   consolidate  ids of the member's other loans to replace along with this one (consolidation only)
+ *   guarantors   [{ memberId, amount }] standing behind the new loan; required for a top-up or consolidation,
+ *                whose guarantors must agree again, otherwise the loan's guarantors are kept
+ *
+ * The loan (and any consolidated with it) is closed with its outstanding principal recorded as
+ * carried over, and a successor loan is disbursed with the new terms, taking over the collateral
+ * still held. The guarantors' pledges are checked against their savings as for any new loan. Both steps go into the loans' history, in one write. Admin only.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { COLLECTIONS, applyRecordChanges, RecordError, type RecordChange, type RecordPlan } from '@/lib/records';
+import { triggerWhatsAppNotifications } from '@/lib/notifications';
+import { ValidationError } from '@/lib/schema';
+import { getActor } from '@/lib/audit';
+import { ensureMigrated } from '@/lib/migrations';
+import { isDeleted } from '@/lib/utils';
+import { RESTRUCTURING_KINDS, needsGuarantorsConfirmed, restructuringProblem, restructureLoans, isReleased, type RestructuringTerms } from '@/lib/finance';
+import type { Loan, Payment, LoanStatusChange, LoanGuarantee, RepaymentType } from '@/types';
+
+const REPAYMENT_TYPES: RepaymentType[] = ['interest-only', 'equal-principal', 'emi'];
+
+const KIND_LABELS: Record<RestructuringTerms['kind'], string> = {
+  'top-up': 'top-up',
+  extension: 'term extension',
+  'rate-change': 'rate change',
+  consolidation: 'consolidation',
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can restructure loans' });
+  }
+
+  const { kind, date, topUp, interestRate, termMonths, repayment, consolidate, guarantors, comment } = req.body || {};
+  if (!RESTRUCTURING_KINDS.includes(kind)) {
+    return res.status(400).json({ error: `kind must be one of: ${RESTRUCTURING_KINDS.join(', ')}` });
+  }
+  if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return res.status(400).json({ error: 'date must be a date (YYYY-MM-DD)' });
+  }
+  if (topUp !== undefined && !Number.isInteger(topUp)) {
+    return res.status(400).json({ error: 'topUp must be a whole number of paisa' });
+  }
+  if (typeof interestRate !== 'number' || typeof termMonths !== 'number') {
+    return res.status(400).json({ error: 'interestRate and termMonths are required' });
+  }
+  if (repayment !== undefined && !REPAYMENT_TYPES.includes(repayment)) {
+    return res.status(400).json({ error: `repayment must be one of: ${REPAYMENT_TYPES.join(', ')}` });
+  }
+  if (consolidate !== undefined && !(Array.isArray(consolidate) && consolidate.every(id => typeof id === 'string'))) {
+    return res.status(400).json({ error: 'consolidate must be a list of loan ids' });
+  }
+  if (
+    guarantors !== undefined &&
+    !(Array.isArray(guarantors) && guarantors.every(g => typeof g?.memberId === 'string' && Number.isInteger(g?.amount)))
+  ) {
+    return res.status(400).json({ error: 'guarantors must be a list of { memberId, amount } with amounts in paisa' });
+  }
+  if (needsGuarantorsConfirmed(kind) && guarantors === undefined) {
+    return res.status(400).json({ error: `The guarantors must be confirmed again for a ${kind}` });
+  }
+  if (comment !== undefined && typeof comment !== 'string') {
+    return res.status(400).json({ error: 'comment must be text' });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const actor = await getActor(storage, payload);
+
+    const ids = Array.from(new Set([String(req.query.id), ...((consolidate as string[] | undefined) || [])]));
+    const at = new Date().toISOString();
+    const note = comment && comment.trim() ? `: ${comment.trim()}` : '';
+    const label = KIND_LABELS[kind as RestructuringTerms['kind']];
+
+    // Worked out again from the stored loans and payments if either changes before the write
+    const plan: RecordPlan = lists => {
+      const allLoans = (lists.loans as Loan[]).filter(l => !isDeleted(l));
+      const payments = (lists.payments as Payment[]).filter(p => !isDeleted(p));
+      const loans = ids.map(id => {
+        const loan = allLoans.find(l => l.id === id);
+        if (!loan) throw new RecordError(`Loan ${id} not found`, 404);
+        return loan;
+      });
+
+      const terms: RestructuringTerms = {
+        kind,
+        date: date || at.slice(0, 10),
+        topUp: topUp || 0,
+        interestRate,
+        termMonths,
+        repayment: repayment || loans[0].repayment || 'interest-only',
+        ...(guarantors && { guarantors: (guarantors as LoanGuarantee[]).map(g => ({ memberId: g.memberId, amount: g.amount })) }),
+      };
+      const problem = restructuringProblem(loans, payments, terms);
+      if (problem) throw new RecordError(problem, 409);
+
+      const { successor, transfers } = restructureLoans(loans, payments, terms);
+
+      // Collateral still held moves to the successor; what was already released stays on record.
+      // Documents stay stored under the loan they were uploaded for (see findLoanDocument)
+      const held = loans.flatMap(l => (l.collateral || []).filter(c => !isReleased(c)));
+      const opened: LoanStatusChange = {
+        status: 'disbursed',
+        at,
+        by: actor.userId,
+        comment: `Restructured (${label}) from ${loans.map(l => l.id).join(', ')}${note}`,
+      };
+
+      return [
+        {
+          action: 'create',
+          collection: 'loans',
+          record: {
+            ...successor,
+            status: 'disbursed',
+            history: [opened],
+            ...(held.length > 0 && { collateral: held.map((c, i) => ({ ...c, id: `C${i + 1}` })) }),
+          },
+        },
+        ...loans.map((loan, i): RecordChange => {
+          const released = (loan.collateral || []).filter(isReleased);
+          const closed: LoanStatusChange = {
+            status: 'closed',
+            at,
+            by: actor.userId,
+            comment: `Restructured (${label}); outstanding principal carried into a new loan${note}`,
+          };
+          return {
+            action: 'update',
+            collection: 'loans',
+            id: loan.id,
+            changes: {
+              status: 'closed',
+              transferred: { date: terms.date, principal: transfers[i].principal },
+              history: [...(loan.history || []), closed],
+              collateral: released.length > 0 ? released : null,
+            },
+          };
+        }),
+      ];
+    };
+    const [created, ...replaced] = await applyRecordChanges(storage, plan, actor, { loanWorkflow: true, reads: ['payments'] });
+
+    try {
+      await triggerWhatsAppNotifications(COLLECTIONS.loans, [created]);
+    } catch (notificationError: any) {
+      console.error('WhatsApp notification error:', notificationError);
+      // Don't fail the request if notifications fail
+    }
+
+    res.status(200).json({ data: { loan: created, replaced } });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Loan restructuring error:', error);
+    res.status(500).json({ error: error.message || 'Failed to restructure loan' });
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * API Route: Move a loan to the next step of the approval workflow (see lib/finance/workflow.ts)
+ *
+ * POST /api/loans/{id}/status  - body: { status, comment?, date? }
+ *   status   the step to take; must follow from the loan's current status
+ *   comment  why, e.g. the committee's reason for rejecting
+ *   date     disbursement date (YYYY-MM-DD, defaults to today); the loan's start date is set to it
+ *
+ * Committee members can review, approve and reject; Admins can take any step.
+ * Each step is added to the loan's history with who took it and when, and the member is
+ * notified when the application is approved, disbursed or rejected.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin, isCommittee } from '@/lib/auth';
+import { COLLECTIONS, updateRecord, RecordError, type StoredRecord } from '@/lib/records';
+import { triggerWhatsAppNotifications } from '@/lib/notifications';
+import { ValidationError } from '@/lib/schema';
+import { getActor } from '@/lib/audit';
+import { ensureMigrated } from '@/lib/migrations';
+import { LOAN_STATUSES, COMMITTEE_STEPS, canMoveLoan } from '@/lib/finance';
+import type { Loan, LoanStatus, LoanStatusChange } from '@/types';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  const { status, comment, date } = req.body || {};
+  if (!LOAN_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${LOAN_STATUSES.join(', ')}` });
+  }
+  if (comment !== undefined && typeof comment !== 'string') {
+    return res.status(400).json({ error: 'comment must be text' });
+  }
+
+  if (!isAdmin(payload.role) && !(isCommittee(payload.role) && COMMITTEE_STEPS.includes(status))) {
+    return res.status(403).json({ error: isCommittee(payload.role)
+      ? 'Committee members can only review, approve or reject loans'
+      : 'Only admins and committee members can change a loan\'s status' });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const actor = await getActor(storage, payload);
+
+    const step: LoanStatusChange = {
+      status: status as LoanStatus,
+      at: new Date().toISOString(),
+      by: actor.userId,
+      ...(comment && comment.trim() && { comment: comment.trim() }),
+    };
+    // Checked against the loan as stored when the step is written, so a concurrent step is not lost
+    const takeStep = (record: StoredRecord) => {
+      const loan = record as Loan;
+      if (!canMoveLoan(loan, status)) {
+        throw new RecordError(`A loan that is ${loan.status} cannot be moved to ${status}`, 409);
+      }
+      return {
+        status,
+        history: [...(loan.history || []), step],
+        ...(status === 'disbursed' && { startDate: date || step.at.slice(0, 10) }),
+      };
+    };
+    const updated = await updateRecord(storage, 'loans', String(req.query.id), takeStep, actor, { loanWorkflow: true });
+
+    try {
+      await triggerWhatsAppNotifications(COLLECTIONS.loans, [updated]);
+    } catch (notificationError: any) {
+      console.error('WhatsApp notification error:', notificationError);
+      // Don't fail the request if notifications fail
+    }
+
+    res.status(200).json({ data: updated });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Loan status error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update loan status' });
+  }
+}
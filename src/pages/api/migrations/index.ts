@@ -0,0 +1,54 @@
+/**
+ * API Route: Data migrations (Admin only)
+ *
+ * GET  /api/migrations                  - schema version of the stored data and the migrations still to run
+ * POST /api/migrations { dryRun?: true } - run the pending migrations (or report what they would change)
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { getActor } from '@/lib/audit';
+import { SCHEMA_VERSION, pendingMigrations, readSchemaVersion, runMigrations } from '@/lib/migrations';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can run data migrations' });
+  }
+
+  try {
+    const storage = getStorage();
+
+    if (req.method === 'GET') {
+      const schemaVersion = await readSchemaVersion(storage);
+      return res.status(200).json({
+        data: { schemaVersion, latestVersion: SCHEMA_VERSION, pending: pendingMigrations(schemaVersion) },
+      });
+    }
+
+    const actor = await getActor(storage, payload);
+    const report = await runMigrations(storage, actor, { dryRun: req.body?.dryRun === true });
+    res.status(200).json({ data: report });
+  } catch (error: any) {
+    console.error('Migration error:', error);
+    res.status(500).json({ error: error.message || 'Failed to run migrations' });
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * API Route: Create, update or delete a single record in a collection
+ *
+ * POST   /api/records/{collection}/{id}  - add a record (body: the record)
+ * PATCH  /api/records/{collection}/{id}  - merge changes into a record (null removes a field)
+ * DELETE /api/records/{collection}/{id}  - move a record to the recycle bin (see /api/records/batch to restore or purge)
+ *   ?cascade=true                         - also move the records referring to it (409 with `dependents` without it)
+ *
+ * Each change is applied to the latest stored file, so concurrent edits to other records are kept.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import {
+  COLLECTIONS,
+  isCollection,
+  createRecord,
+  updateRecord,
+  deleteRecord,
+  RecordError,
+} from '@/lib/records';
+import { triggerWhatsAppNotifications } from '@/lib/notifications';
+import { ValidationError, IntegrityError } from '@/lib/schema';
+import { getActor } from '@/lib/audit';
+import { ensureMigrated } from '@/lib/migrations';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!['POST', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can modify records' });
+  }
+
+  const collection = String(req.query.collection);
+  const id = String(req.query.id);
+
+  if (!isCollection(collection)) {
+    return res.status(404).json({ error: `Unknown collection: ${collection}` });
+  }
+
+  const body = req.body || {};
+  if ((req.method === 'POST' || req.method === 'PATCH') && (typeof body !== 'object' || Array.isArray(body))) {
+    return res.status(400).json({ error: 'Record body must be an object' });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const actor = await getActor(storage, payload);
+
+    if (req.method === 'POST') {
+      const record = await createRecord(storage, collection, { ...body, id }, actor);
+
+      try {
+        await triggerWhatsAppNotifications(COLLECTIONS[collection], [record]);
+      } catch (notificationError: any) {
+        console.error('WhatsApp notification error:', notificationError);
+        // Don't fail the request if notifications fail
+      }
+
+      return res.status(201).json({ data: record });
+    }
+
+    if (req.method === 'PATCH') {
+      const record = await updateRecord(storage, collection, id, body, actor);
+      return res.status(200).json({ data: record });
+    }
+
+    const record = await deleteRecord(storage, collection, id, actor, req.query.cascade === 'true');
+    res.status(200).json({ data: record });
+  } catch (error: any) {
+    if (error instanceof IntegrityError) {
+      return res.status(409).json({ error: error.message, recordId: error.recordId, dependents: error.dependents });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Record update error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update record' });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * API Route: Add a transaction with a server-assigned ID
+ *
+ * POST /api/records/{collection}  - add a saving, loan, payment, fine or expenditure (body: the record, without id)
+ *
+ * The record gets the next sequential ID of its type and fiscal year, e.g. PAY-2082-000123,
+ * and is returned with it. Records with an ID of their own are added through /api/records/{collection}/{id}.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { COLLECTIONS, isCollection, createRecord, RecordError } from '@/lib/records';
+import { triggerWhatsAppNotifications } from '@/lib/notifications';
+import { ValidationError } from '@/lib/schema';
+import { getActor } from '@/lib/audit';
+import { ensureMigrated } from '@/lib/migrations';
+import { hasSequence } from '@/lib/ids';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can modify records' });
+  }
+
+  const collection = String(req.query.collection);
+  if (!isCollection(collection)) {
+    return res.status(404).json({ error: `Unknown collection: ${collection}` });
+  }
+  if (!hasSequence(collection)) {
+    return res.status(400).json({ error: `Records in ${collection} need an ID of their own` });
+  }
+
+  const body = req.body || {};
+  if (typeof body !== 'object' || Array.isArray(body)) {
+    return res.status(400).json({ error: 'Record body must be an object' });
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const actor = await getActor(storage, payload);
+    const { id, ...record } = body;
+    const created = await createRecord(storage, collection, record, actor);
+
+    try {
+      await triggerWhatsAppNotifications(COLLECTIONS[collection], [created]);
+    } catch (notificationError: any) {
+      console.error('WhatsApp notification error:', notificationError);
+      // Don't fail the request if notifications fail
+    }
+
+    res.status(201).json({ data: created });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Record create error:', error);
+    res.status(500).json({ error: error.message || 'Failed to add record' });
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * API Route: Apply several record changes at once
+ *
+ * POST /api/records/batch
+ * Body: { changes: [{ action: 'create', collection, record }
+ *                 | { action: 'update', collection, id, changes }
+ *                 | { action: 'delete' | 'restore' | 'purge', collection, id, cascade? }] }
+ *
+ * `delete` moves a record to the recycle bin, `restore` takes it out and `purge` removes it for good.
+ * A delete or purge that would leave other records referring to nothing fails with 409 and the
+ * `dependents` it has per collection; with `cascade: true` those records are deleted or purged too.
+ * A created saving, loan, payment, fine or expenditure without an id gets the next sequential one.
+ * All changes are written together as one commit: if any of them fails
+ * (unknown record, duplicate id), nothing is saved.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import {
+  COLLECTIONS,
+  isCollection,
+  applyRecordChanges,
+  RecordError,
+  type RecordChange,
+} from '@/lib/records';
+import { triggerWhatsAppNotifications } from '@/lib/notifications';
+import { ValidationError, IntegrityError } from '@/lib/schema';
+import { getActor } from '@/lib/audit';
+import { hasSequence } from '@/lib/ids';
+import { ensureMigrated } from '@/lib/migrations';
+
+/**
+ * Check the shape of one requested change, returning an error message if it is invalid
+ */
+function validateChange(change: any): string | null {
+  if (!change || typeof change !== 'object') return 'Each change must be an object';
+  if (!isCollection(String(change.collection))) return `Unknown collection: ${change.collection}`;
+
+  switch (change.action) {
+    case 'create':
+      if (!change.record || typeof change.record !== 'object' || Array.isArray(change.record)) {
+        return 'create needs a record';
+      }
+      if (!change.record.id && !hasSequence(change.collection)) {
+        return `create needs a record with an id in ${change.collection}`;
+      }
+      return null;
+    case 'update':
+      if (!change.id || !change.changes || typeof change.changes !== 'object' || Array.isArray(change.changes)) {
+        return 'update needs an id and an object of changes';
+      }
+      return null;
+    case 'delete':
+    case 'purge':
+      if (change.cascade !== undefined && typeof change.cascade !== 'boolean') return 'cascade must be true or false';
+      return change.id ? null : `${change.action} needs an id`;
+    case 'restore':
+      return change.id ? null : `${change.action} needs an id`;
+    default:
+      return `Unknown action: ${change.action}`;
+  }
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can modify records' });
+  }
+
+  const changes = req.body?.changes;
+  if (!Array.isArray(changes) || changes.length === 0) {
+    return res.status(400).json({ error: 'changes must be a non-empty list' });
+  }
+
+  for (const change of changes) {
+    const problem = validateChange(change);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+  }
+
+  try {
+    const storage = getStorage();
+    await ensureMigrated(storage);
+    const actor = await getActor(storage, payload);
+    const results = await applyRecordChanges(storage, changes as RecordChange[], actor);
+
+    // Notify for newly created records, one call per collection
+    const created = new Map<string, any[]>();
+    (changes as RecordChange[]).forEach((change, i) => {
+      if (change.action !== 'create') return;
+      const path = COLLECTIONS[change.collection];
+      created.set(path, [...(created.get(path) || []), results[i]]);
+    });
+    try {
+      for (const [path, records] of Array.from(created.entries())) {
+        await triggerWhatsAppNotifications(path, records);
+      }
+    } catch (notificationError: any) {
+      console.error('WhatsApp notification error:', notificationError);
+      // Don't fail the request if notifications fail
+    }
+
+    res.status(200).json({ data: results });
+  } catch (error: any) {
+    if (error instanceof IntegrityError) {
+      return res.status(409).json({ error: error.message, recordId: error.recordId, dependents: error.dependents });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Record batch error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update records' });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * API Route: Move data between the JSON repository and the SQLite backend (Admin only)
+ *
+ * GET  /api/storage                         - the storage backend in use and the JSON repository it copies to/from
+ * POST /api/storage { action: 'import' }    - copy the JSON repository (with its history) into an empty SQLite database
+ * POST /api/storage { action: 'export' }    - write the SQLite data back to the JSON repository
+ * Both actions need STORAGE_BACKEND=sqlite.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage, getJsonStorage } from '@/lib/storage';
+import { importFromJson, exportToJson, TransferError } from '@/lib/storage/transfer';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { commitDetails, getActor } from '@/lib/audit';
+import { runMigrations, resetMigrationCheck } from '@/lib/migrations';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can import or export data' });
+  }
+
+  const action = req.body?.action;
+  if (req.method === 'POST' && action !== 'import' && action !== 'export') {
+    return res.status(400).json({ error: 'Action must be "import" or "export"' });
+  }
+
+  try {
+    const storage = getStorage();
+    const json = getJsonStorage();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ data: { backend: storage.name, jsonBackend: json.name } });
+    }
+
+    if (storage.name !== 'sqlite') {
+      return res.status(400).json({ error: 'Import and export need the SQLite storage backend' });
+    }
+
+    const actor = await getActor(storage, payload);
+    if (action === 'export') {
+      const report = await exportToJson(storage, json, commitDetails('export data from SQLite', actor));
+      return res.status(200).json({ data: report });
+    }
+
+    const report = await importFromJson(json, storage, commitDetails(`import data from ${json.name} storage`, actor));
+    // The imported data may be from an older schema version; if migrating it fails here, the next
+    // request tries again rather than trusting the check made on the empty database
+    resetMigrationCheck();
+    await runMigrations(storage, actor);
+    res.status(200).json({ data: report });
+  } catch (error: any) {
+    if (error instanceof TransferError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Storage transfer error:', error);
+    res.status(500).json({ error: error.message || 'Failed to transfer data' });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API Route: Manage login users (Admin only)
+ *
+ * GET    /api/users               - list users (without password hashes)
+ * POST   /api/users               - add a user (body: { userId, name, password, role }); the password is hashed here
+ * DELETE /api/users?userId=<id>   - remove a user
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStorage } from '@/lib/storage';
+import { verifyToken, isAdmin } from '@/lib/auth';
+import { getActor } from '@/lib/audit';
+import { listUsers, addUser, deleteUser } from '@/lib/users';
+import { RecordError } from '@/lib/records';
+import { ValidationError } from '@/lib/schema';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Check authentication
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+
+  if (!isAdmin(payload.role)) {
+    return res.status(403).json({ error: 'Only admins can manage users' });
+  }
+
+  try {
+    const storage = getStorage();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ data: await listUsers(storage) });
+    }
+
+    const actor = await getActor(storage, payload);
+
+    if (req.method === 'POST') {
+      const { userId, name, password, role } = req.body || {};
+      const user = await addUser(storage, { userId, name, password, role }, actor);
+      return res.status(200).json({ data: user });
+    }
+
+    const userId = typeof req.query.userId === 'string' ? req.query.userId : '';
+    if (!userId) {
+      return res.status(400).json({ error: 'userId is required' });
+    }
+    await deleteUser(storage, userId, actor);
+    res.status(200).json({ success: true });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message, fieldErrors: error.fieldErrors, recordId: error.recordId });
+    }
+    if (error instanceof RecordError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('User management error:', error);
+    res.status(500).json({ error: error.message || 'Failed to update users' });
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * History page - audit log of every change to the data, built from the commit history
+ */
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Layout from '@/components/Layout';
+import { getHistory, type HistoryEntry, type HistoryRecordChange } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { Search, User, Clock } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const changeStyles: Record<HistoryRecordChange['type'], string> = {
+  added: 'bg-green-100 text-green-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  removed: 'bg-red-100 text-red-800',
+};
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatTime(date: string): string {
+  return new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [supported, setSupported] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [recordId, setRecordId] = useState('');
+
+  // Allow linking to the history of one record, e.g. /history?recordId=M-0014
+  useEffect(() => {
+    if (!router.isReady) return;
+    const fromQuery = typeof router.query.recordId === 'string' ? router.query.recordId : '';
+    setSearchTerm(fromQuery);
+    setRecordId(fromQuery);
+  }, [router.isReady, router.query.recordId]);
+
+  useEffect(() => {
+    if (router.isReady) {
+      loadHistory(1);
+    }
+  }, [recordId, router.isReady]);
+
+  const loadHistory = async (pageToLoad: number) => {
+    if (pageToLoad === 1) {
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
+    try {
+      const result = await getHistory({ recordId: recordId || undefined, page: pageToLoad });
+      setEntries(pageToLoad === 1 ? result.entries : [...entries, ...result.entries]);
+      setHasMore(result.hasMore);
+      setSupported(result.supported);
+      setPage(pageToLoad);
+    } catch (error: any) {
+      toast.error('Failed to load history: ' + error.message);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = searchTerm.trim();
+    router.replace({ pathname: '/history', query: id ? { recordId: id } : {} }, undefined, { shallow: true });
+  };
+
+  return (
+    <ProtectedRoute>
+      <Layout>
+        <div className="space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <h2 className="text-2xl sm:text-3xl font-bold text-gray-800">History</h2>
+          </div>
+
+          {/* Filter by record */}
+          <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+              <input
+                type="text"
+                placeholder="Member, loan or record ID (e.g. M-0014, L-...)"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+            </div>
+            <button
+              type="submit"
+              className="bg-primary text-white px-6 py-2.5 rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation font-medium"
+            >
+              {searchTerm.trim() ? 'Filter' : 'Show All'}
+            </button>
+          </form>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+            </div>
+          ) : !supported ? (
+            <div className="bg-white p-6 rounded-xl shadow-lg text-gray-600">
+              History is only available with the GitHub or SQLite storage backend.
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="bg-white p-6 rounded-xl shadow-lg text-gray-600">
+              {recordId ? `No changes found for ${recordId} in recent history.` : 'No changes recorded yet.'}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {entries.map(entry => (
+                <div key={entry.sha} className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                  <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 mb-3">
+                    <p className="font-semibold text-gray-800 break-words">{entry.message}</p>
+                    <span className="font-mono text-xs text-gray-400 shrink-0">{entry.sha.slice(0, 7)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-sm text-gray-500 mb-4">
+                    <span className="flex items-center gap-1">
+                      <User size={16} />
+                      {entry.author}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Clock size={16} />
+                      {formatDate(entry.date)} {formatTime(entry.date)}
+                    </span>
+                  </div>
+
+                  {entry.files.length === 0 ? (
+                    <p className="text-sm text-gray-500">No record changes (settings or non-data files).</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {entry.files.map(file => (
+                        <div key={file.path}>
+                          <p className="text-sm font-medium text-gray-700 mb-1 capitalize">{file.collection}</p>
+                          <div className="border rounded-lg divide-y">
+                            {file.records.map(change => (
+                              <div key={`${change.type}-${change.id}`} className="px-3 py-2 text-sm">
+                                <div className="flex items-center gap-2">
+                                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${changeStyles[change.type]}`}>
+                                    {change.type}
+                                  </span>
+                                  <span className="font-mono">{change.id}</span>
+                                  {change.record?.memberId && (
+                                    <span className="text-gray-500">({change.record.memberId})</span>
+                                  )}
+                                </div>
+                                {change.fields && (
+                                  <ul className="mt-1 ml-2 space-y-0.5 text-gray-600">
+                                    {change.fields.map(f => (
+                                      <li key={f.field}>
+                                        <span className="font-medium">{f.field}</span>:{' '}
+                                        <span className="line-through text-red-600">{formatValue(f.from)}</span>
+                                        {' → '}
+                                        <span className="text-green-700">{formatValue(f.to)}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!loading && supported && hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadHistory(page + 1)}
+                disabled={loadingMore}
+                className="px-6 py-2.5 border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load Older Changes'}
+              </button>
+            </div>
+          )}
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  );
+}
@@ -5,10 +5,30 @@
 import { useState, useEffect } from 'react';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
-import { readFile } from '@/lib/api';
+import { readCollections } from '@/lib/api';
 // FIX: Ensure all necessary utility functions are correctly imported.
-import { formatCurrency, formatNumber, formatDate, calculateOutstandingPrincipal } from '@/lib/utils'; 
-import type { Member, Saving, Loan, Payment, FinePayment, Expenditure } from '@/types';
+import { formatCurrency, formatNumber, formatDate, formatPercent } from '@/lib/utils'; 
+import { toRupees } from '@/lib/money';
+import {
+  cashPosition,
+  loanBalance,
+  isFinePaid,
+  isDisbursed,
+  lentAmount,
+  savingDefaulters as findSavingDefaulters,
+  interestDefaulters as findInterestDefaulters,
+  guarantorDefaulters as findGuarantorDefaulters,
+  agingReport,
+  parTrend,
+  AGING_BUCKETS,
+  AGING_LABELS,
+  type SavingDefaulter,
+  type InterestDefaulter,
+  type GuarantorDefaulter,
+  type AgingReport,
+  type AgingBucket,
+} from '@/lib/finance';
+import type { Member } from '@/types';
 import {
   LineChart,
   Line,
@@ -22,28 +42,12 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import { Users, PiggyBank, CreditCard, DollarSign, TrendingUp, TrendingDown, AlertTriangle, UserX } from 'lucide-react';
+import { Users, PiggyBank, CreditCard, DollarSign, TrendingUp, TrendingDown, AlertTriangle, UserX, ShieldAlert, Activity } from 'lucide-react';
 import { useRouter } from 'next/router';
 import toast from 'react-hot-toast';
 
 const COLORS = ['#6366f1', '#8b5cf6', '#ec4899', '#10b981', '#f59e0b', '#3b82f6'];
 
-// New types to include date and pending count
-type SavingDefaulter = {
-  id: string;
-  name: string;
-  lastSavingDate: string; // The exact YYYY-MM-DD date
-  pendingMonths: number;
-};
-
-// New type for Interest Defaulters
-type InterestDefaulter = {
-  id: string;
-  name: string;
-  lastPaymentDate: string; // The exact YYYY-MM-DD date of last interest payment
-  pendingMonths: number;
-};
-
 export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
@@ -57,6 +61,11 @@ export default function Dashboard() {
   const [pieData, setPieData] = useState<any[]>([]);
   const [savingDefaulters, setSavingDefaulters] = useState<SavingDefaulter[]>([]);
   const [interestDefaulters, setInterestDefaulters] = useState<InterestDefaulter[]>([]);
+  const [guarantorDefaulters, setGuarantorDefaulters] = useState<GuarantorDefaulter[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [aging, setAging] = useState<AgingReport | null>(null);
+  const [parData, setParData] = useState<any[]>([]);
+  const [agingBucket, setAgingBucket] = useState<AgingBucket | null>(null);
   const [totalFine, setTotalFine] = useState(0);
   const [totalExpenditure, setTotalExpenditure] = useState(0);
   const router = useRouter();
@@ -65,178 +74,48 @@ export default function Dashboard() {
     loadDashboardData();
   }, []);
 
-  /**
-   * Calculates the difference in months between two Date objects (laterDate - earlierDate).
-   * Result is always >= 0.
-   */
-  const calculateMonthDiff = (laterDate: Date, earlierDate: Date): number => {
-    const diffYears = laterDate.getFullYear() - earlierDate.getFullYear();
-    const diffMonths = laterDate.getMonth() - earlierDate.getMonth();
-    return (diffYears * 12) + diffMonths;
-  };
-  
-  /**
-   * Helper to get YYYY-MM key from date string (YYYY-MM-DD)
-   */
-  const getMonthKey = (dateString: string): string => dateString.slice(0, 7);
-
   const loadDashboardData = async () => {
     try {
       setLoading(true);
-      const [membersRes, savingsRes, loansRes, paymentsRes, finesRes, expRes] = await Promise.all([
-        readFile<Member[]>('data/members.json'),
-        readFile<Saving[]>('data/savings.json'),
-        readFile<Loan[]>('data/loans.json'),
-        readFile<Payment[]>('data/payments.json'),
-        readFile<FinePayment[]>('data/fines.json'),
-        readFile<Expenditure[]>('data/expenditures.json'),
+      const { members, savings, loans, payments, fines, expenditures } = await readCollections([
+        'members',
+        'savings',
+        'loans',
+        'payments',
+        'fines',
+        'expenditures',
       ]);
-      const members: Member[] = membersRes ?? [];
-      const savings: Saving[] = savingsRes ?? [];
-      const loans: Loan[] = loansRes ?? [];
-      const payments: Payment[] = paymentsRes ?? [];
-      const fines: FinePayment[] = finesRes ?? [];
-      const expenditures: Expenditure[] = expRes ?? [];
 
       // Calculate statistics
-      const totalMembers = members.length;
-      const totalSaving = savings.reduce((sum, s) => sum + s.amount, 0);
-      
-      const totalLoan = loans.reduce((sum, l) => {
-        const loanPayments = payments.filter(p => p.loanId === l.id);
-        const outstanding = calculateOutstandingPrincipal(
-          l.principal, 
-          l.interestRate, 
-          l.termMonths, 
-          loanPayments
-        );
-        return sum + outstanding;
-      }, 0);
-      
-      const totalInterest = payments.reduce((sum, p) => sum + p.interestPaid, 0);
-      const totalFineComputed = fines.reduce((sum, f) => sum + f.amount, 0);
-      const totalExpenditureComputed = expenditures.reduce((sum, e) => sum + e.amount, 0);
-      const availableBalance = totalSaving + totalInterest + totalFineComputed - totalLoan - totalExpenditureComputed;
+      const cash = cashPosition({ savings, loans, payments, fines, expenditures });
 
       setStats({
-        totalMembers,
-        totalSaving,
-        totalLoan,
-        totalInterest,
-        availableBalance,
+        totalMembers: members.length,
+        totalSaving: cash.savings,
+        totalLoan: cash.outstanding,
+        totalInterest: cash.interest,
+        availableBalance: cash.available,
       });
-      setTotalFine(totalFineComputed);
-      setTotalExpenditure(totalExpenditureComputed);
+      setTotalFine(cash.fines);
+      setTotalExpenditure(cash.expenditures);
 
       // Calculate Defaulters
-      const now = new Date();
-      const currentMonthKey = getMonthKey(now.toISOString().split('T')[0]); // YYYY-MM
-      const currentMonthDate = new Date(currentMonthKey); // YYYY-MM-01
-
-      // =========================================================
-      // SAVING DEFAULTERS LOGIC
-      // =========================================================
-      
-      const memberLastSavingMonth = new Map<string, string>(); // memberId -> YYYY-MM
-      const memberLastSavingDate = new Map<string, string>(); // memberId -> YYYY-MM-DD
-      
-      const allSavingsSorted = savings.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-      allSavingsSorted.forEach(s => {
-        if (!memberLastSavingMonth.has(s.memberId)) {
-          memberLastSavingMonth.set(s.memberId, getMonthKey(s.date));
-          memberLastSavingDate.set(s.memberId, s.date);
-        }
-      });
-
-      const savingDefaulterList: SavingDefaulter[] = [];
-
-      members.forEach(member => {
-        const lastSaveMonthKey = memberLastSavingMonth.get(member.id);
-
-        if (lastSaveMonthKey && lastSaveMonthKey !== currentMonthKey) {
-            
-            const lastSaveMonthDate = new Date(lastSaveMonthKey); 
-            let pendingMonths = calculateMonthDiff(currentMonthDate, lastSaveMonthDate);
-            
-            if (pendingMonths > 0) {
-                savingDefaulterList.push({
-                    id: member.id,
-                    name: member.name,
-                    lastSavingDate: memberLastSavingDate.get(member.id) || 'N/A',
-                    pendingMonths: pendingMonths,
-                });
-            }
-        }
-      });
-      
-      setSavingDefaulters(savingDefaulterList);
-      // =========================================================
-      
-      // =========================================================
-      // LOAN INTEREST DEFAULTERS LOGIC
-      // =========================================================
-      
-      const interestDefaulterMap = new Map<string, InterestDefaulter>();
-
-      loans.forEach(loan => {
-        if (loan.startDate.startsWith(currentMonthKey)) {
-          return;
-        }
-
-        const loanPayments = payments.filter(p => p.loanId === loan.id);
-        const outstanding = calculateOutstandingPrincipal(
-          loan.principal, 
-          loan.interestRate, 
-          loan.termMonths, 
-          loanPayments
-        );
-        
-        if (outstanding <= 0) {
-            return;
-        }
-
-        const latestInterestPayment = loanPayments
-            .filter(p => p.interestPaid > 0)
-            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
-
-        let lastPaymentDateStr: string;
-        let lastPaymentMonthKey: string;
-
-        if (latestInterestPayment) {
-            lastPaymentDateStr = latestInterestPayment.date;
-            lastPaymentMonthKey = getMonthKey(latestInterestPayment.date);
-        } else {
-            lastPaymentDateStr = loan.startDate;
-            lastPaymentMonthKey = getMonthKey(loan.startDate);
-        }
-
-        if (lastPaymentMonthKey !== currentMonthKey) {
-            const lastPaymentMonthDate = new Date(lastPaymentMonthKey);
-            
-            let pendingMonths = calculateMonthDiff(currentMonthDate, lastPaymentMonthDate);
-
-            if (pendingMonths > 0) {
-                const member = members.find(m => m.id === loan.memberId);
-                if (!member) return;
-
-                const existingDefaulter = interestDefaulterMap.get(member.id);
-
-                if (!existingDefaulter || pendingMonths > existingDefaulter.pendingMonths) {
-                    interestDefaulterMap.set(member.id, {
-                        id: member.id,
-                        name: member.name,
-                        lastPaymentDate: lastPaymentDateStr,
-                        pendingMonths: pendingMonths,
-                    });
-                }
-            }
-        }
-      });
-
-      const interestDefaulterList = Array.from(interestDefaulterMap.values());
-      setInterestDefaulters(interestDefaulterList);
-      // =========================================================
+      const today = new Date().toISOString().slice(0, 10);
+      setSavingDefaulters(findSavingDefaulters({ members, savings }, today));
+      setInterestDefaulters(findInterestDefaulters({ members, loans, payments }, today));
+      setGuarantorDefaulters(findGuarantorDefaulters({ members, loans, payments }, today));
+
+      // Portfolio at risk today, and at the end of each of the last 12 months
+      setMembers(members);
+      setAging(agingReport({ loans, payments }, today));
+      setParData(parTrend({ loans, payments }, today, 12).map(point => ({
+        month: new Date(point.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' }),
+        par30: point.par30 * 100,
+        par90: point.par90 * 100,
+      })));
+
+      // Applications and approved loans not yet handed over are left out of the charts
+      const lentLoans = loans.filter(isDisbursed);
 
       // Prepare line chart data (monthly trends)
       const monthlyData: { [key: string]: { 
@@ -252,8 +131,8 @@ export default function Dashboard() {
       // Initialize months from all data sources
       const allDates = [
         ...savings.map(s => s.date),
-        ...loans.map(l => l.startDate),
-        ...fines.map(f => f.date),
+        ...lentLoans.map(l => l.startDate),
+        ...fines.filter(isFinePaid).map(f => f.paidDate || f.date),
         ...payments.map(p => p.date),
         ...expenditures.map(e => e.date),
       ];
@@ -271,13 +150,14 @@ export default function Dashboard() {
         monthlyData[month].collection += s.amount;           // ← NEW
       });
 
-      loans.forEach(l => {
+      lentLoans.forEach(l => {
         const month = new Date(l.startDate).toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
-        monthlyData[month].loan += l.principal;
+        // Principal carried over by a restructuring was already lent when the replaced loan started
+        monthlyData[month].loan += lentAmount(l);
       });
 
-      fines.forEach(f => {
-        const month = new Date(f.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
+      fines.filter(isFinePaid).forEach(f => {
+        const month = new Date(f.paidDate || f.date).toLocaleDateString('en-US', { year: 'numeric', month: 'short' });
         monthlyData[month].fine += f.amount;
         monthlyData[month].collection += f.amount;           // ← NEW
       });
@@ -303,16 +183,8 @@ export default function Dashboard() {
       // Prepare pie chart data (loan distribution by member)
       const loanByMember: { [key: string]: { name: string; value: number } } = {};
       
-      loans.forEach(loan => {
-        const loanPayments = payments.filter(p => p.loanId === loan.id);
-        
-        const outstanding = calculateOutstandingPrincipal(
-          loan.principal, 
-          loan.interestRate, 
-          loan.termMonths, 
-          loanPayments
-        );
-        
+      lentLoans.forEach(loan => {
+        const { outstanding } = loanBalance(loan, payments);
         if (outstanding > 0) {
           const member = members.find(m => m.id === loan.memberId);
           const memberName = member?.name || loan.memberId;
@@ -454,7 +326,7 @@ export default function Dashboard() {
                   <LineChart data={lineData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="month" angle={-45} textAnchor="end" height={80} />
-                    <YAxis />
+                    <YAxis tickFormatter={(value: number) => formatNumber(toRupees(value))} />
                     <Tooltip formatter={(value: number) => formatCurrency(value)} />
                     <Legend />
                     <Line type="monotone" dataKey="saving" stroke="#10b981" strokeWidth={2} name="Saving" />
@@ -494,6 +366,107 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Portfolio at Risk */}
+          {aging && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+              <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg w-full overflow-x-auto">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                  <h3 className="text-lg sm:text-xl font-semibold text-gray-800 flex items-center gap-2">
+                    <Activity size={20} className="sm:w-6 sm:h-6 text-danger" />
+                    Loan Aging
+                  </h3>
+                  <div className="flex gap-2 text-sm">
+                    <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 font-medium">PAR30 {formatPercent(aging.par30)}</span>
+                    <span className="px-2 py-1 rounded-full bg-red-100 text-red-800 font-medium">PAR90 {formatPercent(aging.par90)}</span>
+                  </div>
+                </div>
+                <table className="w-full min-w-[480px] text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Overdue</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Loans</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Principal Arrears</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Interest Arrears</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {AGING_BUCKETS.map(bucket => {
+                      const totals = aging.buckets[bucket];
+                      return (
+                        <tr
+                          key={bucket}
+                          onClick={() => setAgingBucket(agingBucket === bucket ? null : bucket)}
+                          className={`cursor-pointer touch-manipulation hover:bg-gray-50 ${agingBucket === bucket ? 'bg-gray-100' : ''}`}
+                        >
+                          <td className="px-3 py-2 font-medium">{AGING_LABELS[bucket]}</td>
+                          <td className="px-3 py-2 text-right">{totals.loans}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(totals.outstanding)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(totals.principalArrears)}</td>
+                          <td className="px-3 py-2 text-right">{formatCurrency(totals.interestArrears)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {agingBucket === null ? (
+                  <p className="text-xs text-gray-500 mt-3">Select a row to see its loans</p>
+                ) : (
+                  <div className="space-y-2 max-h-64 overflow-y-auto mt-4">
+                    {aging.loans.filter(l => l.bucket === agingBucket).length === 0 ? (
+                      <p className="text-gray-500 text-center py-4">No loans {agingBucket === 'current' ? 'are current' : `overdue ${AGING_LABELS[agingBucket]}`}</p>
+                    ) : (
+                      aging.loans.filter(l => l.bucket === agingBucket).map(loan => (
+                        <div
+                          key={loan.loanId}
+                          className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 active:bg-gray-200 cursor-pointer touch-manipulation"
+                          onClick={() => router.push(`/payments?memberId=${loan.memberId}`)}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="font-medium text-gray-800 truncate">
+                              {members.find(m => m.id === loan.memberId)?.name || loan.memberId}
+                            </p>
+                            <p className="text-sm text-gray-500 truncate">
+                              {loan.memberId} | {loan.loanId}
+                              {loan.daysOverdue > 0 && (
+                                <span className="ml-2 text-danger font-semibold">({loan.daysOverdue} days overdue)</span>
+                              )}
+                            </p>
+                          </div>
+                          <p className="text-sm text-gray-600 text-right">
+                            Arrears: {formatCurrency(loan.principalArrears + loan.interestArrears)}
+                            <br />
+                            Outstanding: {formatCurrency(loan.outstanding)}
+                          </p>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg w-full overflow-x-auto">
+                <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-4">Portfolio at Risk</h3>
+                <div className="w-full" style={{ minWidth: '300px' }}>
+                  <ResponsiveContainer width="100%" height={250} minHeight={250}>
+                    <LineChart data={parData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" angle={-45} textAnchor="end" height={80} />
+                      <YAxis tickFormatter={(value: number) => `${value}%`} />
+                      <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                      <Legend />
+                      <Line type="monotone" dataKey="par30" stroke="#f59e0b" strokeWidth={2} name="PAR30" />
+                      <Line type="monotone" dataKey="par90" stroke="#ef4444" strokeWidth={2} name="PAR90" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Share of the outstanding principal on loans more than 30 and 90 days overdue, at the end of each month
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Defaulters Sections */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
             {/* Saving Defaulters */}
@@ -508,14 +481,14 @@ export default function Dashboard() {
                 <div className="space-y-2 max-h-64 overflow-y-auto">
                   {savingDefaulters.map((defaulter) => (
                     <div
-                      key={defaulter.id}
+                      key={defaulter.memberId}
                       className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 active:bg-gray-200 cursor-pointer touch-manipulation"
-                      onClick={() => router.push(`/savings?memberId=${defaulter.id}`)}
+                      onClick={() => router.push(`/savings?memberId=${defaulter.memberId}`)}
                     >
                       <div className="min-w-0 flex-1">
                         <p className="font-medium text-gray-800 truncate">{defaulter.name}</p>
                         <p className="text-sm text-gray-500 truncate">
-                          {defaulter.id}
+                          {defaulter.memberId}
                           <span className="ml-2 text-danger font-semibold">
                             ({defaulter.pendingMonths} {defaulter.pendingMonths === 1 ? 'month' : 'months'} pending)
                           </span>
@@ -542,14 +515,14 @@ export default function Dashboard() {
                 <div className="space-y-2 max-h-64 overflow-y-auto">
                   {interestDefaulters.map((defaulter) => (
                     <div
-                      key={defaulter.id}
+                      key={defaulter.memberId}
                       className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 active:bg-gray-200 cursor-pointer touch-manipulation"
-                      onClick={() => router.push(`/payments?memberId=${defaulter.id}`)}
+                      onClick={() => router.push(`/payments?memberId=${defaulter.memberId}`)}
                     >
                       <div className="min-w-0 flex-1">
                         <p className="font-medium text-gray-800 truncate">{defaulter.name}</p>
                         <p className="text-sm text-gray-500 truncate">
-                          {defaulter.id}
+                          {defaulter.memberId}
                           <span className="ml-2 text-warning font-semibold">
                             ({defaulter.pendingMonths} {defaulter.pendingMonths === 1 ? 'month' : 'months'} overdue)
                           </span>
@@ -563,6 +536,38 @@ export default function Dashboard() {
                 </div>
               )}
             </div>
+
+            {/* Guarantors of loans in default */}
+            {guarantorDefaulters.length > 0 && (
+              <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg sm:text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                  <ShieldAlert size={20} className="sm:w-6 sm:h-6 text-danger" />
+                  Guarantors of Loans in Default ({guarantorDefaulters.length})
+                </h3>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {guarantorDefaulters.map((defaulter) => (
+                    <div
+                      key={`${defaulter.loanId}-${defaulter.memberId}`}
+                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 active:bg-gray-200 cursor-pointer touch-manipulation"
+                      onClick={() => router.push('/members')}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium text-gray-800 truncate">{defaulter.name}</p>
+                        <p className="text-sm text-gray-500 truncate">
+                          Guarantees {defaulter.loanId} of {defaulter.borrowerName}
+                          <span className="ml-2 text-danger font-semibold">
+                            ({defaulter.pendingMonths} {defaulter.pendingMonths === 1 ? 'month' : 'months'} overdue)
+                          </span>
+                        </p>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        Liable: {formatCurrency(defaulter.liability)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </Layout>
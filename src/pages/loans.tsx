@@ -3,13 +3,48 @@
  */
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
-import { readFile, writeFile } from '@/lib/api';
-import { formatCurrency, formatDate, calculateOutstandingPrincipal, calculateMonthlyInterest } from '@/lib/utils';
-import type { Member, Loan, Payment } from '@/types';
+import FieldError from '@/components/FieldError';
+import {
+  readCollections,
+  createRecord,
+  updateRecord,
+  deleteRecord,
+  setLoanStatus,
+  restructureLoan,
+  changeCollateral,
+  uploadLoanDocument,
+  downloadLoanDocument,
+  getFieldErrors,
+  getDependents,
+  type CollateralRequest,
+} from '@/lib/api';
+import { formatCurrency, formatDate, describeCounts } from '@/lib/utils';
+import {
+  loanPayments,
+  loanBalance,
+  matchSchedule,
+  isDisbursed,
+  canMoveLoan,
+  guarantorLiability,
+  unpledgedSavings,
+  isReleased,
+  heldCollateralValue,
+  canReleaseCollateral,
+  outstandingOn,
+  needsGuarantorsConfirmed,
+  RESTRUCTURING_KINDS,
+  COLLATERAL_TYPES,
+  LOAN_TRANSITIONS,
+  COMMITTEE_STEPS,
+  MAX_GUARANTORS,
+} from '@/lib/finance';
+import { toPaisa, toInputValue } from '@/lib/money';
+import type { Member, Saving, Loan, LoanStatus, Payment, RepaymentType, Collateral, CollateralDocument, RestructuringKind } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
-import { Plus, Search, Edit, Trash2, Eye } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Eye, Upload, FileText, Repeat } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 // ADDED: Local type to include the isActive property, mirroring members.tsx
@@ -17,16 +52,101 @@ type LocalMember = Member & {
   isActive: boolean;
 }
 
+const REPAYMENT_LABELS: Record<RepaymentType, string> = {
+  'interest-only': 'Interest only, principal at the end',
+  'equal-principal': 'Equal principal (declining balance)',
+  emi: 'EMI (equal instalments)',
+};
+
+const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  applied: 'Applied',
+  'under-review': 'Under Review',
+  approved: 'Approved',
+  disbursed: 'Disbursed',
+  active: 'Active',
+  closed: 'Closed',
+  rejected: 'Rejected',
+};
+
+const LOAN_STATUS_STYLES: Record<LoanStatus, string> = {
+  applied: 'bg-blue-100 text-blue-800',
+  'under-review': 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-indigo-100 text-indigo-800',
+  disbursed: 'bg-green-100 text-green-800',
+  active: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// Button text for moving a loan to each status
+const STEP_LABELS: Record<LoanStatus, string> = {
+  applied: 'Applied',
+  'under-review': 'Start Review',
+  approved: 'Approve',
+  disbursed: 'Disburse',
+  active: 'Mark Active',
+  closed: 'Close',
+  rejected: 'Reject',
+};
+
+const COLLATERAL_LABELS: Record<Collateral['type'], string> = {
+  land: 'Land papers',
+  building: 'Building',
+  vehicle: 'Vehicle',
+  gold: 'Gold',
+  other: 'Other',
+};
+
+const EMPTY_COLLATERAL = {
+  type: 'land' as Collateral['type'],
+  description: '',
+  value: '',
+  custodian: '',
+  files: [] as File[],
+};
+
+const RESTRUCTURING_LABELS: Record<RestructuringKind, string> = {
+  'top-up': 'Top-up (lend more)',
+  extension: 'Term extension',
+  'rate-change': 'Rate change',
+  consolidation: 'Consolidation (merge loans)',
+};
+
+// Open loans first, then closed and rejected ones
+const STATUS_ORDER: LoanStatus[] = ['applied', 'under-review', 'approved', 'disbursed', 'active', 'closed', 'rejected'];
+
+const SCHEDULE_STATUS_STYLES = {
+  paid: 'bg-green-100 text-green-800',
+  overdue: 'bg-red-100 text-red-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  upcoming: 'bg-gray-100 text-gray-800',
+};
+
 export default function LoansPage() {
   const [members, setMembers] = useState<LocalMember[]>([]); // UPDATED to use LocalMember
   const [loans, setLoans] = useState<Loan[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [savings, setSavings] = useState<Saving[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingLoan, setEditingLoan] = useState<Loan | null>(null);
   const [viewingLoanId, setViewingLoanId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const { isAdmin } = useAuth();
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [collateralForm, setCollateralForm] = useState<typeof EMPTY_COLLATERAL | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [restructureForm, setRestructureForm] = useState<{
+    kind: RestructuringKind;
+    date: string;
+    topUp: string;
+    interestRate: string;
+    termMonths: string;
+    repayment: RepaymentType;
+    consolidate: string[];
+    guarantors: Array<{ memberId: string; amount: string }>;
+    comment: string;
+  } | null>(null);
+  const { user, isAdmin, isCommittee } = useAuth();
 
   const [formData, setFormData] = useState({
     memberId: '',
@@ -34,7 +154,9 @@ export default function LoansPage() {
     interestRate: '',
     startDate: new Date().toISOString().split('T')[0],
     termMonths: '',
+    repayment: 'interest-only' as RepaymentType,
     purpose: '',
+    guarantors: [] as Array<{ memberId: string; amount: string }>,
   });
 
   useEffect(() => {
@@ -43,22 +165,23 @@ export default function LoansPage() {
 
   const loadData = async () => {
     try {
-      // CHANGED: Reading data as any[] to handle the extra isActive property from file
-      const [membersData, loansData, paymentsData] = await Promise.all([
-        readFile<any[]>('data/members.json'),
-        readFile<Loan[]>('data/loans.json'),
-        readFile<Payment[]>('data/payments.json'),
-      ]);
+      const {
+        members: membersData,
+        loans: loansData,
+        payments: paymentsData,
+        savings: savingsData,
+      } = await readCollections(['members', 'loans', 'payments', 'savings']);
 
       // ADDED: Logic to process isActive status, defaulting to true if not present
-      const membersWithStatus = (membersData || []).map(m => ({
+      const membersWithStatus = membersData.map(m => ({
         ...m,
         isActive: m.isActive ?? true,
       })) as LocalMember[]; // Type cast to LocalMember[]
 
       setMembers(membersWithStatus);
-      setLoans(loansData || []);
-      setPayments(paymentsData || []);
+      setLoans(loansData);
+      setPayments(paymentsData);
+      setSavings(savingsData);
     } catch (error: any) {
       toast.error('Failed to load data: ' + error.message);
     } finally {
@@ -66,56 +189,56 @@ export default function LoansPage() {
     }
   };
 
-  const getLoanPayments = (loanId: string) => {
-    return payments.filter(p => p.loanId === loanId);
+  const getLoanPayments = (loanId: string) => loanPayments(loanId, payments);
+  const getOutstanding = (loan: Loan) => loanBalance(loan, payments).outstanding;
+  // A disbursed loan is active once repayments start and closed once marked so or fully repaid
+  const getLoanStatus = (loan: Loan) => loanBalance(loan, payments).status;
+
+  // Savings a member can still pledge as guarantor of the loan being edited
+  const getUnpledgedSavings = (memberId: string) =>
+    unpledgedSavings(memberId, { savings, loans, payments }, editingLoan?.id);
+
+  const addGuarantor = () => {
+    // Suggest the part of the principal the other guarantors do not cover yet
+    const covered = formData.guarantors.reduce((sum, g) => sum + toPaisa(g.amount || '0'), 0);
+    const rest = Math.max(0, toPaisa(formData.principal || '0') - covered);
+    setFormData({ ...formData, guarantors: [...formData.guarantors, { memberId: '', amount: rest > 0 ? toInputValue(rest) : '' }] });
   };
 
-  const getOutstanding = (loan: Loan) => {
-    const loanPayments = getLoanPayments(loan.id);
-    return calculateOutstandingPrincipal(
-      loan.principal,
-      loan.interestRate,
-      loan.termMonths,
-      loanPayments.map(p => ({
-        principalPaid: p.principalPaid,
-        interestPaid: p.interestPaid,
-        date: p.date,
-      }))
-    );
+  const updateGuarantor = (index: number, changes: Partial<{ memberId: string; amount: string }>) => {
+    setFormData({
+      ...formData,
+      guarantors: formData.guarantors.map((g, i) => (i === index ? { ...g, ...changes } : g)),
+    });
   };
 
-  // Helper: Safe status access with fallback (avoids TS error)
-  const getLoanStatus = (loan: Loan): 'active' | 'closed' => {
-    const outstanding = getOutstanding(loan);
-    const currentStatus = (loan as any).status as 'active' | 'closed' | undefined;
-    return currentStatus === 'closed' || outstanding <= 0 ? 'closed' : 'active';
+  const removeGuarantor = (index: number) => {
+    setFormData({ ...formData, guarantors: formData.guarantors.filter((_, i) => i !== index) });
   };
 
-  // Update loan statuses (auto-close if <=0) - Fixed: Toast only on actual new closures
+  // The workflow steps the current user can take on a loan
+  const getNextSteps = (loan: Loan) =>
+    LOAN_TRANSITIONS[loan.status].filter(status => isAdmin || (isCommittee && COMMITTEE_STEPS.includes(status)));
+
+  // Update loan statuses (activate on the first repayment, auto-close if <=0) - Toast only on actual new closures
   const updateLoanStatuses = async () => {
-    if (!isAdmin) return;
+    if (!isAdmin || !user) return;
 
-    let hasChanges = false;
     let newlyClosedCount = 0;
-    const updatedLoans = loans.map(loan => {
-      const status = getLoanStatus(loan);
-      const currentStatus = (loan as any).status as 'active' | 'closed' | undefined;
-      if (currentStatus !== status) {
-        hasChanges = true;
-        if (status === 'closed') newlyClosedCount++;
-        return {
-          ...loan,
-          status,
-        } as Loan;
-      }
-      return loan;
-    });
+    const changedLoans = loans.filter(loan => loan.status !== getLoanStatus(loan));
 
     // Only save if changes (optimization)
-    if (hasChanges) {
+    if (changedLoans.length > 0) {
       try {
-        await writeFile('data/loans.json', updatedLoans);
-        setLoans(updatedLoans);
+        // Each step goes through the workflow route, which records it in the loan's history
+        const updated: Loan[] = [];
+        for (const loan of changedLoans) {
+          const status = getLoanStatus(loan);
+          updated.push(await setLoanStatus(loan.id, status, { comment: status === 'closed' ? 'Fully repaid' : 'Repayments started' }));
+        }
+        newlyClosedCount = updated.filter(l => l.status === 'closed').length;
+        const updatedById = new Map(updated.map(l => [l.id, l]));
+        setLoans(loans.map(l => updatedById.get(l.id) || l));
       } catch (error: any) {
         toast.error('Failed to update loan statuses: ' + error.message);
         return;
@@ -144,42 +267,51 @@ export default function LoansPage() {
       return;
     }
 
+    // Loans added before guarantees existed can be edited without one
+    if (!editingLoan && formData.guarantors.length === 0) {
+      toast.error('Add at least one guarantor');
+      return;
+    }
+    const guarantors = formData.guarantors.map(g => ({ memberId: g.memberId, amount: toPaisa(g.amount) }));
+
+    setFieldErrors({});
     try {
-      const updatedLoans = [...loans];
-      
       if (editingLoan) {
-        const index = updatedLoans.findIndex(l => l.id === editingLoan.id);
-        updatedLoans[index] = {
-          ...editingLoan,
-          memberId: formData.memberId,
-          principal: parseFloat(formData.principal),
-          interestRate: parseFloat(formData.interestRate),
-          startDate: formData.startDate,
-          termMonths: parseInt(formData.termMonths),
-          purpose: formData.purpose || undefined,
-          status: 'active',  // Safe cast
-        } as Loan;
+        // A disbursed loan's terms are changed by restructuring it, never in place
+        const updated = await updateRecord<Loan>('loans', editingLoan.id, {
+          ...(!isDisbursed(editingLoan) && {
+            memberId: formData.memberId,
+            principal: toPaisa(formData.principal),
+            interestRate: parseFloat(formData.interestRate),
+            startDate: formData.startDate,
+            termMonths: parseInt(formData.termMonths),
+            repayment: formData.repayment,
+          }),
+          purpose: formData.purpose || null,
+          guarantors: guarantors.length > 0 ? guarantors : null,
+        });
+        setLoans(loans.map(l => (l.id === updated.id ? updated : l)));
         toast.success('Loan updated successfully');
       } else {
-        const newId = `L-${Date.now()}`;
-        const newLoan = {
-          id: newId,
+        const created = await createRecord<Loan>('loans', {
           memberId: formData.memberId,
-          principal: parseFloat(formData.principal),
+          principal: toPaisa(formData.principal),
           interestRate: parseFloat(formData.interestRate),
           startDate: formData.startDate,
           termMonths: parseInt(formData.termMonths),
+          repayment: formData.repayment,
           purpose: formData.purpose || undefined,
-          status: 'active',
-        } as Loan;
-        updatedLoans.push(newLoan);
-        toast.success('Loan added successfully');
+          guarantors,
+          status: 'applied',
+          history: user ? [{ status: 'applied', at: new Date().toISOString(), by: user.userId }] : undefined,
+        });
+        setLoans([...loans, created]);
+        toast.success('Loan application added');
       }
 
-      await writeFile('data/loans.json', updatedLoans);
-      setLoans(updatedLoans);
       resetForm();
     } catch (error: any) {
+      setFieldErrors(getFieldErrors(error));
       toast.error('Failed to save loan: ' + error.message);
     }
   };
@@ -190,21 +322,223 @@ export default function LoansPage() {
       return;
     }
 
-    if (!confirm(`Are you sure you want to delete this loan?`)) {
+    if (!confirm('Move this loan to the recycle bin? An admin can restore it from Settings.')) {
       return;
     }
 
     try {
-      const updatedLoans = loans.filter(l => l.id !== loan.id);
-      await writeFile('data/loans.json', updatedLoans);
-      setLoans(updatedLoans);
-      toast.success('Loan deleted successfully');
+      try {
+        await deleteRecord<Loan>('loans', loan.id);
+      } catch (error) {
+        // Refused while payments of the loan are still recorded
+        const dependents = getDependents(error);
+        if (Object.keys(dependents).length === 0) throw error;
+
+        if (confirm(`This loan still has ${describeCounts(dependents)}. Move those to the recycle bin as well?`)) {
+          await deleteRecord<Loan>('loans', loan.id, { cascade: true });
+        } else {
+          if (canMoveLoan(loan, 'closed') && confirm('Close the loan instead? It keeps its payments.')) {
+            const updated = await setLoanStatus(loan.id, 'closed');
+            setLoans(loans.map(l => (l.id === loan.id ? updated : l)));
+            toast.success('Loan closed');
+          }
+          return;
+        }
+      }
+      setLoans(loans.filter(l => l.id !== loan.id));
+      toast.success('Loan moved to the recycle bin');
       setViewingLoanId(null);
     } catch (error: any) {
       toast.error('Failed to delete loan: ' + error.message);
     }
   };
 
+  const handleStatusChange = async (loan: Loan, status: LoanStatus) => {
+    let date: string | undefined;
+    if (status === 'disbursed') {
+      const answer = prompt('Disbursement date (YYYY-MM-DD). The loan starts on this date.', new Date().toISOString().slice(0, 10));
+      if (answer === null) return;
+      date = answer.trim();
+    }
+
+    const comment = prompt(
+      status === 'rejected' ? 'Reason for rejecting this loan:' : `Comment for "${STEP_LABELS[status]}" (optional):`,
+      ''
+    );
+    if (comment === null) return;
+    if (status === 'rejected' && !comment.trim()) {
+      toast.error('Please give a reason for rejecting the loan');
+      return;
+    }
+
+    try {
+      const updated = await setLoanStatus(loan.id, status, { comment: comment.trim() || undefined, date });
+      setLoans(loans.map(l => (l.id === updated.id ? updated : l)));
+      toast.success(`Loan ${LOAN_STATUS_LABELS[status].toLowerCase()}`);
+    } catch (error: any) {
+      toast.error('Failed to update loan status: ' + error.message);
+    }
+  };
+
+  const openRestructureForm = (loan: Loan) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const start = new Date(loan.startDate);
+    const elapsed = (new Date(today).getFullYear() - start.getFullYear()) * 12 + new Date(today).getMonth() - start.getMonth();
+    setRestructureForm({
+      kind: 'extension',
+      date: today,
+      topUp: '',
+      interestRate: loan.interestRate.toString(),
+      termMonths: Math.max(1, loan.termMonths - elapsed).toString(),
+      repayment: loan.repayment || 'interest-only',
+      consolidate: [],
+      guarantors: (loan.guarantors || []).map(g => ({ memberId: g.memberId, amount: toInputValue(g.amount) })),
+      comment: '',
+    });
+  };
+
+  // Guarantors confirmed again for a top-up or consolidation; the replaced loans' pledges are freed
+  const updateRestructureGuarantors = (guarantors: Array<{ memberId: string; amount: string }>) => {
+    if (restructureForm) setRestructureForm({ ...restructureForm, guarantors });
+  };
+
+  const getRestructureUnpledged = (memberId: string, replaced: string[]) =>
+    unpledgedSavings(memberId, { savings, loans: loans.filter(l => !replaced.includes(l.id)), payments });
+
+  const handleRestructure = async (e: React.FormEvent, loan: Loan) => {
+    e.preventDefault();
+    if (!restructureForm) return;
+
+    const replaced = [loan.id, ...(restructureForm.kind === 'consolidation' ? restructureForm.consolidate : [])];
+    const confirmGuarantors = needsGuarantorsConfirmed(restructureForm.kind);
+    if (confirmGuarantors && restructureForm.guarantors.length === 0) {
+      toast.error('Add at least one guarantor');
+      return;
+    }
+    if (!confirm(
+      `Close ${replaced.join(', ')} and disburse a new loan carrying the outstanding principal? ` +
+      'Interest due up to the restructuring date is not carried over.'
+    )) {
+      return;
+    }
+
+    try {
+      const result = await restructureLoan(loan.id, {
+        kind: restructureForm.kind,
+        date: restructureForm.date,
+        topUp: restructureForm.kind === 'top-up' ? toPaisa(restructureForm.topUp || '0') : 0,
+        interestRate: parseFloat(restructureForm.interestRate),
+        termMonths: parseInt(restructureForm.termMonths),
+        repayment: restructureForm.repayment,
+        consolidate: restructureForm.kind === 'consolidation' ? restructureForm.consolidate : undefined,
+        guarantors: confirmGuarantors
+          ? restructureForm.guarantors.map(g => ({ memberId: g.memberId, amount: toPaisa(g.amount) }))
+          : undefined,
+        comment: restructureForm.comment.trim() || undefined,
+      });
+      const replacedById = new Map(result.replaced.map(l => [l.id, l]));
+      setLoans([...loans.map(l => replacedById.get(l.id) || l), result.loan]);
+      setRestructureForm(null);
+      setViewingLoanId(result.loan.id);
+      toast.success(`Loan restructured as ${result.loan.id}`);
+    } catch (error: any) {
+      toast.error('Failed to restructure loan: ' + error.message);
+    }
+  };
+
+  // Change one item of a loan's collateral; the server refuses releases before the loan is closed
+  const saveCollateral = async (loan: Loan, request: CollateralRequest, message: string) => {
+    const updated = await changeCollateral(loan.id, request);
+    setLoans(loans.map(l => (l.id === updated.id ? updated : l)));
+    toast.success(message);
+  };
+
+  const handleAddCollateral = async (e: React.FormEvent, loan: Loan) => {
+    e.preventDefault();
+    if (!collateralForm) return;
+
+    setUploading(true);
+    try {
+      const documents: CollateralDocument[] = [];
+      for (const file of collateralForm.files) {
+        documents.push(await uploadLoanDocument(loan.id, file));
+      }
+      await saveCollateral(loan, {
+        action: 'add',
+        collateral: {
+          type: collateralForm.type,
+          description: collateralForm.description.trim(),
+          value: toPaisa(collateralForm.value),
+          custodian: collateralForm.custodian.trim(),
+          ...(documents.length > 0 && { documents }),
+        },
+      }, 'Collateral added');
+      setCollateralForm(null);
+    } catch (error: any) {
+      toast.error('Failed to add collateral: ' + error.message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleUploadDocuments = async (loan: Loan, collateralId: string, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const documents: CollateralDocument[] = [];
+      for (const file of Array.from(files)) {
+        documents.push(await uploadLoanDocument(loan.id, file));
+      }
+      await saveCollateral(loan, { action: 'attach', collateralId, documents }, `${documents.length} document(s) uploaded`);
+    } catch (error: any) {
+      toast.error('Failed to upload documents: ' + error.message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleOpenDocument = async (document: CollateralDocument) => {
+    try {
+      const url = URL.createObjectURL(await downloadLoanDocument(document));
+      const a = window.document.createElement('a');
+      a.href = url;
+      a.download = document.name;
+      window.document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast.error('Failed to open document: ' + error.message);
+    }
+  };
+
+  const handleReleaseCollateral = async (loan: Loan, collateral: Collateral) => {
+    const date = prompt(
+      `Date the documents for "${collateral.description}" went back to the member (YYYY-MM-DD):`,
+      new Date().toISOString().slice(0, 10)
+    );
+    if (date === null) return;
+
+    try {
+      await saveCollateral(loan, { action: 'release', collateralId: collateral.id, date: date.trim() }, 'Collateral released');
+    } catch (error: any) {
+      toast.error('Failed to release collateral: ' + error.message);
+    }
+  };
+
+  const handleRemoveCollateral = async (loan: Loan, collateral: Collateral) => {
+    if (!confirm(`Remove "${collateral.description}" from this loan's collateral? Its uploaded documents are kept.`)) {
+      return;
+    }
+
+    try {
+      await saveCollateral(loan, { action: 'remove', collateralId: collateral.id }, 'Collateral removed');
+    } catch (error: any) {
+      toast.error('Failed to remove collateral: ' + error.message);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       memberId: '',
@@ -212,22 +546,29 @@ export default function LoansPage() {
       interestRate: '',
       startDate: new Date().toISOString().split('T')[0],
       termMonths: '',
+      repayment: 'interest-only',
       purpose: '',
+      guarantors: [],
     });
     setShowAddForm(false);
     setEditingLoan(null);
     setViewingLoanId(null);
+    setFieldErrors({});
+    setCollateralForm(null);
+    setRestructureForm(null);
   };
 
   const handleEdit = (loan: Loan) => {
     setEditingLoan(loan);
     setFormData({
       memberId: loan.memberId,
-      principal: loan.principal.toString(),
+      principal: toInputValue(loan.principal),
       interestRate: loan.interestRate.toString(),
       startDate: loan.startDate,
       termMonths: loan.termMonths.toString(),
+      repayment: loan.repayment || 'interest-only',
       purpose: loan.purpose || '',
+      guarantors: (loan.guarantors || []).map(g => ({ memberId: g.memberId, amount: toInputValue(g.amount) })),
     });
     setViewingLoanId(null);
   };
@@ -240,14 +581,13 @@ export default function LoansPage() {
       l.id.toLowerCase().includes(searchTerm.toLowerCase())
     );
   }).sort((a, b) => {
-    // Sort: Active first, then closed (so closed appear "in down line")
-    const statusA = getLoanStatus(a);
-    const statusB = getLoanStatus(b);
-    if (statusA === 'active' && statusB === 'closed') return -1;
-    if (statusA === 'closed' && statusB === 'active') return 1;
-    return 0;
+    // Sort: applications and open loans first, then closed and rejected (so those appear "in down line")
+    return STATUS_ORDER.indexOf(getLoanStatus(a)) - STATUS_ORDER.indexOf(getLoanStatus(b));
   });
 
+  // Only the purpose and guarantors of a disbursed loan can be edited
+  const termsLocked = editingLoan !== null && isDisbursed(editingLoan);
+
   if (loading) {
     return (
       <ProtectedRoute>
@@ -294,9 +634,15 @@ export default function LoansPage() {
           {(showAddForm || editingLoan) && isAdmin && (
             <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
               <h3 className="text-lg sm:text-xl font-semibold mb-4">
-                {editingLoan ? 'Edit Loan' : 'Add New Loan'}
+                {editingLoan ? 'Edit Loan' : 'New Loan Application'}
               </h3>
               <form onSubmit={handleSubmit} className="space-y-4">
+                {termsLocked && (
+                  <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+                    This loan has been disbursed, so its terms stay as they were agreed. To lend more,
+                    extend the term or change the rate, use Restructure in the loan details.
+                  </p>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -305,8 +651,9 @@ export default function LoansPage() {
                     <select
                       required
                       value={formData.memberId}
+                      disabled={termsLocked}
                       onChange={(e) => setFormData({ ...formData, memberId: e.target.value })}
-                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base disabled:bg-gray-100"
                     >
                       <option value="">Select Member</option>
                       {/* FILTER ADDED HERE: Only show members where isActive is true */}
@@ -316,6 +663,7 @@ export default function LoansPage() {
                           <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
                         ))}
                     </select>
+                    <FieldError message={fieldErrors.memberId} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -327,9 +675,11 @@ export default function LoansPage() {
                       min="0"
                       required
                       value={formData.principal}
+                      disabled={termsLocked}
                       onChange={(e) => setFormData({ ...formData, principal: e.target.value })}
-                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base disabled:bg-gray-100"
                     />
+                    <FieldError message={fieldErrors.principal} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -341,9 +691,11 @@ export default function LoansPage() {
                       min="0"
                       required
                       value={formData.interestRate}
+                      disabled={termsLocked}
                       onChange={(e) => setFormData({ ...formData, interestRate: e.target.value })}
-                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base disabled:bg-gray-100"
                     />
+                    <FieldError message={fieldErrors.interestRate} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -353,9 +705,12 @@ export default function LoansPage() {
                       type="date"
                       required
                       value={formData.startDate}
+                      disabled={termsLocked}
                       onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
-                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base disabled:bg-gray-100"
                     />
+                    <p className="text-xs text-gray-500 mt-1">Set to the disbursement date when the loan is disbursed</p>
+                    <FieldError message={fieldErrors.startDate} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -366,9 +721,28 @@ export default function LoansPage() {
                       min="1"
                       required
                       value={formData.termMonths}
+                      disabled={termsLocked}
                       onChange={(e) => setFormData({ ...formData, termMonths: e.target.value })}
-                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base disabled:bg-gray-100"
                     />
+                    <FieldError message={fieldErrors.termMonths} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Repayment <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      required
+                      value={formData.repayment}
+                      disabled={termsLocked}
+                      onChange={(e) => setFormData({ ...formData, repayment: e.target.value as RepaymentType })}
+                      className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base disabled:bg-gray-100"
+                    >
+                      {(Object.keys(REPAYMENT_LABELS) as RepaymentType[]).map(type => (
+                        <option key={type} value={type}>{REPAYMENT_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    <FieldError message={fieldErrors.repayment} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Purpose</label>
@@ -378,14 +752,80 @@ export default function LoansPage() {
                       onChange={(e) => setFormData({ ...formData, purpose: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.purpose} />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Guarantors <span className="text-red-500">*</span>
+                  </label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    One or two members, each pledging savings not already pledged for another loan
+                  </p>
+                  <div className="space-y-2">
+                    {formData.guarantors.map((guarantor, index) => (
+                      <div key={index} className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                        <select
+                          required
+                          value={guarantor.memberId}
+                          onChange={(e) => updateGuarantor(index, { memberId: e.target.value })}
+                          className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                        >
+                          <option value="">Select Guarantor</option>
+                          {members
+                            .filter(m => m.isActive && m.id !== formData.memberId)
+                            .filter(m => m.id === guarantor.memberId || !formData.guarantors.some(g => g.memberId === m.id))
+                            .map(m => (
+                              <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
+                            ))}
+                        </select>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          required
+                          placeholder="Amount pledged"
+                          value={guarantor.amount}
+                          onChange={(e) => updateGuarantor(index, { amount: e.target.value })}
+                          className="sm:w-40 px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                        />
+                        {guarantor.memberId && (
+                          <span className={`text-xs sm:w-44 ${
+                            toPaisa(guarantor.amount || '0') > getUnpledgedSavings(guarantor.memberId) ? 'text-danger' : 'text-gray-500'
+                          }`}>
+                            Unpledged savings: {formatCurrency(Math.max(0, getUnpledgedSavings(guarantor.memberId)))}
+                          </span>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => removeGuarantor(index)}
+                          className="p-2 rounded-lg text-danger hover:bg-danger/10 touch-manipulation"
+                          title="Remove guarantor"
+                          aria-label="Remove guarantor"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    ))}
                   </div>
+                  {formData.guarantors.length < MAX_GUARANTORS && (
+                    <button
+                      type="button"
+                      onClick={addGuarantor}
+                      className="mt-2 flex items-center gap-1 text-sm text-warning hover:underline"
+                    >
+                      <Plus size={16} />
+                      Add Guarantor
+                    </button>
+                  )}
+                  <FieldError message={fieldErrors.guarantors} />
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2">
                   <button
                     type="submit"
                     className="bg-warning text-white px-6 py-2.5 rounded-lg hover:bg-warning/90 active:bg-warning/80 touch-manipulation font-medium"
                   >
-                    {editingLoan ? 'Update' : 'Add'} Loan
+                    {editingLoan ? 'Update Loan' : 'Add Application'}
                   </button>
                   <button
                     type="button"
@@ -425,7 +865,6 @@ export default function LoansPage() {
                       const member = members.find(m => m.id === loan.memberId);
                       const outstanding = getOutstanding(loan);
                       const status = getLoanStatus(loan);
-                      const isClosed = status === 'closed';
                       return (
                         <tr key={loan.id} className="hover:bg-gray-50">
                           <td className="px-4 sm:px-6 py-4 whitespace-nowrap font-medium text-sm">{loan.memberId}</td>
@@ -436,10 +875,8 @@ export default function LoansPage() {
                             {formatCurrency(outstanding)}
                           </td>
                           <td className="px-4 sm:px-6 py-4 whitespace-nowrap text-sm">
-                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                              isClosed ? 'bg-gray-100 text-gray-800' : 'bg-green-100 text-green-800'
-                            }`}>
-                              {status.charAt(0).toUpperCase() + status.slice(1)}
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${LOAN_STATUS_STYLES[status]}`}>
+                              {LOAN_STATUS_LABELS[status]}
                             </span>
                           </td>
                           <td className="px-4 sm:px-6 py-4 whitespace-nowrap">
@@ -469,21 +906,43 @@ export default function LoansPage() {
                 <div className="p-6">
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-2xl font-bold text-gray-800">Loan Details</h3>
-                    <button
-                      onClick={() => setViewingLoanId(null)}
-                      className="text-gray-500 hover:text-gray-700"
-                    >
-                      ✕
-                    </button>
+                    <div className="flex items-center gap-4">
+                      <Link
+                        href={{ pathname: '/history', query: { recordId: viewingLoanId } }}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        View History
+                      </Link>
+                      <button
+                        onClick={() => {
+                          setViewingLoanId(null);
+                          setCollateralForm(null);
+                          setRestructureForm(null);
+                        }}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        ✕
+                      </button>
+                    </div>
                   </div>
                   {(() => {
                     const loan = loans.find(l => l.id === viewingLoanId);
                     if (!loan) return null;
                     const member = members.find(m => m.id === loan.memberId);
-                    const outstanding = getOutstanding(loan);
-                    const monthlyInterest = calculateMonthlyInterest(outstanding, loan.interestRate);
+                    const { outstanding, monthlyInterest, status } = loanBalance(loan, payments);
                     const loanPayments = getLoanPayments(loan.id);
-                    const status = getLoanStatus(loan);
+                    const schedule = matchSchedule(loan, payments, new Date().toISOString().slice(0, 10));
+                    const nextSteps = getNextSteps(loan);
+                    const editable = status !== 'closed' && status !== 'rejected';
+                    const successor = loans.find(l => l.restructuredFrom?.from.includes(loan.id));
+                    const restructurable = status === 'disbursed' || status === 'active';
+                    const otherOpenLoans = loans.filter(l =>
+                      l.id !== loan.id && l.memberId === loan.memberId && ['disbursed', 'active'].includes(getLoanStatus(l))
+                    );
+                    const restructured = restructureForm
+                      ? [loan, ...otherOpenLoans.filter(l => restructureForm.kind === 'consolidation' && restructureForm.consolidate.includes(l.id))]
+                      : [];
+                    const carried = restructured.reduce((sum, l) => sum + outstandingOn(l, payments, restructureForm?.date || ''), 0);
                     
                     return (
                       <>
@@ -508,10 +967,8 @@ export default function LoansPage() {
                             <div>
                               <label className="text-sm font-medium text-gray-500">Status</label>
                               <p className="text-lg">
-                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                  status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                                }`}>
-                                  {status.charAt(0).toUpperCase() + status.slice(1)}
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${LOAN_STATUS_STYLES[status]}`}>
+                                  {LOAN_STATUS_LABELS[status]}
                                 </span>
                               </p>
                             </div>
@@ -523,6 +980,10 @@ export default function LoansPage() {
                               <label className="text-sm font-medium text-gray-500">Term</label>
                               <p className="text-lg">{loan.termMonths} months</p>
                             </div>
+                            <div>
+                              <label className="text-sm font-medium text-gray-500">Repayment</label>
+                              <p className="text-lg">{REPAYMENT_LABELS[loan.repayment || 'interest-only']}</p>
+                            </div>
                             <div>
                               <label className="text-sm font-medium text-gray-500">Start Date</label>
                               <p className="text-lg">{formatDate(loan.startDate)}</p>
@@ -533,8 +994,528 @@ export default function LoansPage() {
                                 <p className="text-lg">{loan.purpose}</p>
                               </div>
                             )}
+                            <div className="col-span-2">
+                              <label className="text-sm font-medium text-gray-500">Guarantors</label>
+                              {!loan.guarantors || loan.guarantors.length === 0 ? (
+                                <p className="text-gray-500">None recorded</p>
+                              ) : (
+                                <div className="space-y-1">
+                                  {loan.guarantors.map(guarantee => (
+                                    <p key={guarantee.memberId}>
+                                      {members.find(m => m.id === guarantee.memberId)?.name || guarantee.memberId} ({guarantee.memberId}):
+                                      {' '}pledged {formatCurrency(guarantee.amount)}, liable for {formatCurrency(guarantorLiability(loan, guarantee, payments))}
+                                    </p>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                            {loan.restructuredFrom && (
+                              <div className="col-span-2">
+                                <label className="text-sm font-medium text-gray-500">Restructured From</label>
+                                <p>
+                                  {RESTRUCTURING_LABELS[loan.restructuredFrom.kind]} on {formatDate(loan.restructuredFrom.date)} of{' '}
+                                  {loan.restructuredFrom.from.map((id, i) => (
+                                    <span key={id}>
+                                      {i > 0 && ', '}
+                                      <button onClick={() => setViewingLoanId(id)} className="text-primary hover:underline">{id}</button>
+                                    </span>
+                                  ))}
+                                  : {formatCurrency(loan.restructuredFrom.carried)} carried over
+                                  {loan.restructuredFrom.topUp > 0 && ` plus ${formatCurrency(loan.restructuredFrom.topUp)} lent on top`}
+                                </p>
+                              </div>
+                            )}
+                            {loan.transferred && (
+                              <div className="col-span-2">
+                                <label className="text-sm font-medium text-gray-500">Restructured Into</label>
+                                <p>
+                                  {formatCurrency(loan.transferred.principal)} outstanding carried into{' '}
+                                  {successor ? (
+                                    <button onClick={() => setViewingLoanId(successor.id)} className="text-primary hover:underline">{successor.id}</button>
+                                  ) : 'a new loan'}
+                                  {' '}on {formatDate(loan.transferred.date)}
+                                </p>
+                              </div>
+                            )}
                           </div>
                         </div>
+                        <div className="mb-6">
+                          <div className="flex justify-between items-center mb-3">
+                            <h4 className="font-semibold">Collateral</h4>
+                            {heldCollateralValue(loan) > 0 && (
+                              <p className="text-sm text-gray-600">Held: {formatCurrency(heldCollateralValue(loan))}</p>
+                            )}
+                          </div>
+                          {(loan.collateral || []).length === 0 ? (
+                            <p className="text-gray-500 text-sm">No collateral recorded</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {(loan.collateral || []).map(collateral => (
+                                <div key={collateral.id} className="p-4 bg-gray-50 rounded-lg">
+                                  <div className="flex flex-wrap justify-between gap-2">
+                                    <div>
+                                      <p className="font-semibold">
+                                        {COLLATERAL_LABELS[collateral.type]}: {collateral.description}
+                                      </p>
+                                      <p className="text-sm text-gray-600">
+                                        Estimated value {formatCurrency(collateral.value)} | Kept by {collateral.custodian}
+                                      </p>
+                                      {isReleased(collateral) && (
+                                        <p className="text-sm text-success">
+                                          Released to the member on {formatDate(collateral.releasedDate!)}
+                                          {collateral.releasedBy && ` (recorded by ${collateral.releasedBy})`}
+                                        </p>
+                                      )}
+                                    </div>
+                                    {isAdmin && !isReleased(collateral) && (
+                                      <div className="flex flex-wrap items-start gap-2">
+                                        <label className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                                          <Upload size={14} />
+                                          Upload
+                                          <input
+                                            type="file"
+                                            multiple
+                                            accept="image/*,application/pdf"
+                                            className="hidden"
+                                            onChange={(e) => {
+                                              handleUploadDocuments(loan, collateral.id, e.target.files);
+                                              e.target.value = '';
+                                            }}
+                                          />
+                                        </label>
+                                        {canReleaseCollateral(loan) && (
+                                          <button
+                                            onClick={() => handleReleaseCollateral(loan, collateral)}
+                                            className="px-3 py-1.5 rounded-lg text-sm bg-success text-white hover:bg-success/90"
+                                          >
+                                            Release
+                                          </button>
+                                        )}
+                                        {!isDisbursed(loan) && (
+                                          <button
+                                            onClick={() => handleRemoveCollateral(loan, collateral)}
+                                            className="p-1.5 rounded-lg text-danger hover:bg-danger/10"
+                                            title="Remove collateral"
+                                            aria-label="Remove collateral"
+                                          >
+                                            <Trash2 size={16} />
+                                          </button>
+                                        )}
+                                      </div>
+                                    )}
+                                  </div>
+                                  {(collateral.documents || []).length > 0 && (
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                      {(collateral.documents || []).map(document =>
+                                        isAdmin || isCommittee ? (
+                                          <button
+                                            key={document.url}
+                                            type="button"
+                                            onClick={() => handleOpenDocument(document)}
+                                            className="flex items-center gap-1 text-sm text-primary hover:underline"
+                                          >
+                                            <FileText size={14} />
+                                            {document.name}
+                                          </button>
+                                        ) : (
+                                          <span key={document.url} className="flex items-center gap-1 text-sm text-gray-600">
+                                            <FileText size={14} />
+                                            {document.name}
+                                          </span>
+                                        )
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {isAdmin && !collateralForm && !['closed', 'rejected'].includes(status) && (
+                            <button
+                              onClick={() => setCollateralForm({ ...EMPTY_COLLATERAL })}
+                              className="mt-3 flex items-center gap-1 text-sm text-warning hover:underline"
+                            >
+                              <Plus size={16} />
+                              Add Collateral
+                            </button>
+                          )}
+                          {isAdmin && collateralForm && (
+                            <form onSubmit={(e) => handleAddCollateral(e, loan)} className="mt-3 p-4 border border-gray-200 rounded-lg space-y-3">
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                                  <select
+                                    value={collateralForm.type}
+                                    onChange={(e) => setCollateralForm({ ...collateralForm, type: e.target.value as Collateral['type'] })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                  >
+                                    {COLLATERAL_TYPES.map(type => (
+                                      <option key={type} value={type}>{COLLATERAL_LABELS[type]}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Estimated Value</label>
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    required
+                                    value={collateralForm.value}
+                                    onChange={(e) => setCollateralForm({ ...collateralForm, value: e.target.value })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                                  <input
+                                    type="text"
+                                    required
+                                    placeholder="e.g. plot no. and location"
+                                    value={collateralForm.description}
+                                    onChange={(e) => setCollateralForm({ ...collateralForm, description: e.target.value })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Custodian</label>
+                                  <input
+                                    type="text"
+                                    required
+                                    placeholder="Who keeps the papers"
+                                    value={collateralForm.custodian}
+                                    onChange={(e) => setCollateralForm({ ...collateralForm, custodian: e.target.value })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                  />
+                                </div>
+                                <div className="md:col-span-2">
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Scanned Documents</label>
+                                  <input
+                                    type="file"
+                                    multiple
+                                    accept="image/*,application/pdf"
+                                    onChange={(e) => setCollateralForm({ ...collateralForm, files: Array.from(e.target.files || []) })}
+                                    className="w-full text-sm"
+                                  />
+                                </div>
+                              </div>
+                              <div className="flex gap-2">
+                                <button
+                                  type="submit"
+                                  disabled={uploading}
+                                  className="bg-warning text-white px-4 py-2 rounded-lg hover:bg-warning/90 text-sm font-medium disabled:opacity-50"
+                                >
+                                  {uploading ? 'Uploading...' : 'Save Collateral'}
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => setCollateralForm(null)}
+                                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </form>
+                          )}
+                        </div>
+                        <div className="mb-6">
+                          <h4 className="font-semibold mb-3">Approval</h4>
+                          {!loan.history || loan.history.length === 0 ? (
+                            <p className="text-gray-500 text-sm">Added before loans needed approval</p>
+                          ) : (
+                            <ol className="space-y-2">
+                              {loan.history.map((step, i) => (
+                                <li key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${LOAN_STATUS_STYLES[step.status]}`}>
+                                    {LOAN_STATUS_LABELS[step.status]}
+                                  </span>
+                                  <span className="text-gray-600">
+                                    {formatDate(step.at)} by {step.by}
+                                  </span>
+                                  {step.comment && <span className="text-gray-800">: {step.comment}</span>}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                          {nextSteps.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-3">
+                              {nextSteps.map(next => (
+                                <button
+                                  key={next}
+                                  onClick={() => handleStatusChange(loan, next)}
+                                  className={`px-4 py-2 rounded-lg text-sm font-medium touch-manipulation ${
+                                    next === 'rejected'
+                                      ? 'bg-danger text-white hover:bg-danger/90'
+                                      : 'bg-primary text-white hover:bg-primary/90'
+                                  }`}
+                                >
+                                  {loan.status === 'closed' && next === 'active' ? 'Reopen' : STEP_LABELS[next]}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        {isAdmin && restructurable && (
+                          <div className="mb-6">
+                            <h4 className="font-semibold mb-3">Restructure</h4>
+                            {!restructureForm ? (
+                              <>
+                                <p className="text-sm text-gray-600 mb-2">
+                                  Top up, extend, change the rate of or consolidate this loan. It is closed with its
+                                  original terms kept, and a new loan carries its outstanding principal.
+                                </p>
+                                <button
+                                  onClick={() => openRestructureForm(loan)}
+                                  className="flex items-center gap-1 text-sm text-warning hover:underline"
+                                >
+                                  <Repeat size={16} />
+                                  Restructure Loan
+                                </button>
+                              </>
+                            ) : (
+                              <form onSubmit={(e) => handleRestructure(e, loan)} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                  <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Kind</label>
+                                    <select
+                                      value={restructureForm.kind}
+                                      onChange={(e) => setRestructureForm({ ...restructureForm, kind: e.target.value as RestructuringKind })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                    >
+                                      {RESTRUCTURING_KINDS.map(kind => (
+                                        <option key={kind} value={kind}>{RESTRUCTURING_LABELS[kind]}</option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                  <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+                                    <input
+                                      type="date"
+                                      required
+                                      value={restructureForm.date}
+                                      onChange={(e) => setRestructureForm({ ...restructureForm, date: e.target.value })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                    />
+                                  </div>
+                                  {restructureForm.kind === 'top-up' && (
+                                    <div>
+                                      <label className="block text-sm font-medium text-gray-700 mb-1">Top-up Amount</label>
+                                      <input
+                                        type="number"
+                                        step="0.01"
+                                        min="0"
+                                        required
+                                        value={restructureForm.topUp}
+                                        onChange={(e) => setRestructureForm({ ...restructureForm, topUp: e.target.value })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                      />
+                                    </div>
+                                  )}
+                                  <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Interest Rate (% per year)</label>
+                                    <input
+                                      type="number"
+                                      step="0.01"
+                                      min="0"
+                                      required
+                                      value={restructureForm.interestRate}
+                                      onChange={(e) => setRestructureForm({ ...restructureForm, interestRate: e.target.value })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">New Term (months)</label>
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      required
+                                      value={restructureForm.termMonths}
+                                      onChange={(e) => setRestructureForm({ ...restructureForm, termMonths: e.target.value })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Repayment</label>
+                                    <select
+                                      value={restructureForm.repayment}
+                                      onChange={(e) => setRestructureForm({ ...restructureForm, repayment: e.target.value as RepaymentType })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                    >
+                                      {(Object.keys(REPAYMENT_LABELS) as RepaymentType[]).map(type => (
+                                        <option key={type} value={type}>{REPAYMENT_LABELS[type]}</option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                  {restructureForm.kind === 'consolidation' && (
+                                    <div className="md:col-span-2">
+                                      <label className="block text-sm font-medium text-gray-700 mb-1">Loans to Merge In</label>
+                                      {otherOpenLoans.length === 0 ? (
+                                        <p className="text-sm text-gray-500">The member has no other open loans</p>
+                                      ) : (
+                                        otherOpenLoans.map(other => (
+                                          <label key={other.id} className="flex items-center gap-2 text-sm">
+                                            <input
+                                              type="checkbox"
+                                              checked={restructureForm.consolidate.includes(other.id)}
+                                              onChange={(e) => setRestructureForm({
+                                                ...restructureForm,
+                                                consolidate: e.target.checked
+                                                  ? [...restructureForm.consolidate, other.id]
+                                                  : restructureForm.consolidate.filter(id => id !== other.id),
+                                              })}
+                                            />
+                                            {other.id}: {formatCurrency(getOutstanding(other))} outstanding at {other.interestRate}%
+                                          </label>
+                                        ))
+                                      )}
+                                    </div>
+                                  )}
+                                  {needsGuarantorsConfirmed(restructureForm.kind) && (
+                                    <div className="md:col-span-2">
+                                      <label className="block text-sm font-medium text-gray-700 mb-1">Guarantors</label>
+                                      <p className="text-xs text-gray-500 mb-2">
+                                        The guarantors must agree again to stand behind the new loan
+                                      </p>
+                                      <div className="space-y-2">
+                                        {restructureForm.guarantors.map((guarantor, index) => (
+                                          <div key={index} className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                                            <select
+                                              required
+                                              value={guarantor.memberId}
+                                              onChange={(e) => updateRestructureGuarantors(restructureForm.guarantors.map((g, i) =>
+                                                i === index ? { ...g, memberId: e.target.value } : g))}
+                                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                            >
+                                              <option value="">Select Guarantor</option>
+                                              {members
+                                                .filter(m => m.isActive && m.id !== loan.memberId)
+                                                .filter(m => m.id === guarantor.memberId || !restructureForm.guarantors.some(g => g.memberId === m.id))
+                                                .map(m => (
+                                                  <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
+                                                ))}
+                                            </select>
+                                            <input
+                                              type="number"
+                                              step="0.01"
+                                              min="0"
+                                              required
+                                              placeholder="Amount pledged"
+                                              value={guarantor.amount}
+                                              onChange={(e) => updateRestructureGuarantors(restructureForm.guarantors.map((g, i) =>
+                                                i === index ? { ...g, amount: e.target.value } : g))}
+                                              className="sm:w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                            />
+                                            {guarantor.memberId && (
+                                              <span className="text-xs text-gray-500 sm:w-44">
+                                                Unpledged savings: {formatCurrency(Math.max(0, getRestructureUnpledged(guarantor.memberId, restructured.map(l => l.id))))}
+                                              </span>
+                                            )}
+                                            <button
+                                              type="button"
+                                              onClick={() => updateRestructureGuarantors(restructureForm.guarantors.filter((_, i) => i !== index))}
+                                              className="p-2 rounded-lg text-danger hover:bg-danger/10"
+                                              title="Remove guarantor"
+                                              aria-label="Remove guarantor"
+                                            >
+                                              <Trash2 size={16} />
+                                            </button>
+                                          </div>
+                                        ))}
+                                      </div>
+                                      {restructureForm.guarantors.length < MAX_GUARANTORS && (
+                                        <button
+                                          type="button"
+                                          onClick={() => updateRestructureGuarantors([...restructureForm.guarantors, { memberId: '', amount: '' }])}
+                                          className="mt-2 flex items-center gap-1 text-sm text-warning hover:underline"
+                                        >
+                                          <Plus size={16} />
+                                          Add Guarantor
+                                        </button>
+                                      )}
+                                    </div>
+                                  )}
+                                  <div className="md:col-span-2">
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+                                    <input
+                                      type="text"
+                                      placeholder="e.g. committee decision of the monthly meeting"
+                                      value={restructureForm.comment}
+                                      onChange={(e) => setRestructureForm({ ...restructureForm, comment: e.target.value })}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning text-base"
+                                    />
+                                  </div>
+                                </div>
+                                <p className="text-sm text-gray-600">
+                                  Outstanding carried over: {formatCurrency(carried)}. New loan:{' '}
+                                  {formatCurrency(carried + (restructureForm.kind === 'top-up' ? toPaisa(restructureForm.topUp || '0') : 0))}.
+                                  Collect interest due up to {formatDate(restructureForm.date)} first; it is not carried over.
+                                </p>
+                                <div className="flex gap-2">
+                                  <button
+                                    type="submit"
+                                    className="bg-warning text-white px-4 py-2 rounded-lg hover:bg-warning/90 text-sm font-medium"
+                                  >
+                                    Restructure
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() => setRestructureForm(null)}
+                                    className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </form>
+                            )}
+                          </div>
+                        )}
+                        <div className="mb-6">
+                          <h4 className="font-semibold mb-3">
+                            Repayment Schedule{!isDisbursed(loan) && ' (proposed)'}
+                          </h4>
+                          <div className="overflow-x-auto">
+                            <table className="w-full min-w-[560px] text-sm">
+                              <thead className="bg-gray-50">
+                                <tr>
+                                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
+                                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Principal</th>
+                                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Interest</th>
+                                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Paid</th>
+                                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Balance</th>
+                                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-gray-200">
+                                {schedule.lines.map((line) => (
+                                  <tr key={line.number}>
+                                    <td className="px-3 py-2">{line.number}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">{formatDate(line.dueDate)}</td>
+                                    <td className="px-3 py-2 text-right">{formatCurrency(line.principal)}</td>
+                                    <td className="px-3 py-2 text-right">{formatCurrency(line.interest)}</td>
+                                    <td className="px-3 py-2 text-right" title={line.paymentIds.join(', ')}>
+                                      {formatCurrency(line.principalPaid + line.interestPaid)}
+                                    </td>
+                                    <td className="px-3 py-2 text-right">{formatCurrency(line.balance)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap">
+                                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${SCHEDULE_STATUS_STYLES[line.status]}`}>
+                                        {line.status.charAt(0).toUpperCase() + line.status.slice(1)}
+                                      </span>
+                                      {line.paidDate && (
+                                        <span className="ml-2 text-xs text-gray-500">{formatDate(line.paidDate)}</span>
+                                      )}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                          {(schedule.excessPrincipal > 0 || schedule.excessInterest > 0) && (
+                            <p className="text-sm text-gray-600 mt-2">
+                              Paid beyond the schedule: principal {formatCurrency(schedule.excessPrincipal)}, interest {formatCurrency(schedule.excessInterest)}
+                            </p>
+                          )}
+                        </div>
                         <div>
                           <h4 className="font-semibold mb-3">Payment History</h4>
                           {loanPayments.length === 0 ? (
@@ -562,11 +1543,11 @@ export default function LoansPage() {
                                 handleEdit(loan);
                               }}
                               className={`flex-1 px-4 py-2 rounded-lg flex items-center justify-center gap-2 ${
-                                status === 'active' 
+                                editable 
                                   ? 'bg-warning text-white hover:bg-warning/90' 
                                   : 'bg-gray-200 text-gray-500 cursor-not-allowed'
                               }`}
-                              disabled={status === 'closed'}
+                              disabled={!editable}
                             >
                               <Edit size={16} />
                               Edit
@@ -574,7 +1555,7 @@ export default function LoansPage() {
                             <button
                               onClick={() => handleDelete(loan)}
                               className={`flex-1 px-4 py-2 rounded-lg flex items-center justify-center gap-2 ${
-                                status === 'active' 
+                                status !== 'closed' 
                                   ? 'bg-danger text-white hover:bg-danger/90' 
                                   : 'bg-gray-200 text-gray-500 cursor-not-allowed'
                               }`}
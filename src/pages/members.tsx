@@ -3,10 +3,13 @@
  */
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
-import { readFile, writeFile } from '@/lib/api';
-import { formatDate, generateMemberId, formatCurrency, calculateOutstandingPrincipal, calculateMonthlyInterest } from '@/lib/utils';
+import FieldError from '@/components/FieldError';
+import { readCollections, createRecord, updateRecord, deleteRecord, getFieldErrors, getDependents } from '@/lib/api';
+import { formatDate, generateMemberId, formatCurrency, withoutDeleted, describeCounts } from '@/lib/utils';
+import { loanPayments, loanBalance, memberPosition, isFinePaid, guaranteedLoans, guarantorDefaulters } from '@/lib/finance';
 import type { Member, Saving, Loan, Payment, FinePayment } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Plus, Search, Edit, Trash2, Eye } from 'lucide-react';
@@ -32,12 +35,15 @@ export default function MembersPage() {
   const [loans, setLoans] = useState<Loan[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
   const [fines, setFines] = useState<FinePayment[]>([]);
+  // IDs of all members, including those in the recycle bin, so a new member never reuses one
+  const [memberIds, setMemberIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingMember, setEditingMember] = useState<LocalMember | null>(null); // Using LocalMember
   const [viewingMember, setViewingMember] = useState<LocalMember | null>(null); // Using LocalMember
-  const [activeTab, setActiveTab] = useState<'savings' | 'loans' | 'payments' | 'fines'>('savings');
+  const [activeTab, setActiveTab] = useState<'savings' | 'loans' | 'guarantees' | 'payments' | 'fines'>('savings');
   const [searchTerm, setSearchTerm] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const { isAdmin } = useAuth();
 
   const [formData, setFormData] = useState<FormData>({ // Using FormData type
@@ -54,24 +60,25 @@ export default function MembersPage() {
 
   const loadData = async () => {
     try {
-      const [membersData, savingsData, loansData, paymentsData, finesData] = await Promise.all([
-        readFile<LocalMember[]>('data/members.json'), // Use LocalMember[] for reading
-        readFile<Saving[]>('data/savings.json'),
-        readFile<Loan[]>('data/loans.json'),
-        readFile<Payment[]>('data/payments.json'),
-        readFile<FinePayment[]>('data/fines.json'),
-      ]);
+      const {
+        members: membersData,
+        savings: savingsData,
+        loans: loansData,
+        payments: paymentsData,
+        fines: finesData,
+      } = await readCollections(['members', 'savings', 'loans', 'payments', 'fines'], { includeDeleted: ['members'] });
       // Ensure data is loaded with isActive set (if missing in file, default to true)
-      const membersWithStatus = (membersData || []).map(m => ({
+      const membersWithStatus = withoutDeleted(membersData).map(m => ({
         ...m,
         isActive: m.isActive ?? true,
       }));
 
+      setMemberIds(membersData.map(m => m.id));
       setMembers(membersWithStatus);
-      setSavings(savingsData || []);
-      setLoans(loansData || []);
-      setPayments(paymentsData || []);
-      setFines(finesData || []);
+      setSavings(savingsData);
+      setLoans(loansData);
+      setPayments(paymentsData);
+      setFines(finesData);
     } catch (error: any) {
       toast.error('Failed to load data: ' + error.message);
     } finally {
@@ -97,23 +104,16 @@ export default function MembersPage() {
     return fines.filter((f: FinePayment) => f.memberId === memberId);
   };
 
-  const getLoanPayments = (loanId: string): Payment[] => {
-    return payments.filter((p: Payment) => p.loanId === loanId);
-  };
+  const getLoanPayments = (loanId: string): Payment[] => loanPayments(loanId, payments);
 
-  const getOutstanding = (loan: Loan): number => {
-    const loanPayments = getLoanPayments(loan.id);
-    return calculateOutstandingPrincipal(
-      loan.principal,
-      loan.interestRate,
-      loan.termMonths,
-      loanPayments.map((p: Payment) => ({
-        principalPaid: p.principalPaid,
-        interestPaid: p.interestPaid,
-        date: p.date,
-      }))
-    );
-  };
+  const getPosition = (memberId: string) => memberPosition(memberId, { savings, loans, payments, fines });
+
+  const getGuaranteedLoans = (memberId: string) => guaranteedLoans(memberId, { loans, payments });
+
+  // The loans this member guarantees whose borrower is behind on interest
+  const getDefaultedGuarantees = (memberId: string) =>
+    guarantorDefaulters({ members, loans, payments }, new Date().toISOString().slice(0, 10))
+      .filter(d => d.memberId === memberId);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -123,22 +123,19 @@ export default function MembersPage() {
       return;
     }
 
+    setFieldErrors({});
     try {
-      const updatedMembers = [...members];
-      
       if (editingMember) {
         // Update existing
-        const index = updatedMembers.findIndex(m => m.id === editingMember.id);
-        updatedMembers[index] = {
-          ...editingMember,
+        await updateRecord<LocalMember>('members', editingMember.id, {
           ...formData,
           isActive: formData.isActive, // Include isActive from formData
-        };
+        });
         toast.success('Member updated successfully');
       } else {
         // Add new
-        const newId = generateMemberId(updatedMembers.map(m => m.id));
-        updatedMembers.push({
+        const newId = generateMemberId(memberIds);
+        await createRecord<LocalMember>('members', {
           id: newId,
           ...formData,
           isActive: formData.isActive, // Include isActive from formData
@@ -146,11 +143,10 @@ export default function MembersPage() {
         toast.success('Member added successfully');
       }
 
-      await writeFile('data/members.json', updatedMembers);
-      setMembers(updatedMembers);
       resetForm();
       await loadData();
     } catch (error: any) {
+      setFieldErrors(getFieldErrors(error));
       toast.error('Failed to save member: ' + error.message);
     }
   };
@@ -161,15 +157,32 @@ export default function MembersPage() {
       return;
     }
 
-    if (!confirm(`Are you sure you want to delete ${member.name}?`)) {
+    if (!confirm(`Move ${member.name} to the recycle bin? An admin can restore them from Settings.`)) {
       return;
     }
 
     try {
-      const updatedMembers = members.filter(m => m.id !== member.id);
-      await writeFile('data/members.json', updatedMembers);
-      setMembers(updatedMembers);
-      toast.success('Member deleted successfully');
+      try {
+        await deleteRecord<LocalMember>('members', member.id);
+      } catch (error) {
+        // Refused while their savings, loans, payments or fines still refer to them
+        const dependents = getDependents(error);
+        if (Object.keys(dependents).length === 0) throw error;
+
+        if (confirm(`${member.name} still has ${describeCounts(dependents)}. Move those to the recycle bin as well?`)) {
+          await deleteRecord<LocalMember>('members', member.id, { cascade: true });
+        } else {
+          if (member.isActive !== false && confirm(`Archive ${member.name} instead? They are marked inactive and keep their records.`)) {
+            await updateRecord<LocalMember>('members', member.id, { isActive: false });
+            toast.success(`Member ${member.name} archived`);
+            setViewingMember(null);
+            await loadData();
+          }
+          return;
+        }
+      }
+      setMembers(members.filter(m => m.id !== member.id));
+      toast.success('Member moved to the recycle bin');
       setViewingMember(null);
       await loadData();
     } catch (error: any) {
@@ -185,10 +198,8 @@ export default function MembersPage() {
     }
 
     try {
-      const updatedMembers = members.map(m => 
-        m.id === member.id ? { ...m, isActive: !member.isActive } : m
-      );
-      await writeFile('data/members.json', updatedMembers);
+      const updated = await updateRecord<LocalMember>('members', member.id, { isActive: !member.isActive });
+      const updatedMembers = members.map(m => (m.id === member.id ? { ...m, ...updated } : m));
       setMembers(updatedMembers);
       // Update viewing member state to reflect the change immediately in the modal
       setViewingMember(updatedMembers.find(m => m.id === member.id) || null);
@@ -210,6 +221,7 @@ export default function MembersPage() {
     setShowAddForm(false);
     setEditingMember(null);
     setViewingMember(null);
+    setFieldErrors({});
   };
 
   const handleEdit = (member: LocalMember) => { // Use LocalMember
@@ -298,6 +310,7 @@ export default function MembersPage() {
                       onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.name} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -310,6 +323,7 @@ export default function MembersPage() {
                       onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.phone} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -322,6 +336,7 @@ export default function MembersPage() {
                       onChange={(e) => setFormData({ ...formData, joinDate: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.joinDate} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
@@ -331,6 +346,7 @@ export default function MembersPage() {
                       onChange={(e) => setFormData({ ...formData, address: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.address} />
                   </div>
                   {/* ADDED: Active Status toggle on form - only visible if editing existing member */}
                   {editingMember && (
@@ -435,13 +451,21 @@ export default function MembersPage() {
                 <div className="p-4 sm:p-6">
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-xl sm:text-2xl font-bold text-gray-800">Member Review - {viewingMember.name}</h3>
-                    <button
-                      onClick={() => setViewingMember(null)}
-                      className="text-gray-500 hover:text-gray-700 active:text-gray-900 p-2 touch-manipulation"
-                      aria-label="Close"
-                    >
-                      <span className="text-2xl">✕</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={{ pathname: '/history', query: { recordId: viewingMember.id } }}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        View History
+                      </Link>
+                      <button
+                        onClick={() => setViewingMember(null)}
+                        className="text-gray-500 hover:text-gray-700 active:text-gray-900 p-2 touch-manipulation"
+                        aria-label="Close"
+                      >
+                        <span className="text-2xl">✕</span>
+                      </button>
+                    </div>
                   </div>
 
                   {/* Member Basic Info */}
@@ -500,6 +524,19 @@ export default function MembersPage() {
                       >
                         Loans ({getMemberLoans(viewingMember.id).length})
                       </button>
+                      <button
+                        onClick={() => setActiveTab('guarantees')}
+                        className={`px-4 py-2 font-medium text-sm whitespace-nowrap border-b-2 transition-colors ${
+                          activeTab === 'guarantees'
+                            ? 'border-warning text-warning'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                        }`}
+                      >
+                        Guaranteed Loans ({getGuaranteedLoans(viewingMember.id).length})
+                        {getDefaultedGuarantees(viewingMember.id).length > 0 && (
+                          <span className="ml-1 text-danger">⚠</span>
+                        )}
+                      </button>
                       <button
                         onClick={() => setActiveTab('payments')}
                         className={`px-4 py-2 font-medium text-sm whitespace-nowrap border-b-2 transition-colors ${
@@ -531,7 +568,7 @@ export default function MembersPage() {
                         <div className="mb-4 flex justify-between items-center">
                           <h4 className="text-lg font-semibold text-gray-800">Saving Transactions</h4>
                           <p className="text-sm text-gray-600">
-                            Total: <span className="font-bold text-success">{formatCurrency(getMemberSavings(viewingMember.id).reduce((sum: number, s: Saving) => sum + s.amount, 0))}</span>
+                            Total: <span className="font-bold text-success">{formatCurrency(getPosition(viewingMember.id).savings)}</span>
                           </p>
                         </div>
                         {getMemberSavings(viewingMember.id).length === 0 ? (
@@ -561,15 +598,17 @@ export default function MembersPage() {
                         ) : (
                           <div className="space-y-4 max-h-[400px] overflow-y-auto">
                             {getMemberLoans(viewingMember.id).map((loan: Loan) => {
-                              const outstanding = getOutstanding(loan);
-                              const monthlyInterest = calculateMonthlyInterest(outstanding, loan.interestRate);
+                              const { outstanding, monthlyInterest, status } = loanBalance(loan, payments);
                               const loanPayments = getLoanPayments(loan.id);
                               return (
                                 <div key={loan.id} className="p-4 bg-gray-50 rounded-lg">
                                   <div className="grid grid-cols-2 gap-4 mb-3">
                                     <div>
                                       <label className="text-sm font-medium text-gray-500">Loan ID</label>
-                                      <p className="font-semibold">{loan.id}</p>
+                                      <p className="font-semibold">
+                                        {loan.id}
+                                        <span className="ml-2 text-xs font-normal text-gray-500 capitalize">{status.replace('-', ' ')}</span>
+                                      </p>
                                     </div>
                                     <div>
                                       <label className="text-sm font-medium text-gray-500">Principal</label>
@@ -626,6 +665,51 @@ export default function MembersPage() {
                       </div>
                     )}
 
+                    {/* Guaranteed Loans Tab */}
+                    {activeTab === 'guarantees' && (
+                      <div>
+                        <div className="mb-4 flex justify-between items-center">
+                          <h4 className="text-lg font-semibold text-gray-800">Guaranteed Loans</h4>
+                          <p className="text-sm text-gray-600">
+                            Liability: <span className="font-bold text-warning">
+                              {formatCurrency(getGuaranteedLoans(viewingMember.id).reduce((sum, g) => sum + g.liability, 0))}
+                            </span>
+                          </p>
+                        </div>
+                        {getGuaranteedLoans(viewingMember.id).length === 0 ? (
+                          <p className="text-gray-500 text-center py-8">Not a guarantor for any loan</p>
+                        ) : (
+                          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+                            {getGuaranteedLoans(viewingMember.id).map(guarantee => {
+                              const borrower = members.find(m => m.id === guarantee.memberId);
+                              const defaulted = getDefaultedGuarantees(viewingMember.id).find(d => d.loanId === guarantee.loanId);
+                              return (
+                                <div key={guarantee.loanId} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                                  <div>
+                                    <p className="font-semibold">
+                                      {guarantee.loanId}
+                                      {defaulted && (
+                                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                          Borrower in default ({defaulted.pendingMonths} {defaulted.pendingMonths === 1 ? 'month' : 'months'})
+                                        </span>
+                                      )}
+                                    </p>
+                                    <p className="text-sm text-gray-600">
+                                      Borrower: {borrower?.name || guarantee.memberId} ({guarantee.memberId})
+                                    </p>
+                                  </div>
+                                  <div className="text-right text-sm">
+                                    <p>Pledged: {formatCurrency(guarantee.pledged)}</p>
+                                    <p className="font-semibold text-warning">Liable: {formatCurrency(guarantee.liability)}</p>
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Payments Tab */}
                     {activeTab === 'payments' && (
                       <div>
@@ -670,7 +754,10 @@ export default function MembersPage() {
                         <div className="mb-4 flex justify-between items-center">
                           <h4 className="text-lg font-semibold text-gray-800">Fine Payments</h4>
                           <p className="text-sm text-gray-600">
-                            Total: <span className="font-bold text-danger">{formatCurrency(getMemberFines(viewingMember.id).reduce((sum: number, f: FinePayment) => sum + f.amount, 0))}</span>
+                            Total: <span className="font-bold text-danger">{formatCurrency(getPosition(viewingMember.id).fines)}</span>
+                            {getPosition(viewingMember.id).finesDue > 0 && (
+                              <span className="ml-2">Due: <span className="font-bold text-warning">{formatCurrency(getPosition(viewingMember.id).finesDue)}</span></span>
+                            )}
                           </p>
                         </div>
                         {getMemberFines(viewingMember.id).length === 0 ? (
@@ -680,8 +767,16 @@ export default function MembersPage() {
                             {getMemberFines(viewingMember.id).map((fine: FinePayment) => (
                               <div key={fine.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                                 <div>
-                                  <p className="font-semibold text-danger">{formatCurrency(fine.amount)}</p>
-                                  <p className="text-sm text-gray-500">{formatDate(fine.date)}</p>
+                                  <p className="font-semibold text-danger">
+                                    {formatCurrency(fine.amount)}
+                                    {!isFinePaid(fine) && (
+                                      <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Due</span>
+                                    )}
+                                  </p>
+                                  <p className="text-sm text-gray-500">
+                                    {formatDate(fine.date)}
+                                    {fine.paidDate && ` (paid ${formatDate(fine.paidDate)})`}
+                                  </p>
                                   <p className="text-sm text-gray-600 mt-1">Reason: {fine.reason}</p>
                                   {fine.note && <p className="text-sm text-gray-600 mt-1">Note: {fine.note}</p>}
                                 </div>
@@ -5,8 +5,12 @@
 import { useState, useEffect } from 'react';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
-import { readFile, writeFile } from '@/lib/api';
-import { formatCurrency, formatDate, calculateMonthlyInterest, calculateOutstandingPrincipal } from '@/lib/utils';
+import FieldError from '@/components/FieldError';
+import { readCollections, createRecord, updateRecord, deleteRecord, getFieldErrors, readConfig, applyRecordChanges } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { loanPayments, loanBalance, interestDue, allocatePayment, isFinePaid } from '@/lib/finance';
+import { DEFAULT_CONFIG, type GroupConfig } from '@/lib/config';
+import { toPaisa, toInputValue } from '@/lib/money';
 import type { Member, Loan, Payment, FinePayment, Expenditure } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Plus, Search, Edit, Trash2, Eye } from 'lucide-react';
@@ -35,12 +39,18 @@ export default function PaymentsPage() {
   const [editingExpenditure, setEditingExpenditure] = useState<Expenditure | null>(null);
   const [fines, setFines] = useState<FinePayment[]>([]);
   const [expenditures, setExpenditures] = useState<Expenditure[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [fineErrors, setFineErrors] = useState<Record<string, string>>({});
+  const [expErrors, setExpErrors] = useState<Record<string, string>>({});
+  const [config, setConfig] = useState<GroupConfig>(DEFAULT_CONFIG);
 
   const [formData, setFormData] = useState({
     loanId: '',
     date: new Date().toISOString().split('T')[0],
+    amountReceived: '',
     principalPaid: '',
     interestPaid: '',
+    fineIds: [] as string[],
     remarks: '',
   });
   const [fineForm, setFineForm] = useState({
@@ -49,6 +59,7 @@ export default function PaymentsPage() {
     amount: '',
     reason: 'Saving Default' as 'Saving Default' | 'Interest Default' | 'Other',
     note: '',
+    status: 'paid' as 'due' | 'paid',
   });
   const [expForm, setExpForm] = useState({
     date: new Date().toISOString().split('T')[0],
@@ -63,26 +74,26 @@ export default function PaymentsPage() {
 
   const loadData = async () => {
     try {
-      // CHANGED: Reading membersData as any[] to handle the extra isActive property from file
-      const [membersData, loansData, paymentsData, finesData, expData] = await Promise.all([
-        readFile<any[]>('data/members.json'),
-        readFile<Loan[]>('data/loans.json'),
-        readFile<Payment[]>('data/payments.json'),
-        readFile<FinePayment[]>('data/fines.json'),
-        readFile<Expenditure[]>('data/expenditures.json'),
-      ]);
+      const {
+        members: membersData,
+        loans: loansData,
+        payments: paymentsData,
+        fines: finesData,
+        expenditures: expData,
+      } = await readCollections(['members', 'loans', 'payments', 'fines', 'expenditures']);
+      setConfig(await readConfig());
 
       // ADDED: Logic to process isActive status, defaulting to true if not present
-      const membersWithStatus = (membersData || []).map(m => ({
+      const membersWithStatus = membersData.map(m => ({
         ...m,
         isActive: m.isActive ?? true,
       })) as LocalMember[]; // Type cast to LocalMember[]
 
       setMembers(membersWithStatus); // UPDATED
-      setLoans(loansData || []);
-      setPayments(paymentsData || []);
-      setFines(finesData || []);
-      setExpenditures(expData || []);
+      setLoans(loansData);
+      setPayments(paymentsData);
+      setFines(finesData);
+      setExpenditures(expData);
     } catch (error: any) {
       toast.error('Failed to load data: ' + error.message);
     } finally {
@@ -90,37 +101,62 @@ export default function PaymentsPage() {
     }
   };
 
-  const getLoanPayments = (loanId: string) => {
-    return payments.filter(p => p.loanId === loanId);
+  const getLoanPayments = (loanId: string) => loanPayments(loanId, payments);
+  const getOutstanding = (loan: Loan) => loanBalance(loan, payments).outstanding;
+
+  // Interest owed on a loan as of a date, by the group's day-count convention
+  const getInterestDue = (loanId: string, date: string) => {
+    const loan = loans.find(l => l.id === loanId);
+    if (!loan || !date) return 0;
+    const otherPayments = payments.filter(p => p.id !== editingPayment?.id);
+    return interestDue(loan, otherPayments, date, config.dayCount);
   };
 
-  const getOutstanding = (loan: Loan) => {
-    const loanPayments = getLoanPayments(loan.id);
-    return calculateOutstandingPrincipal(
-      loan.principal,
-      loan.interestRate,
-      loan.termMonths,
-      loanPayments.map(p => ({
-        principalPaid: p.principalPaid,
-        interestPaid: p.interestPaid,
-        date: p.date,
-      }))
-    );
+  // How the amount received on a new payment splits, by the allocation order in Settings
+  const getAllocation = (form: typeof formData) => {
+    const loan = loans.find(l => l.id === form.loanId);
+    const amount = toPaisa(form.amountReceived);
+    if (editingPayment || !loan || !form.date || isNaN(amount)) return null;
+    return allocatePayment(amount, loan, { payments, fines }, form.date, {
+      dayCount: config.dayCount,
+      order: config.allocationOrder,
+    });
+  };
+
+  // Fill in the split of a new payment; without an amount received, just the interest due.
+  // An edited payment keeps what was entered.
+  const withAllocation = (form: typeof formData): typeof formData => {
+    if (editingPayment || !form.loanId) return form;
+    const allocation = getAllocation(form);
+    if (!allocation) {
+      return { ...form, interestPaid: toInputValue(getInterestDue(form.loanId, form.date)), fineIds: [] };
+    }
+    return {
+      ...form,
+      principalPaid: toInputValue(allocation.principal),
+      interestPaid: toInputValue(allocation.interest),
+      fineIds: allocation.fineIds,
+    };
   };
 
   const handleLoanSelect = (loanId: string) => {
     const loan = loans.find(l => l.id === loanId);
     if (loan) {
-      const outstanding = getOutstanding(loan);
-      const monthlyInterest = calculateMonthlyInterest(outstanding, loan.interestRate);
-      setFormData({
-        ...formData,
-        loanId,
-        interestPaid: monthlyInterest.toFixed(2),
-      });
+      setFormData(withAllocation({ ...formData, loanId }));
     }
   };
 
+  const handleDateChange = (date: string) => {
+    setFormData(withAllocation({ ...formData, date }));
+  };
+
+  const toggleFine = (fineId: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      fineIds: checked ? [...formData.fineIds, fineId] : formData.fineIds.filter(id => id !== fineId),
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -129,6 +165,7 @@ export default function PaymentsPage() {
       return;
     }
 
+    setFieldErrors({});
     try {
       const loan = loans.find(l => l.id === formData.loanId);
       if (!loan) {
@@ -136,37 +173,48 @@ export default function PaymentsPage() {
         return;
       }
 
-      const updatedPayments = [...payments];
-      
       if (editingPayment) {
-        const index = updatedPayments.findIndex(p => p.id === editingPayment.id);
-        updatedPayments[index] = {
-          ...editingPayment,
-          loanId: formData.loanId,
-          date: formData.date,
-          principalPaid: parseFloat(formData.principalPaid),
-          interestPaid: parseFloat(formData.interestPaid),
-          remarks: formData.remarks || undefined,
-        };
-        toast.success('Payment updated successfully');
-      } else {
-        const newId = `P-${Date.now()}`;
-        updatedPayments.push({
-          id: newId,
+        const updated = await updateRecord<Payment>('payments', editingPayment.id, {
           loanId: formData.loanId,
           memberId: loan.memberId,
           date: formData.date,
-          principalPaid: parseFloat(formData.principalPaid),
-          interestPaid: parseFloat(formData.interestPaid),
-          remarks: formData.remarks || undefined,
+          principalPaid: toPaisa(formData.principalPaid),
+          interestPaid: toPaisa(formData.interestPaid),
+          remarks: formData.remarks || null,
         });
-        toast.success('Payment added successfully');
+        setPayments(payments.map(p => (p.id === updated.id ? updated : p)));
+        toast.success('Payment updated successfully');
+      } else {
+        // The payment and the fines it settles are saved in one commit
+        const [created, ...settled] = await applyRecordChanges([
+          {
+            action: 'create',
+            collection: 'payments',
+            record: {
+              loanId: formData.loanId,
+              memberId: loan.memberId,
+              date: formData.date,
+              principalPaid: toPaisa(formData.principalPaid),
+              interestPaid: toPaisa(formData.interestPaid),
+              remarks: formData.remarks || undefined,
+            },
+          },
+          ...formData.fineIds.map(id => ({
+            action: 'update' as const,
+            collection: 'fines' as const,
+            id,
+            changes: { status: 'paid', paidDate: formData.date },
+          })),
+        ]);
+        setPayments([...payments, created as Payment]);
+        const settledById = new Map((settled as FinePayment[]).map(f => [f.id, f]));
+        setFines(fines.map(f => settledById.get(f.id) || f));
+        toast.success(settled.length > 0 ? `Payment added, settling ${settled.length} fine(s)` : 'Payment added successfully');
       }
 
-      await writeFile('data/payments.json', updatedPayments);
-      setPayments(updatedPayments);
       resetForm();
     } catch (error: any) {
+      setFieldErrors(getFieldErrors(error));
       toast.error('Failed to save payment: ' + error.message);
     }
   };
@@ -177,15 +225,14 @@ export default function PaymentsPage() {
       return;
     }
 
-    if (!confirm('Are you sure you want to delete this payment?')) {
+    if (!confirm('Move this payment to the recycle bin? An admin can restore it from Settings.')) {
       return;
     }
 
     try {
-      const updatedPayments = payments.filter(p => p.id !== payment.id);
-      await writeFile('data/payments.json', updatedPayments);
-      setPayments(updatedPayments);
-      toast.success('Payment deleted successfully');
+      await deleteRecord<Payment>('payments', payment.id);
+      setPayments(payments.filter(p => p.id !== payment.id));
+      toast.success('Payment moved to the recycle bin');
     } catch (error: any) {
       toast.error('Failed to delete payment: ' + error.message);
     }
@@ -195,8 +242,10 @@ export default function PaymentsPage() {
     setFormData({
       loanId: '',
       date: new Date().toISOString().split('T')[0],
+      amountReceived: '',
       principalPaid: '',
       interestPaid: '',
+      fineIds: [],
       remarks: '',
     });
     setShowAddForm(false);
@@ -208,6 +257,9 @@ export default function PaymentsPage() {
     setEditingFine(null);
     setEditingExpenditure(null);
     setViewingExpenditure(null);
+    setFieldErrors({});
+    setFineErrors({});
+    setExpErrors({});
   };
 
   const handleEdit = (payment: Payment) => {
@@ -215,8 +267,10 @@ export default function PaymentsPage() {
     setFormData({
       loanId: payment.loanId,
       date: payment.date,
-      principalPaid: payment.principalPaid.toString(),
-      interestPaid: payment.interestPaid.toString(),
+      amountReceived: '',
+      principalPaid: toInputValue(payment.principalPaid),
+      interestPaid: toInputValue(payment.interestPaid),
+      fineIds: [],
       remarks: payment.remarks || '',
     });
     setViewingLoanId(null);
@@ -228,18 +282,18 @@ export default function PaymentsPage() {
       return;
     }
 
-    if (!confirm('Are you sure you want to delete this fine payment?')) {
+    if (!confirm('Move this fine payment to the recycle bin? An admin can restore it from Settings.')) {
       return;
     }
 
     try {
+      await deleteRecord<FinePayment>('fines', fine.id);
       const updatedFines = fines.filter(f => f.id !== fine.id);
-      await writeFile('data/fines.json', updatedFines);
       setFines(updatedFines);
       if (viewingFineMemberId && updatedFines.filter(f => f.memberId === viewingFineMemberId).length === 0) {
         setViewingFineMemberId(null);
       }
-      toast.success('Fine payment deleted successfully');
+      toast.success('Fine payment moved to the recycle bin');
     } catch (error: any) {
       toast.error('Failed to delete fine: ' + error.message);
     }
@@ -250,9 +304,10 @@ export default function PaymentsPage() {
     setFineForm({
       memberId: fine.memberId,
       date: fine.date,
-      amount: fine.amount.toString(),
+      amount: toInputValue(fine.amount),
       reason: fine.reason,
       note: fine.note || '',
+      status: fine.status || 'paid',
     });
     setShowFineForm(true);
     setViewingFineMemberId(null);
@@ -264,15 +319,14 @@ export default function PaymentsPage() {
       return;
     }
 
-    if (!confirm('Are you sure you want to delete this expenditure?')) {
+    if (!confirm('Move this expenditure to the recycle bin? An admin can restore it from Settings.')) {
       return;
     }
 
     try {
-      const updatedExpenditures = expenditures.filter(e => e.id !== exp.id);
-      await writeFile('data/expenditures.json', updatedExpenditures);
-      setExpenditures(updatedExpenditures);
-      toast.success('Expenditure deleted successfully');
+      await deleteRecord<Expenditure>('expenditures', exp.id);
+      setExpenditures(expenditures.filter(e => e.id !== exp.id));
+      toast.success('Expenditure moved to the recycle bin');
     } catch (error: any) {
       toast.error('Failed to delete expenditure: ' + error.message);
     }
@@ -283,7 +337,7 @@ export default function PaymentsPage() {
     setExpForm({
       date: exp.date,
       item: exp.item,
-      amount: exp.amount.toString(),
+      amount: toInputValue(exp.amount),
       note: exp.note || '',
     });
     setShowExpForm(true);
@@ -375,10 +429,10 @@ export default function PaymentsPage() {
                     >
                       <option value="">Select Loan</option>
                       {loans
-                        .filter(loan => loan.status !== 'closed' && getOutstanding(loan) > 0)
+                        .filter(loan => ['disbursed', 'active'].includes(loanBalance(loan, payments).status))
                         .map(loan => {
                           // Note: Member status check is not strictly necessary here, 
-                          // as only active loans (non-closed, outstanding > 0) are shown.
+                          // as only disbursed, open loans (outstanding > 0) are shown.
                           const member = members.find(m => m.id === loan.memberId);
                           const outstanding = getOutstanding(loan);
                           return (
@@ -388,6 +442,7 @@ export default function PaymentsPage() {
                           );
                         })}
                     </select>
+                    <FieldError message={fieldErrors.loanId || fieldErrors.memberId} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -397,19 +452,36 @@ export default function PaymentsPage() {
                       type="date"
                       required
                       value={formData.date}
-                      onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                      onChange={(e) => handleDateChange(e.target.value)}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-info touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.date} />
                   </div>
+                  {!editingPayment && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Amount Received
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.amountReceived}
+                        onChange={(e) => setFormData(withAllocation({ ...formData, amountReceived: e.target.value }))}
+                        placeholder="Split automatically"
+                        className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-info touch-manipulation text-base"
+                      />
+                    </div>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Interest Preview (per month)
+                      Interest Due (on payment date, {config.dayCount})
                     </label>
                     <input
                       type="number"
                       step="0.01"
                       readOnly
-                      value={formData.interestPaid}
+                      value={formData.loanId ? toInputValue(getInterestDue(formData.loanId, formData.date)) : ''}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg bg-gray-100 touch-manipulation text-base"
                     />
                   </div>
@@ -426,6 +498,7 @@ export default function PaymentsPage() {
                       onChange={(e) => setFormData({ ...formData, principalPaid: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-info touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.principalPaid} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -440,6 +513,7 @@ export default function PaymentsPage() {
                       onChange={(e) => setFormData({ ...formData, interestPaid: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-info touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.interestPaid} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Remarks</label>
@@ -449,8 +523,47 @@ export default function PaymentsPage() {
                       onChange={(e) => setFormData({ ...formData, remarks: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-info touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.remarks} />
                   </div>
                 </div>
+                {(() => {
+                  const allocation = getAllocation(formData);
+                  if (!allocation) return null;
+                  const memberFines = fines.filter(f => f.memberId === loans.find(l => l.id === formData.loanId)?.memberId && !isFinePaid(f));
+                  const settledFines = memberFines.filter(f => formData.fineIds.includes(f.id));
+                  const applied = toPaisa(formData.principalPaid || '0') + toPaisa(formData.interestPaid || '0')
+                    + settledFines.reduce((sum, f) => sum + f.amount, 0);
+                  return (
+                    <div className="p-4 bg-gray-50 rounded-lg text-sm space-y-1">
+                      <p className="font-semibold text-gray-800">Split of the amount received</p>
+                      <p>Fines: {formatCurrency(allocation.fines)}</p>
+                      <p>Interest: {formatCurrency(allocation.interest)}</p>
+                      <p>Overdue principal: {formatCurrency(allocation.overduePrincipal)}</p>
+                      <p>Current principal: {formatCurrency(allocation.currentPrincipal)}</p>
+                      {allocation.unallocated > 0 && (
+                        <p className="text-danger">Not allocated (more than is owed): {formatCurrency(allocation.unallocated)}</p>
+                      )}
+                      {memberFines.length > 0 && (
+                        <div className="pt-2">
+                          <p className="font-medium text-gray-700">Due fines settled by this payment</p>
+                          {memberFines.map(fine => (
+                            <label key={fine.id} className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={formData.fineIds.includes(fine.id)}
+                                onChange={(e) => toggleFine(fine.id, e.target.checked)}
+                              />
+                              {formatDate(fine.date)} - {fine.reason} - {formatCurrency(fine.amount)}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                      <p className="pt-2 text-gray-600">
+                        The principal and interest above can be changed before saving. Total applied: {formatCurrency(isNaN(applied) ? 0 : applied)}
+                      </p>
+                    </div>
+                  );
+                })()}
                 <div className="flex flex-col sm:flex-row gap-2">
                   <button
                     type="submit"
@@ -493,6 +606,7 @@ export default function PaymentsPage() {
                         <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
                       ))}
                   </select>
+                  <FieldError message={fineErrors.memberId} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
@@ -502,6 +616,7 @@ export default function PaymentsPage() {
                     onChange={(e) => setFineForm({ ...fineForm, date: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
                   />
+                  <FieldError message={fineErrors.date} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
@@ -513,6 +628,7 @@ export default function PaymentsPage() {
                     onChange={(e) => setFineForm({ ...fineForm, amount: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
                   />
+                  <FieldError message={fineErrors.amount} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
@@ -525,6 +641,19 @@ export default function PaymentsPage() {
                     <option>Interest Default</option>
                     <option>Other</option>
                   </select>
+                  <FieldError message={fineErrors.reason} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                  <select
+                    value={fineForm.status}
+                    onChange={(e) => setFineForm({ ...fineForm, status: e.target.value as 'due' | 'paid' })}
+                    className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
+                  >
+                    <option value="paid">Paid</option>
+                    <option value="due">Due (settled from a loan repayment)</option>
+                  </select>
+                  <FieldError message={fineErrors.status} />
                 </div>
                 <div className="md:col-span-2">
                   <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
@@ -534,6 +663,7 @@ export default function PaymentsPage() {
                     onChange={(e) => setFineForm({ ...fineForm, note: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-warning touch-manipulation text-base"
                   />
+                  <FieldError message={fineErrors.note} />
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row gap-2 mt-4">
@@ -544,45 +674,39 @@ export default function PaymentsPage() {
                       toast.error('Select a member for the fine');
                       return;
                     }
-                    const amount = parseFloat(fineForm.amount);
+                    const amount = toPaisa(fineForm.amount);
                     if (!amount || amount <= 0) {
                       toast.error('Enter a positive fine amount');
                       return;
                     }
+                    setFineErrors({});
                     try {
-                      const list = fines || [];
-                      let updated: FinePayment[];
                       if (editingFine) {
-                        updated = list.map(f => 
-                          f.id === editingFine.id
-                            ? {
-                                ...f,
-                                memberId: fineForm.memberId,
-                                date: fineForm.date,
-                                amount,
-                                reason: fineForm.reason,
-                                note: fineForm.note || undefined,
-                              }
-                            : f
-                        );
+                        await updateRecord<FinePayment>('fines', editingFine.id, {
+                          memberId: fineForm.memberId,
+                          date: fineForm.date,
+                          amount,
+                          reason: fineForm.reason,
+                          note: fineForm.note || null,
+                          status: fineForm.status,
+                          ...(fineForm.status === 'due' && { paidDate: null }),
+                        });
                         toast.success('Fine payment updated successfully');
                       } else {
-                        const newItem: FinePayment = {
-                          id: `F-${Date.now()}`,
+                        await createRecord<FinePayment>('fines', {
                           memberId: fineForm.memberId,
                           date: fineForm.date,
                           amount,
                           reason: fineForm.reason,
                           note: fineForm.note || undefined,
-                        };
-                        updated = [...list, newItem];
+                          status: fineForm.status,
+                        });
                         toast.success('Fine payment added successfully');
                       }
-                      await writeFile('data/fines.json', updated);
-                      setFines(updated);
                       await loadData();
                       resetForm();
                     } catch (e: any) {
+                      setFineErrors(getFieldErrors(e));
                       toast.error('Failed to save fine: ' + e.message);
                     }
                   }}
@@ -615,6 +739,7 @@ export default function PaymentsPage() {
                     onChange={(e) => setExpForm({ ...expForm, date: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-danger touch-manipulation text-base"
                   />
+                  <FieldError message={expErrors.date} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Item</label>
@@ -625,6 +750,7 @@ export default function PaymentsPage() {
                     onChange={(e) => setExpForm({ ...expForm, item: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-danger touch-manipulation text-base"
                   />
+                  <FieldError message={expErrors.item} />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
@@ -636,6 +762,7 @@ export default function PaymentsPage() {
                     onChange={(e) => setExpForm({ ...expForm, amount: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-danger touch-manipulation text-base"
                   />
+                  <FieldError message={expErrors.amount} />
                 </div>
                 <div className="md:col-span-3">
                   <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
@@ -645,13 +772,14 @@ export default function PaymentsPage() {
                     onChange={(e) => setExpForm({ ...expForm, note: e.target.value })}
                     className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-danger touch-manipulation text-base"
                   />
+                  <FieldError message={expErrors.note} />
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row gap-2 mt-4">
                 <button
                   onClick={async () => {
                     if (!isAdmin) return;
-                    const amount = parseFloat(expForm.amount);
+                    const amount = toPaisa(expForm.amount);
                     if (!expForm.item.trim()) {
                       toast.error('Enter expenditure item');
                       return;
@@ -660,38 +788,29 @@ export default function PaymentsPage() {
                       toast.error('Enter a positive expenditure amount');
                       return;
                     }
+                    setExpErrors({});
                     try {
-                      const list = expenditures || [];
-                      let updated: Expenditure[];
                       if (editingExpenditure) {
-                        updated = list.map(e => 
-                          e.id === editingExpenditure.id
-                            ? {
-                                ...e,
-                                date: expForm.date,
-                                item: expForm.item,
-                                amount,
-                                note: expForm.note || undefined,
-                              }
-                            : e
-                        );
+                        await updateRecord<Expenditure>('expenditures', editingExpenditure.id, {
+                          date: expForm.date,
+                          item: expForm.item,
+                          amount,
+                          note: expForm.note || null,
+                        });
                         toast.success('Expenditure updated successfully');
                       } else {
-                        const newItem: Expenditure = {
-                          id: `E-${Date.now()}`,
+                        await createRecord<Expenditure>('expenditures', {
                           date: expForm.date,
                           item: expForm.item,
                           amount,
                           note: expForm.note || undefined,
-                        };
-                        updated = [...list, newItem];
+                        });
                         toast.success('Expenditure added successfully');
                       }
-                      await writeFile('data/expenditures.json', updated);
-                      setExpenditures(updated);
                       await loadData();
                       resetForm();
                     } catch (e: any) {
+                      setExpErrors(getFieldErrors(e));
                       toast.error('Failed to save expenditure: ' + e.message);
                     }
                   }}
@@ -769,11 +888,11 @@ export default function PaymentsPage() {
                       });
                     });
 
-                    fines.forEach((fine) => {
+                    fines.filter(isFinePaid).forEach((fine) => {
                       const member = members.find(m => m.id === fine.memberId);
                       allPayments.push({
                         id: fine.id,
-                        date: fine.date,
+                        date: fine.paidDate || fine.date,
                         type: 'Fine Payment',
                         memberName: member?.name,
                         memberId: fine.memberId,
@@ -1085,9 +1204,15 @@ export default function PaymentsPage() {
                                 className="flex items-center justify-between p-4 bg-gray-50 rounded-lg"
                               >
                                 <div>
-                                  <p className="font-semibold">{formatDate(fine.date)}</p>
+                                  <p className="font-semibold">
+                                    {formatDate(fine.date)}
+                                    {!isFinePaid(fine) && (
+                                      <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Due</span>
+                                    )}
+                                  </p>
                                   <p className="text-sm text-gray-600">
                                     Amount: {formatCurrency(fine.amount)}
+                                    {fine.paidDate && ` (paid ${formatDate(fine.paidDate)})`}
                                   </p>
                                   <p className="text-sm text-gray-500">Reason: {fine.reason}</p>
                                   {fine.note && (
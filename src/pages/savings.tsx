@@ -5,8 +5,10 @@
 import { useState, useEffect } from 'react';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
-import { readFile, writeFile } from '@/lib/api';
+import FieldError from '@/components/FieldError';
+import { readCollections, createRecord, updateRecord, deleteRecord, getFieldErrors } from '@/lib/api';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import { toPaisa, toInputValue } from '@/lib/money';
 import type { Member, Saving } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Plus, Search, Edit, Trash2, Eye } from 'lucide-react';
@@ -25,6 +27,7 @@ export default function SavingsPage() {
   const [editingSaving, setEditingSaving] = useState<Saving | null>(null);
   const [viewingMemberId, setViewingMemberId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const { isAdmin } = useAuth();
 
   const [formData, setFormData] = useState({
@@ -40,20 +43,16 @@ export default function SavingsPage() {
 
   const loadData = async () => {
     try {
-      // CHANGED: Reading data as any[] to handle the extra isActive property from file
-      const [membersData, savingsData] = await Promise.all([
-        readFile<any[]>('data/members.json'),
-        readFile<Saving[]>('data/savings.json'),
-      ]);
+      const { members: membersData, savings: savingsData } = await readCollections(['members', 'savings']);
 
       // ADDED: Logic to process isActive status, defaulting to true if not present
-      const membersWithStatus = (membersData || []).map(m => ({
+      const membersWithStatus = membersData.map(m => ({
         ...m,
         isActive: m.isActive ?? true,
       })) as LocalMember[]; // Type cast to LocalMember[]
 
       setMembers(membersWithStatus);
-      setSavings(savingsData || []);
+      setSavings(savingsData);
     } catch (error: any) {
       toast.error('Failed to load data: ' + error.message);
     } finally {
@@ -77,35 +76,31 @@ export default function SavingsPage() {
       return;
     }
 
+    setFieldErrors({});
     try {
-      const updatedSavings = [...savings];
-      
       if (editingSaving) {
-        const index = updatedSavings.findIndex(s => s.id === editingSaving.id);
-        updatedSavings[index] = {
-          ...editingSaving,
+        const updated = await updateRecord<Saving>('savings', editingSaving.id, {
           memberId: formData.memberId,
-          amount: parseFloat(formData.amount),
+          amount: toPaisa(formData.amount),
           date: formData.date,
           remarks: formData.remarks,
-        };
+        });
+        setSavings(savings.map(s => (s.id === updated.id ? updated : s)));
         toast.success('Saving updated successfully');
       } else {
-        const newId = `S-${Date.now()}`;
-        updatedSavings.push({
-          id: newId,
+        const created = await createRecord<Saving>('savings', {
           memberId: formData.memberId,
-          amount: parseFloat(formData.amount),
+          amount: toPaisa(formData.amount),
           date: formData.date,
           remarks: formData.remarks || undefined,
         });
+        setSavings([...savings, created]);
         toast.success('Saving added successfully');
       }
 
-      await writeFile('data/savings.json', updatedSavings);
-      setSavings(updatedSavings);
       resetForm();
     } catch (error: any) {
+      setFieldErrors(getFieldErrors(error));
       toast.error('Failed to save saving: ' + error.message);
     }
   };
@@ -116,15 +111,14 @@ export default function SavingsPage() {
       return;
     }
 
-    if (!confirm('Are you sure you want to delete this saving transaction?')) {
+    if (!confirm('Move this saving transaction to the recycle bin? An admin can restore it from Settings.')) {
       return;
     }
 
     try {
-      const updatedSavings = savings.filter(s => s.id !== saving.id);
-      await writeFile('data/savings.json', updatedSavings);
-      setSavings(updatedSavings);
-      toast.success('Saving deleted successfully');
+      await deleteRecord<Saving>('savings', saving.id);
+      setSavings(savings.filter(s => s.id !== saving.id));
+      toast.success('Saving moved to the recycle bin');
     } catch (error: any) {
       toast.error('Failed to delete saving: ' + error.message);
     }
@@ -140,13 +134,14 @@ export default function SavingsPage() {
     setShowAddForm(false);
     setEditingSaving(null);
     setViewingMemberId(null);
+    setFieldErrors({});
   };
 
   const handleEdit = (saving: Saving) => {
     setEditingSaving(saving);
     setFormData({
       memberId: saving.memberId,
-      amount: saving.amount.toString(),
+      amount: toInputValue(saving.amount),
       date: saving.date,
       remarks: saving.remarks || '',
     });
@@ -233,6 +228,7 @@ export default function SavingsPage() {
                           <option key={m.id} value={m.id}>{m.name} ({m.id})</option>
                         ))}
                     </select>
+                    <FieldError message={fieldErrors.memberId} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -247,6 +243,7 @@ export default function SavingsPage() {
                       onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-success touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.amount} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -259,6 +256,7 @@ export default function SavingsPage() {
                       onChange={(e) => setFormData({ ...formData, date: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-success touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.date} />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Remarks</label>
@@ -268,6 +266,7 @@ export default function SavingsPage() {
                       onChange={(e) => setFormData({ ...formData, remarks: e.target.value })}
                       className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-success touch-manipulation text-base"
                     />
+                    <FieldError message={fieldErrors.remarks} />
                   </div>
                 </div>
                 <div className="flex flex-col sm:flex-row gap-2">
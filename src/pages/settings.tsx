@@ -7,13 +7,55 @@
  */
 
 import { useState, useEffect } from 'react';
-import { readFile, writeFile, listFiles } from '@/lib/api';
-import { hashPassword } from '@/lib/auth';
-import type { Settings, Member, Saving, Loan, Payment, FinePayment, Expenditure } from '@/types';
+import {
+  readFile,
+  readCollections,
+  applyRecordChanges,
+  previewSnapshot,
+  restoreSnapshot,
+  getUsers,
+  addUser,
+  deleteUser,
+  listBackups,
+  createBackup,
+  restoreBackup,
+  restoreUploadedBackup,
+  getMigrationStatus,
+  runMigrations,
+  getStorageStatus,
+  transferData,
+  getIntegrityReport,
+  readConfig,
+  saveConfig,
+  type SnapshotPreview,
+  type RecordCollection,
+  type UserSummary,
+  type MigrationStatus,
+  type MigrationReport,
+  type StorageStatus,
+  type IntegrityReport,
+} from '@/lib/api';
+import type { Member, Saving, FinePayment } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Layout from '@/components/Layout';
-import { UserPlus, Upload, Download, RotateCcw, Save, FileText } from 'lucide-react';
+import RecycleBin from '@/components/RecycleBin';
+import { toPaisa, type Paisa } from '@/lib/money';
+import { formatCurrency, formatPercent } from '@/lib/utils';
+import {
+  memberPosition,
+  cashPosition,
+  withinPeriod,
+  agingReport,
+  parTrend,
+  AGING_BUCKETS,
+  AGING_LABELS,
+  DAY_COUNTS,
+  type DayCount,
+  type AllocationBucket,
+} from '@/lib/finance';
+import { DEFAULT_CONFIG, type GroupConfig } from '@/lib/config';
+import { UserPlus, Upload, Download, RotateCcw, Save, FileText, History, Database, Trash2, ShieldCheck, Percent, ArrowUp, ArrowDown } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 // PDF libraries
@@ -25,6 +67,22 @@ type LocalMember = Member & {
   isActive: boolean;
 }
 
+const DAY_COUNT_DESCRIPTIONS: Record<DayCount, string> = {
+  'actual/365': 'Interest for each day the principal is outstanding, 1/365 of the yearly rate per day',
+  '30/360': 'Every month counts as 30 days and the year as 360',
+  monthly: "A full month's interest for each month or part of one; repayments count from the next month",
+};
+
+const ALLOCATION_LABELS: Record<AllocationBucket, string> = {
+  fines: 'Due fines',
+  interest: 'Interest due',
+  'overdue-principal': 'Overdue principal',
+  'current-principal': 'Current principal',
+};
+
+// PDF reports show the paisa on every amount so their columns line up
+const formatReportAmount = (amount: Paisa): string => formatCurrency(amount, { fixed: true });
+
 // --- HELPER: Devanagari to English Transliteration ---
 const transliterateToEnglish = (text: string): string => {
   if (!text) return '';
@@ -126,9 +184,9 @@ const transliterateToEnglish = (text: string): string => {
 
 
   export default function SettingsPage() {
-  const [settings, setSettings] = useState<Settings | null>(null);
+  const [users, setUsers] = useState<UserSummary[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'users' | 'bulk' | 'backup' | 'reports'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'bulk' | 'interest' | 'backup' | 'recycle' | 'reports'>('users');
   const [backups, setBackups] = useState<string[]>([]);
   const { isAdmin } = useAuth();
 
@@ -136,7 +194,7 @@ const transliterateToEnglish = (text: string): string => {
     userId: '',
     name: '',
     password: '',
-    role: 'Viewer' as 'Admin' | 'Viewer',
+    role: 'Viewer' as 'Admin' | 'Committee' | 'Viewer',
   });
 
   const [bulkData, setBulkData] = useState('');
@@ -145,10 +203,35 @@ const transliterateToEnglish = (text: string): string => {
   const [selectedMemberIds, setSelectedMemberIds] = useState<Set<string>>(new Set());
   const [bulkFixedAmount, setBulkFixedAmount] = useState<string>('');
   const [bulkFixedDate, setBulkFixedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [bulkFixedFine, setBulkFixedFine] = useState<string>('');
   const [selectAllMembers, setSelectAllMembers] = useState<boolean>(true);
 
+  // Point-in-time restore states
+  const [restoreAt, setRestoreAt] = useState<string>('');
+  const [snapshot, setSnapshot] = useState<SnapshotPreview | null>(null);
+  const [snapshotLoading, setSnapshotLoading] = useState(false);
+  const [restoreCollections, setRestoreCollections] = useState<Set<RecordCollection>>(new Set());
+
+  // Data migration states
+  const [migrationStatus, setMigrationStatus] = useState<MigrationStatus | null>(null);
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null);
+  const [migrationRunning, setMigrationRunning] = useState(false);
+
+  // SQLite import/export states
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const [transferRunning, setTransferRunning] = useState(false);
+
+  // Integrity check states
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [integrityRunning, setIntegrityRunning] = useState(false);
+
+  // Group configuration states
+  const [config, setConfig] = useState<GroupConfig>(DEFAULT_CONFIG);
+  const [configSaving, setConfigSaving] = useState(false);
+
   // Report states
   const [reportLoading, setReportLoading] = useState(false);
+  const [agingReportLoading, setAgingReportLoading] = useState(false);
   const currentReportDate = new Date();
   const [reportFromYear, setReportFromYear] = useState<number>(currentReportDate.getFullYear());
   const [reportFromMonth, setReportFromMonth] = useState<number>(currentReportDate.getMonth() + 1);
@@ -157,18 +240,20 @@ const transliterateToEnglish = (text: string): string => {
 
   useEffect(() => {
     if (isAdmin) {
-      loadSettings();
+      loadUsers();
       loadBackups();
+      loadMigrationStatus();
+      loadStorageStatus();
       loadMembersForBulk();
+      loadConfig();
     }
   }, [isAdmin]);
 
-  const loadSettings = async () => {
+  const loadUsers = async () => {
     try {
-      const data = await readFile<Settings>('data/settings.json');
-      setSettings(data || { users: [] });
+      setUsers(await getUsers());
     } catch (error: any) {
-      toast.error('Failed to load settings: ' + error.message);
+      toast.error('Failed to load users: ' + error.message);
     } finally {
       setLoading(false);
     }
@@ -177,10 +262,8 @@ const transliterateToEnglish = (text: string): string => {
   // UPDATED: Filter logic added for active members
   const loadMembersForBulk = async () => {
     try {
-      // CHANGED: Reading membersData as any[] to handle the extra isActive property from file
-      const list = await readFile<any[]>('data/members.json');
-      const membersData = list || [];
-      
+      const { members: membersData } = await readCollections(['members']);
+
       // ADDED: Logic to process isActive status, defaulting to true if not present
       const membersWithStatus = membersData.map(m => ({
         ...m,
@@ -200,14 +283,116 @@ const transliterateToEnglish = (text: string): string => {
 
   const loadBackups = async () => {
     try {
-      const files = await listFiles('backups');
-      setBackups(files.filter(f => f.endsWith('.json')));
+      setBackups(await listBackups());
     } catch (error: any) {
       console.error('Failed to load backups:', error);
       toast.error('Failed to load backups: ' + error.message);
     }
   };
 
+  const loadConfig = async () => {
+    try {
+      setConfig(await readConfig());
+    } catch (error: any) {
+      console.error('Failed to load configuration:', error);
+    }
+  };
+
+  const handleSaveConfig = async () => {
+    if (!isAdmin) return;
+    setConfigSaving(true);
+    try {
+      await saveConfig(config);
+      toast.success('Interest and repayment settings saved');
+    } catch (error: any) {
+      toast.error('Failed to save interest and repayment settings: ' + error.message);
+    } finally {
+      setConfigSaving(false);
+    }
+  };
+
+  // Move a part of the repayment allocation one place up (-1) or down (+1)
+  const moveAllocationBucket = (index: number, offset: number) => {
+    const order = [...config.allocationOrder];
+    const [bucket] = order.splice(index, 1);
+    order.splice(index + offset, 0, bucket);
+    setConfig({ ...config, allocationOrder: order });
+  };
+
+  const loadMigrationStatus = async () => {
+    try {
+      setMigrationStatus(await getMigrationStatus());
+    } catch (error: any) {
+      console.error('Failed to load migration status:', error);
+    }
+  };
+
+  const handleRunMigrations = async (dryRun: boolean) => {
+    if (!isAdmin) return;
+    if (!dryRun && !confirm('Run the pending data migrations? The changes are saved as one commit.')) {
+      return;
+    }
+    setMigrationRunning(true);
+    try {
+      const report = await runMigrations(dryRun);
+      setMigrationReport(report);
+      if (!dryRun) {
+        toast.success(`Data migrated to schema version ${report.toVersion}`);
+        await loadMigrationStatus();
+      }
+    } catch (error: any) {
+      toast.error('Failed to run migrations: ' + error.message);
+    } finally {
+      setMigrationRunning(false);
+    }
+  };
+
+  const loadStorageStatus = async () => {
+    try {
+      setStorageStatus(await getStorageStatus());
+    } catch (error: any) {
+      console.error('Failed to load storage status:', error);
+    }
+  };
+
+  const handleTransfer = async (action: 'import' | 'export') => {
+    if (!isAdmin || !storageStatus) return;
+    const source = storageStatus.jsonBackend === 'github' ? 'the GitHub repository' : 'the local JSON files';
+    const question = action === 'import'
+      ? `Import all data and its history from ${source} into the SQLite database?`
+      : `Write the current data to ${source}? Files there are overwritten.`;
+    if (!confirm(question)) return;
+
+    setTransferRunning(true);
+    try {
+      const report = await transferData(action);
+      toast.success(
+        action === 'import'
+          ? `Imported ${report.commits} commit(s) of history and ${report.files} file(s)`
+          : `Exported ${report.files} changed file(s)`
+      );
+      if (action === 'import') await loadMigrationStatus();
+    } catch (error: any) {
+      toast.error(`Failed to ${action} data: ` + error.message);
+    } finally {
+      setTransferRunning(false);
+    }
+  };
+
+  const handleIntegrityCheck = async () => {
+    if (!isAdmin) return;
+    setIntegrityRunning(true);
+    try {
+      const report = await getIntegrityReport();
+      setIntegrityReport(report);
+      if (report.issues.length === 0) toast.success('No integrity issues found');
+    } catch (error: any) {
+      toast.error('Failed to check data integrity: ' + error.message);
+    } finally {
+      setIntegrityRunning(false);
+    }
+  };
+
   // UPDATED: Operates only on active members
   const toggleSelectAllMembers = (checked: boolean) => {
     setSelectAllMembers(checked);
@@ -232,7 +417,7 @@ const transliterateToEnglish = (text: string): string => {
       toast.error('Only admins can perform bulk operations');
       return;
     }
-    const amount = parseFloat(bulkFixedAmount || '0');
+    const amount = toPaisa(bulkFixedAmount || '0');
     if (!amount || amount <= 0) {
       toast.error('Enter a positive amount');
       return;
@@ -245,22 +430,44 @@ const transliterateToEnglish = (text: string): string => {
       toast.error('Select at least one member');
       return;
     }
+    const fineAmount = toPaisa(bulkFixedFine || '0');
+    if (isNaN(fineAmount) || fineAmount < 0) {
+      toast.error('Fine must be zero or a positive amount');
+      return;
+    }
     try {
       toast.loading(`Adding savings for ${selectedMemberIds.size} members...`, { id: 'bulk-saving' });
-      const existing = (await readFile<Saving[]>('data/savings.json')) || [];
-      const now = Date.now();
-      
       // IMPORTANT: The selectedMemberIds set only contains IDs of active members
-      const add: Saving[] = Array.from(selectedMemberIds).map((memberId, idx) => ({
-        id: `S-${now}-${idx}`,
+      // IDs are assigned by the server
+      const add: Omit<Saving, 'id'>[] = Array.from(selectedMemberIds).map(memberId => ({
         memberId,
         amount,
         date: bulkFixedDate,
         remarks: 'Bulk fixed saving',
       }));
-      await writeFile('data/savings.json', [...existing, ...add]);
-      toast.success(`Successfully added ${add.length} saving records`, { id: 'bulk-saving' });
+      const fines: Omit<FinePayment, 'id'>[] = fineAmount > 0
+        ? Array.from(selectedMemberIds).map(memberId => ({
+            memberId,
+            date: bulkFixedDate,
+            amount: fineAmount,
+            reason: 'Saving Default',
+            note: 'Bulk fixed saving',
+          }))
+        : [];
+
+      // Savings and fines are saved together: either all records are added or none
+      await applyRecordChanges([
+        ...add.map(record => ({ action: 'create' as const, collection: 'savings' as const, record })),
+        ...fines.map(record => ({ action: 'create' as const, collection: 'fines' as const, record })),
+      ]);
+      toast.success(
+        fines.length > 0
+          ? `Successfully added ${add.length} saving and ${fines.length} fine records`
+          : `Successfully added ${add.length} saving records`,
+        { id: 'bulk-saving' }
+      );
       setBulkFixedAmount('');
+      setBulkFixedFine('');
     } catch (error: any) {
       toast.error('Failed to add bulk savings: ' + error.message, { id: 'bulk-saving' });
       console.error('Bulk saving error:', error);
@@ -301,27 +508,13 @@ const transliterateToEnglish = (text: string): string => {
       return;
     }
     try {
-      const currentSettings = settings || { users: [] };
-      if (currentSettings.users.find(u => u.userId === userForm.userId)) {
+      if (users.find(u => u.userId === userForm.userId)) {
         toast.error('User ID already exists');
         return;
       }
-      const hashedPassword = await hashPassword(userForm.password);
-      const updatedUsers = [
-        ...currentSettings.users,
-        {
-          userId: userForm.userId,
-          name: userForm.name,
-          password: hashedPassword,
-          role: userForm.role,
-        },
-      ];
-      const updatedSettings: Settings = {
-        ...currentSettings,
-        users: updatedUsers,
-      };
-      await writeFile('data/settings.json', updatedSettings);
-      setSettings(updatedSettings);
+      // The password is hashed on the server
+      const created = await addUser(userForm);
+      setUsers([...users, created]);
       setUserForm({
         userId: '',
         name: '',
@@ -343,14 +536,8 @@ const transliterateToEnglish = (text: string): string => {
       return;
     }
     try {
-      const currentSettings = settings || { users: [] };
-      const updatedUsers = currentSettings.users.filter(u => u.userId !== userId);
-      const updatedSettings: Settings = {
-        ...currentSettings,
-        users: updatedUsers,
-      };
-      await writeFile('data/settings.json', updatedSettings);
-      setSettings(updatedSettings);
+      await deleteUser(userId);
+      setUsers(users.filter(u => u.userId !== userId));
       toast.success('User deleted successfully');
     } catch (error: any) {
       toast.error('Failed to delete user: ' + error.message);
@@ -390,22 +577,22 @@ const transliterateToEnglish = (text: string): string => {
           });
         }
       }
-      const membersList = await readFile<Member[]>('data/members.json') || [];
+      const { members: membersList } = await readCollections(['members']);
       const memberIds = new Set(membersList.map(m => m.id));
       const invalidRecords = records.filter(r => !memberIds.has(r.memberId) || isNaN(r.amount));
       if (invalidRecords.length > 0) {
         toast.error(`Invalid records found (check member ID or amount)`);
         return;
       }
-      const existingSavings = await readFile<Saving[]>('data/savings.json') || [];
-      const newSavings = records.map((record, idx) => ({
-        id: `S-${Date.now()}-${idx}`,
+      const newSavings: Omit<Saving, 'id'>[] = records.map(record => ({
         memberId: record.memberId,
-        amount: record.amount,
+        amount: toPaisa(record.amount),
         date: record.date,
         remarks: 'Bulk import',
       }));
-      await writeFile('data/savings.json', [...existingSavings, ...newSavings]);
+      await applyRecordChanges(
+        newSavings.map(record => ({ action: 'create' as const, collection: 'savings' as const, record }))
+      );
       toast.success(`Successfully imported ${newSavings.length} saving records`);
       setBulkData('');
     } catch (error: any) {
@@ -419,28 +606,8 @@ const transliterateToEnglish = (text: string): string => {
       return;
     }
     try {
-      const [members, savings, loans, payments, fines, expenditures, settingsData] = await Promise.all([
-        readFile('data/members.json'),
-        readFile('data/savings.json'),
-        readFile('data/loans.json'),
-        readFile('data/payments.json'),
-        readFile('data/fines.json'),
-        readFile('data/expenditures.json'),
-        readFile('data/settings.json'),
-      ]);
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      const backupData = {
-        timestamp,
-        members: members || [],
-        savings: savings || [],
-        loans: loans || [],
-        payments: payments || [],
-        fines: fines || [],
-        expenditures: expenditures || [],
-        settings: settingsData || { users: [] },
-      };
-      const filename = `backups/backup-${timestamp}.json`;
-      await writeFile(filename, backupData);
+      // The backup is made on the server, so it keeps the users' password hashes
+      await createBackup();
       toast.success('Backup created successfully');
       await loadBackups();
     } catch (error: any) {
@@ -457,20 +624,8 @@ const transliterateToEnglish = (text: string): string => {
       return;
     }
     try {
-      const backupData = await readFile<any>(backupPath);
-      if (!backupData) {
-        toast.error('Backup file not found');
-        return;
-      }
-      await Promise.all([
-        writeFile('data/members.json', backupData.members || []),
-        writeFile('data/savings.json', backupData.savings || []),
-        writeFile('data/loans.json', backupData.loans || []),
-        writeFile('data/payments.json', backupData.payments || []),
-        writeFile('data/fines.json', backupData.fines || []),
-        writeFile('data/expenditures.json', backupData.expenditures || []),
-        writeFile('data/settings.json', backupData.settings || { users: [] }),
-      ]);
+      // Restored on the server in one commit, so a failure cannot leave a half-restored state
+      await restoreBackup(backupPath);
       toast.success('Data restored successfully');
       window.location.reload();
     } catch (error: any) {
@@ -487,15 +642,8 @@ const transliterateToEnglish = (text: string): string => {
       return;
     }
     try {
-      await Promise.all([
-        writeFile('data/members.json', backupData.members || []),
-        writeFile('data/savings.json', backupData.savings || []),
-        writeFile('data/loans.json', backupData.loans || []),
-        writeFile('data/payments.json', backupData.payments || []),
-        writeFile('data/fines.json', backupData.fines || []),
-        writeFile('data/expenditures.json', backupData.expenditures || []),
-        writeFile('data/settings.json', backupData.settings || { users: [] }),
-      ]);
+      // Restored on the server in one commit; backups from older versions are migrated first
+      await restoreUploadedBackup(backupData);
       toast.success('Data restored from uploaded file');
       window.location.reload();
     } catch (error: any) {
@@ -503,28 +651,62 @@ const transliterateToEnglish = (text: string): string => {
     }
   };
 
+  const handlePreviewSnapshot = async () => {
+    if (!restoreAt) {
+      toast.error('Select a date and time');
+      return;
+    }
+    setSnapshotLoading(true);
+    try {
+      // datetime-local has no timezone: interpret it in the browser's local time
+      const preview = await previewSnapshot(new Date(restoreAt).toISOString());
+      setSnapshot(preview);
+      setRestoreCollections(new Set(preview.collections.map(c => c.collection)));
+    } catch (error: any) {
+      setSnapshot(null);
+      toast.error('Failed to load snapshot: ' + error.message);
+    } finally {
+      setSnapshotLoading(false);
+    }
+  };
+
+  const toggleRestoreCollection = (collection: RecordCollection, checked: boolean) => {
+    const next = new Set(restoreCollections);
+    if (checked) next.add(collection); else next.delete(collection);
+    setRestoreCollections(next);
+  };
+
+  const handleRestoreSnapshot = async () => {
+    if (!isAdmin || !snapshot) return;
+    if (restoreCollections.size === 0) {
+      toast.error('Select at least one collection to restore');
+      return;
+    }
+    const names = Array.from(restoreCollections).join(', ');
+    if (!confirm(`Restore ${names} to ${new Date(snapshot.commit.date).toLocaleString()}? Current data in these collections will be replaced.`)) {
+      return;
+    }
+    try {
+      toast.loading('Restoring...', { id: 'pit-restore' });
+      await restoreSnapshot(new Date(restoreAt).toISOString(), snapshot.commit.sha, Array.from(restoreCollections));
+      toast.success('Data restored successfully', { id: 'pit-restore' });
+      window.location.reload();
+    } catch (error: any) {
+      toast.error('Failed to restore: ' + error.message, { id: 'pit-restore' });
+    }
+  };
+
   // =========================================================
   // IMPROVED REPORT GENERATION (ID FIRST, SERIAL WISE, P&L, TRANSLITERATION)
   // =========================================================
   const generateReport = async () => {
     setReportLoading(true);
     try {
-      const [membersRes, savingsRes, loansRes, paymentsRes, finesRes, expRes] = await Promise.all([
-        readFile<Member[]>('data/members.json'),
-        readFile<Saving[]>('data/savings.json'),
-        readFile<Loan[]>('data/loans.json'),
-        readFile<Payment[]>('data/payments.json'),
-        readFile<FinePayment[]>('data/fines.json'),
-        readFile<Expenditure[]>('data/expenditures.json'),
-      ]);
+      const data = await readCollections(['members', 'savings', 'loans', 'payments', 'fines', 'expenditures']);
 
       // 1. Sort members by Member ID numerically
-      const members = (membersRes ?? []).sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
-      const savings = savingsRes ?? [];
-      const loans = loansRes ?? [];
-      const payments = paymentsRes ?? [];
-      const fines = finesRes ?? [];
-      const expenditures = expRes ?? [];
+      const members = data.members.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+      const { savings, loans, payments, fines, expenditures } = data;
 
       // Selected report range: from (YY, MM) through (YY, MM), inclusive.
       const startDate = new Date(reportFromYear, reportFromMonth - 1, 1);
@@ -536,60 +718,19 @@ const transliterateToEnglish = (text: string): string => {
       }
 
       const formatDateStr = (d: Date) => d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
-      const formatCurrency = (amount: number) => `Rs ${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
-
-      const inPeriod = (dateStr: string) => {
-        const d = new Date(dateStr);
-        return d >= startDate && d <= endDate;
-      };
-
-      const filteredSavings = savings.filter(s => inPeriod(s.date));
-      const filteredLoans = loans.filter(l => inPeriod(l.startDate));
-      const filteredPayments = payments.filter(p => inPeriod(p.date));
-      const filteredFines = fines.filter(f => inPeriod(f.date));
-      const filteredExpenditures = expenditures.filter(e => inPeriod(e.date));
-
-      let totalSavings = 0, totalLoansIssued = 0, totalPrincipalPaid = 0, totalInterest = 0;
-      let totalFines = 0, totalExpenditures = 0;
-
-      const memberData: Array<{
-        member: Member;
-        savings: number;
-        loansIssued: number;
-        principalPaid: number;
-        interestPaid: number;
-        fines: number;
-        netContribution: number;
-      }> = [];
-
-      members.forEach(member => {
-        const memSavings = filteredSavings.filter(s => s.memberId === member.id).reduce((sum, s) => sum + s.amount, 0);
-        const memLoans = filteredLoans.filter(l => l.memberId === member.id).reduce((sum, l) => sum + l.principal, 0);
-        const memPayments = filteredPayments.filter(p => p.memberId === member.id);
-        const memPrincipalPaid = memPayments.reduce((sum, p) => sum + p.principalPaid, 0);
-        const memInterestPaid = memPayments.reduce((sum, p) => sum + p.interestPaid, 0);
-        const memFines = filteredFines.filter(f => f.memberId === member.id).reduce((sum, f) => sum + f.amount, 0);
-
-        totalSavings += memSavings;
-        totalLoansIssued += memLoans;
-        totalPrincipalPaid += memPrincipalPaid;
-        totalInterest += memInterestPaid;
-        totalFines += memFines;
-
-        memberData.push({
-          member,
-          savings: memSavings,
-          loansIssued: memLoans,
-          principalPaid: memPrincipalPaid,
-          interestPaid: memInterestPaid,
-          fines: memFines,
-          netContribution: memSavings - (memLoans - memPrincipalPaid),
-        });
-      });
 
-      totalExpenditures = filteredExpenditures.reduce((sum, e) => sum + e.amount, 0);
-      const outstandingLoans = totalLoansIssued - totalPrincipalPaid;
-      const netBalance = totalSavings + totalInterest + totalFines - outstandingLoans - totalExpenditures;
+      const pad = (n: number) => String(n).padStart(2, '0');
+      const period = withinPeriod(
+        { savings, loans, payments, fines, expenditures },
+        `${reportFromYear}-${pad(reportFromMonth)}-01`,
+        `${reportToYear}-${pad(reportToMonth)}-${pad(endDate.getDate())}`
+      );
+
+      const memberData = members.map(member => ({ member, ...memberPosition(member.id, period) }));
+      const cash = cashPosition(period);
+      const { savings: totalSavings, interest: totalInterest, fines: totalFines, expenditures: totalExpenditures } = cash;
+      const outstandingLoans = cash.netLending;
+      const netBalance = cash.available;
       
       const grossIncome = totalInterest + totalFines;
       const netProfit = grossIncome - totalExpenditures;
@@ -630,9 +771,9 @@ const transliterateToEnglish = (text: string): string => {
         startY: y,
         head: [['Account Description', 'Amount']],
         body: [
-          ['Total Members Savings', formatCurrency(totalSavings)],
-          ['Total Outstanding Loans', formatCurrency(outstandingLoans)],
-          ['Net Available Cash Balance', formatCurrency(netBalance)],
+          ['Total Members Savings', formatReportAmount(totalSavings)],
+          ['Total Outstanding Loans', formatReportAmount(outstandingLoans)],
+          ['Net Available Cash Balance', formatReportAmount(netBalance)],
         ],
         theme: 'grid',
         headStyles: { fillColor: [30, 64, 175], textColor: 255, fontSize: 10, fontStyle: 'bold' },
@@ -655,11 +796,11 @@ const transliterateToEnglish = (text: string): string => {
         startY: y,
         head: [['Income & Expenditure Description', 'Amount']],
         body: [
-          ['Interest Earned (+)', formatCurrency(totalInterest)],
-          ['Fines Collected (+)', formatCurrency(totalFines)],
-          ['Total Revenue', formatCurrency(grossIncome)],
-          ['Operating Expenses (-)', formatCurrency(totalExpenditures)],
-          [netProfit >= 0 ? 'NET PROFIT' : 'NET LOSS', formatCurrency(netProfit)],
+          ['Interest Earned (+)', formatReportAmount(totalInterest)],
+          ['Fines Collected (+)', formatReportAmount(totalFines)],
+          ['Total Revenue', formatReportAmount(grossIncome)],
+          ['Operating Expenses (-)', formatReportAmount(totalExpenditures)],
+          [netProfit >= 0 ? 'NET PROFIT' : 'NET LOSS', formatReportAmount(netProfit)],
         ],
         theme: 'grid',
         headStyles: { fillColor: [5, 150, 105], textColor: 255, fontSize: 10, fontStyle: 'bold' },
@@ -691,12 +832,12 @@ const transliterateToEnglish = (text: string): string => {
           index + 1, // Sequential Serial Number
           m.member.id, // ID first
           transliterateToEnglish(m.member.name), // Transliterate Unicode Name to English
-          formatCurrency(m.savings),
-          formatCurrency(m.loansIssued),
-          formatCurrency(m.principalPaid),
-          formatCurrency(m.interestPaid),
-          formatCurrency(m.fines),
-          formatCurrency(m.netContribution),
+          formatReportAmount(m.savings),
+          formatReportAmount(m.loansIssued),
+          formatReportAmount(m.principalPaid),
+          formatReportAmount(m.interestPaid),
+          formatReportAmount(m.fines),
+          formatReportAmount(m.netContribution),
         ]),
         theme: 'striped',
         headStyles: { fillColor: [30, 64, 175], textColor: 255, fontSize: 8, fontStyle: 'bold' },
@@ -729,6 +870,164 @@ const transliterateToEnglish = (text: string): string => {
     }
   };
 
+  // Loan aging and portfolio at risk at the end of the report's "To" month (today for the current month)
+  const generateAgingReport = async () => {
+    setAgingReportLoading(true);
+    try {
+      const { members, loans, payments } = await readCollections(['members', 'loans', 'payments']);
+
+      const pad = (n: number) => String(n).padStart(2, '0');
+      const today = new Date().toISOString().slice(0, 10);
+      const monthEnd = `${reportToYear}-${pad(reportToMonth)}-${pad(new Date(reportToYear, reportToMonth, 0).getDate())}`;
+      const asOf = monthEnd < today ? monthEnd : today;
+
+      const aging = agingReport({ loans, payments }, asOf);
+      const trend = parTrend({ loans, payments }, asOf, 12);
+
+      const formatDateStr = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+      const doc = new jsPDF('p', 'mm', 'a4');
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      let y = 20;
+
+      // Header
+      doc.setFontSize(22);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Shree Thaleshwor Mahadev Yuwa Samuh', pageWidth / 2, y, { align: 'center' });
+
+      y += 10;
+      doc.setFontSize(16);
+      doc.text('Loan Aging & Portfolio at Risk', pageWidth / 2, y, { align: 'center' });
+
+      y += 8;
+      doc.setFontSize(11);
+      doc.setTextColor(100);
+      doc.text(`As of: ${formatDateStr(asOf)}`, pageWidth / 2, y, { align: 'center' });
+      y += 6;
+      doc.text(`Generated on: ${new Date().toLocaleString('en-GB')}`, pageWidth / 2, y, { align: 'center' });
+
+      y += 15;
+
+      // Section 1: Aging buckets
+      doc.setFillColor(30, 64, 175);
+      doc.rect(14, y, pageWidth - 28, 8, 'F');
+      doc.setTextColor(255);
+      doc.setFontSize(11);
+      doc.text('Aging Summary', pageWidth / 2, y + 5.5, { align: 'center' });
+      y += 12;
+
+      (doc as any).autoTable({
+        startY: y,
+        head: [['Days Overdue', 'Loans', 'Outstanding', 'Principal Arrears', 'Interest Arrears']],
+        body: [
+          ...AGING_BUCKETS.map(bucket => [
+            AGING_LABELS[bucket],
+            aging.buckets[bucket].loans,
+            formatReportAmount(aging.buckets[bucket].outstanding),
+            formatReportAmount(aging.buckets[bucket].principalArrears),
+            formatReportAmount(aging.buckets[bucket].interestArrears),
+          ]),
+          [
+            'Total',
+            aging.loans.length,
+            formatReportAmount(aging.portfolio),
+            formatReportAmount(AGING_BUCKETS.reduce((sum, b) => sum + aging.buckets[b].principalArrears, 0)),
+            formatReportAmount(AGING_BUCKETS.reduce((sum, b) => sum + aging.buckets[b].interestArrears, 0)),
+          ],
+        ],
+        theme: 'grid',
+        headStyles: { fillColor: [30, 64, 175], textColor: 255, fontSize: 10, fontStyle: 'bold' },
+        bodyStyles: { fontSize: 9, textColor: 0 },
+        columnStyles: { 1: { halign: 'center' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+        margin: { left: 14, right: 14 },
+        didParseCell: function(data: any) {
+          if (data.section === 'body' && data.row.index === AGING_BUCKETS.length) {
+            data.cell.styles.fontStyle = 'bold';
+          }
+        }
+      });
+
+      y = (doc as any).lastAutoTable.finalY + 10;
+
+      // Section 2: Portfolio at risk over the last 12 months
+      if (y > pageHeight - 60) { doc.addPage(); y = 20; }
+      doc.setFillColor(220, 38, 38);
+      doc.rect(14, y, pageWidth - 28, 8, 'F');
+      doc.setTextColor(255);
+      doc.setFontSize(11);
+      doc.text('Portfolio at Risk', pageWidth / 2, y + 5.5, { align: 'center' });
+      y += 12;
+
+      (doc as any).autoTable({
+        startY: y,
+        head: [['Month End', 'Portfolio', 'PAR30', 'PAR90']],
+        body: trend.map(point => [
+          formatDateStr(point.date),
+          formatReportAmount(point.portfolio),
+          formatPercent(point.par30),
+          formatPercent(point.par90),
+        ]),
+        theme: 'grid',
+        headStyles: { fillColor: [220, 38, 38], textColor: 255, fontSize: 10, fontStyle: 'bold' },
+        bodyStyles: { fontSize: 9, textColor: 0 },
+        columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right', fontStyle: 'bold' }, 3: { halign: 'right', fontStyle: 'bold' } },
+        margin: { left: 14, right: 14 },
+      });
+
+      y = (doc as any).lastAutoTable.finalY + 15;
+
+      // Section 3: Loans by days overdue
+      if (y > pageHeight - 40) { doc.addPage(); y = 20; }
+      doc.setFillColor(30, 64, 175);
+      doc.rect(14, y, pageWidth - 28, 8, 'F');
+      doc.setTextColor(255);
+      doc.setFontSize(11);
+      doc.text('Loan-wise Aging', pageWidth / 2, y + 5.5, { align: 'center' });
+      y += 12;
+
+      (doc as any).autoTable({
+        startY: y,
+        head: [['S.N.', 'ID', 'Member Name', 'Loan', 'Days', 'Outstanding', 'P. Arrears', 'Int. Arrears']],
+        body: aging.loans.map((loan, index) => [
+          index + 1,
+          loan.memberId,
+          transliterateToEnglish(members.find(m => m.id === loan.memberId)?.name || ''),
+          loan.loanId,
+          loan.daysOverdue,
+          formatReportAmount(loan.outstanding),
+          formatReportAmount(loan.principalArrears),
+          formatReportAmount(loan.interestArrears),
+        ]),
+        theme: 'striped',
+        headStyles: { fillColor: [30, 64, 175], textColor: 255, fontSize: 8, fontStyle: 'bold' },
+        bodyStyles: { fontSize: 7, textColor: 0 },
+        columnStyles: {
+          0: { cellWidth: 10, halign: 'center' },
+          1: { cellWidth: 18, fontStyle: 'bold' },
+          2: { cellWidth: 38 },
+          3: { cellWidth: 18 },
+          4: { cellWidth: 12, halign: 'center' },
+          5: { halign: 'right' },
+          6: { halign: 'right' },
+          7: { halign: 'right' },
+        },
+        margin: { left: 14, right: 14 },
+      });
+
+      doc.setFontSize(10);
+      doc.setTextColor(128);
+      doc.text('Shree Thaleshwor Mahadev Yuwa Samuh Management System', pageWidth / 2, pageHeight - 15, { align: 'center' });
+
+      doc.save(`Portfolio_at_Risk_${asOf}.pdf`);
+      toast.success('Portfolio at risk report downloaded!');
+    } catch (error: any) {
+      toast.error('Failed to generate report: ' + error.message);
+    } finally {
+      setAgingReportLoading(false);
+    }
+  };
+
   if (!isAdmin) {
     return (
       <ProtectedRoute requireAdmin>
@@ -773,12 +1072,24 @@ const transliterateToEnglish = (text: string): string => {
             >
               Bulk Saving
             </button>
+            <button
+              onClick={() => setActiveTab('interest')}
+              className={`px-4 py-2 font-medium transition-colors touch-manipulation whitespace-nowrap ${activeTab === 'interest' ? 'border-b-2 border-primary text-primary' : 'text-gray-600 hover:text-gray-800 active:text-gray-900'}`}
+            >
+              Interest & Repayments
+            </button>
             <button
               onClick={() => setActiveTab('backup')}
               className={`px-4 py-2 font-medium transition-colors touch-manipulation whitespace-nowrap ${activeTab === 'backup' ? 'border-b-2 border-primary text-primary' : 'text-gray-600 hover:text-gray-800 active:text-gray-900'}`}
             >
               Backup/Restore
             </button>
+            <button
+              onClick={() => setActiveTab('recycle')}
+              className={`px-4 py-2 font-medium transition-colors touch-manipulation whitespace-nowrap ${activeTab === 'recycle' ? 'border-b-2 border-primary text-primary' : 'text-gray-600 hover:text-gray-800 active:text-gray-900'}`}
+            >
+              Recycle Bin
+            </button>
             <button
               onClick={() => setActiveTab('reports')}
               className={`px-4 py-2 font-medium transition-colors touch-manipulation whitespace-nowrap ${activeTab === 'reports' ? 'border-b-2 border-primary text-primary' : 'text-gray-600 hover:text-gray-800 active:text-gray-900'}`}
@@ -840,10 +1151,11 @@ const transliterateToEnglish = (text: string): string => {
                       <select
                         required
                         value={userForm.role}
-                        onChange={(e) => setUserForm({ ...userForm, role: e.target.value as 'Admin' | 'Viewer' })}
+                        onChange={(e) => setUserForm({ ...userForm, role: e.target.value as 'Admin' | 'Committee' | 'Viewer' })}
                         className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary touch-manipulation text-base"
                       >
                         <option value="Viewer">Viewer</option>
+                        <option value="Committee">Committee (reviews loan applications)</option>
                         <option value="Admin">Admin</option>
                       </select>
                     </div>
@@ -860,7 +1172,7 @@ const transliterateToEnglish = (text: string): string => {
               <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
                 <h3 className="text-lg sm:text-xl font-semibold mb-4">Existing Users</h3>
                 <div className="space-y-2">
-                  {settings?.users.map((user) => (
+                  {users.map((user) => (
                     <div key={user.userId} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                       <div>
                         <p className="font-semibold">{user.name} ({user.userId})</p>
@@ -874,7 +1186,7 @@ const transliterateToEnglish = (text: string): string => {
                       </button>
                     </div>
                   ))}
-                  {(!settings?.users || settings.users.length === 0) && (
+                  {users.length === 0 && (
                     <p className="text-gray-500 text-center py-8">No users yet.</p>
                   )}
                 </div>
@@ -890,7 +1202,7 @@ const transliterateToEnglish = (text: string): string => {
                   <Upload size={24} />
                   Bulk Fixed Saving (Same Amount to Selected Members)
                 </h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Amount (per member) <span className="text-red-500">*</span>
@@ -915,6 +1227,20 @@ const transliterateToEnglish = (text: string): string => {
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Fine (per member, optional)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={bulkFixedFine}
+                      onChange={(e) => setBulkFixedFine(e.target.value)}
+                      placeholder="Saving default fine"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
                   <div className="flex items-end">
                     <button
                       onClick={applyBulkFixedSavings}
@@ -979,6 +1305,91 @@ const transliterateToEnglish = (text: string): string => {
           {/* Backup/Restore Tab */}
           {activeTab === 'backup' && (
             <div className="space-y-6">
+              <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2">
+                  <History size={24} />
+                  Restore to a Point in Time
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  Every save is kept in the history, so data can be restored as it was at any moment, even without a backup file.
+                  Pick a date and time to preview the data as of then.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                  <input
+                    type="datetime-local"
+                    value={restoreAt}
+                    onChange={(e) => {
+                      setRestoreAt(e.target.value);
+                      setSnapshot(null);
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary"
+                  />
+                  <button
+                    onClick={handlePreviewSnapshot}
+                    disabled={snapshotLoading}
+                    className="bg-primary text-white px-6 py-2.5 rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation font-medium disabled:opacity-50"
+                  >
+                    {snapshotLoading ? 'Loading...' : 'Preview'}
+                  </button>
+                </div>
+
+                {snapshot && (
+                  <div>
+                    <p className="text-sm text-gray-600 mb-3">
+                      State after <span className="font-medium">{snapshot.commit.message}</span> by {snapshot.commit.author} on{' '}
+                      {new Date(snapshot.commit.date).toLocaleString()}
+                    </p>
+                    <div className="border rounded-lg overflow-x-auto mb-4">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left">Restore</th>
+                            <th className="px-4 py-2 text-left">Collection</th>
+                            <th className="px-4 py-2 text-right">Records then</th>
+                            <th className="px-4 py-2 text-right">Records now</th>
+                            <th className="px-4 py-2 text-left">Restoring would</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                          {snapshot.collections.map(c => {
+                            const unchanged = c.added + c.removed + c.changed === 0;
+                            return (
+                              <tr key={c.collection}>
+                                <td className="px-4 py-2">
+                                  <input
+                                    type="checkbox"
+                                    checked={restoreCollections.has(c.collection)}
+                                    onChange={(e) => toggleRestoreCollection(c.collection, e.target.checked)}
+                                  />
+                                </td>
+                                <td className="px-4 py-2 capitalize">{c.collection}</td>
+                                <td className="px-4 py-2 text-right">{c.count}</td>
+                                <td className="px-4 py-2 text-right">{c.currentCount}</td>
+                                <td className="px-4 py-2 text-gray-600">
+                                  {unchanged
+                                    ? 'No change'
+                                    : [
+                                        c.added && `bring back ${c.added}`,
+                                        c.changed && `revert ${c.changed}`,
+                                        c.removed && `remove ${c.removed}`,
+                                      ].filter(Boolean).join(', ')}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                    <button
+                      onClick={handleRestoreSnapshot}
+                      className="px-6 py-2.5 bg-orange-600 text-white rounded-lg hover:bg-orange-700 touch-manipulation font-medium"
+                    >
+                      Restore Selected ({restoreCollections.size})
+                    </button>
+                  </div>
+                )}
+              </div>
+
               <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
                 <h3 className="text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2">
                   <Download size={24} />
@@ -1076,6 +1487,215 @@ const transliterateToEnglish = (text: string): string => {
                   )}
                 </div>
               </div>
+
+              <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2">
+                  <Database size={24} />
+                  Data Migrations
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  Upgrades stored data to the current format. Pending migrations also run automatically when the server starts.
+                </p>
+                {migrationStatus && (
+                  <p className="text-sm text-gray-700 mb-4">
+                    Schema version <span className="font-semibold">{migrationStatus.schemaVersion}</span> of{' '}
+                    <span className="font-semibold">{migrationStatus.latestVersion}</span>
+                    {migrationStatus.pending.length === 0
+                      ? ' - data is up to date.'
+                      : ` - ${migrationStatus.pending.length} migration(s) pending.`}
+                  </p>
+                )}
+                {migrationStatus && migrationStatus.pending.length > 0 && (
+                  <ul className="list-disc ml-6 mb-4 text-sm text-gray-600 space-y-1">
+                    {migrationStatus.pending.map(m => (
+                      <li key={m.version}>v{m.version}: {m.description}</li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex flex-col sm:flex-row gap-2 mb-4">
+                  <button
+                    onClick={() => handleRunMigrations(true)}
+                    disabled={migrationRunning}
+                    className="px-6 py-2.5 border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation font-medium disabled:opacity-50"
+                  >
+                    Dry Run
+                  </button>
+                  <button
+                    onClick={() => handleRunMigrations(false)}
+                    disabled={migrationRunning || !migrationStatus || migrationStatus.pending.length === 0}
+                    className="bg-primary text-white px-6 py-2.5 rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation font-medium disabled:opacity-50"
+                  >
+                    {migrationRunning ? 'Running...' : 'Run Migrations'}
+                  </button>
+                </div>
+                {migrationReport && (
+                  <div className="border rounded-lg p-4 bg-gray-50 text-sm">
+                    <p className="font-medium text-gray-800 mb-2">
+                      {migrationReport.dryRun ? 'Dry run' : 'Migrated'}: version {migrationReport.fromVersion} to {migrationReport.toVersion}
+                    </p>
+                    {migrationReport.steps.length === 0 ? (
+                      <p className="text-gray-600">Nothing to migrate.</p>
+                    ) : (
+                      <ul className="space-y-1 text-gray-700">
+                        {migrationReport.steps.map(step => {
+                          const changes = Object.entries(step.changed).map(([collection, count]) => `${count} ${collection}`);
+                          return (
+                            <li key={step.version}>
+                              v{step.version}: {step.description} - {changes.length > 0 ? `${migrationReport.dryRun ? 'would change' : 'changed'} ${changes.join(', ')}` : 'no records affected'}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2">
+                  <ShieldCheck size={24} />
+                  Integrity Check
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  Finds records that refer to missing or deleted members and loans, IDs used twice, and payments whose member
+                  is not the loan's member. New changes are checked when they are saved; this finds problems in older data.
+                </p>
+                <button
+                  onClick={handleIntegrityCheck}
+                  disabled={integrityRunning}
+                  className="bg-primary text-white px-6 py-2.5 rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation font-medium disabled:opacity-50 mb-4"
+                >
+                  {integrityRunning ? 'Checking...' : 'Run Check'}
+                </button>
+                {integrityReport && (
+                  <div className="border rounded-lg p-4 bg-gray-50 text-sm">
+                    <p className="font-medium text-gray-800 mb-2">
+                      Checked {Object.values(integrityReport.records).reduce((sum, count) => sum + count, 0)} records:{' '}
+                      {integrityReport.issues.length === 0 ? 'no issues found.' : `${integrityReport.issues.length} issue(s) found.`}
+                    </p>
+                    {integrityReport.issues.length > 0 && (
+                      <ul className="space-y-1 text-gray-700">
+                        {integrityReport.issues.map((issue, index) => (
+                          <li key={index}>
+                            <span className="font-mono">{issue.collection}/{issue.recordId}</span>: {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {storageStatus?.backend === 'sqlite' && (
+                <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+                  <h3 className="text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2">
+                    <Database size={24} />
+                    SQLite Storage
+                  </h3>
+                  <p className="text-gray-600 mb-4">
+                    Data is stored in the SQLite database. Import copies the data and its full history from{' '}
+                    {storageStatus.jsonBackend === 'github' ? 'the GitHub repository' : 'the local JSON files'} into an
+                    empty database; export writes the current data back as JSON files.
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <button
+                      onClick={() => handleTransfer('import')}
+                      disabled={transferRunning}
+                      className="bg-primary text-white px-6 py-2.5 rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation font-medium disabled:opacity-50"
+                    >
+                      {transferRunning ? 'Working...' : 'Import from JSON'}
+                    </button>
+                    <button
+                      onClick={() => handleTransfer('export')}
+                      disabled={transferRunning}
+                      className="px-6 py-2.5 border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation font-medium disabled:opacity-50"
+                    >
+                      Export to JSON
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Interest Tab */}
+          {activeTab === 'interest' && (
+            <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+              <h3 className="text-lg sm:text-xl font-semibold mb-2 flex items-center gap-2">
+                <Percent size={24} />
+                Interest Accrual
+              </h3>
+              <p className="text-gray-600 mb-4">
+                How interest accrues on the outstanding principal between payments. The payment form fills in the interest due on the payment date by this rule.
+              </p>
+              <div className="space-y-2 mb-4">
+                {DAY_COUNTS.map(dayCount => (
+                  <label key={dayCount} className="flex items-start gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="dayCount"
+                      checked={config.dayCount === dayCount}
+                      onChange={() => setConfig({ ...config, dayCount })}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium">{dayCount}</span>
+                      <span className="block text-sm text-gray-600">{DAY_COUNT_DESCRIPTIONS[dayCount]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <h3 className="text-lg sm:text-xl font-semibold mb-2">Repayment Allocation</h3>
+              <p className="text-gray-600 mb-4">
+                The order an amount received on a loan is split in. Admins can still change the split before saving a payment.
+              </p>
+              <ol className="space-y-2 mb-4 max-w-md">
+                {config.allocationOrder.map((bucket, index) => (
+                  <li key={bucket} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <span>{index + 1}. {ALLOCATION_LABELS[bucket]}</span>
+                    <span className="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => moveAllocationBucket(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-600 hover:bg-gray-200 rounded disabled:opacity-30"
+                      >
+                        <ArrowUp size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveAllocationBucket(index, 1)}
+                        disabled={index === config.allocationOrder.length - 1}
+                        className="p-1 text-gray-600 hover:bg-gray-200 rounded disabled:opacity-30"
+                      >
+                        <ArrowDown size={16} />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+              <button
+                onClick={handleSaveConfig}
+                disabled={configSaving}
+                className="bg-primary text-white px-6 py-2.5 rounded-lg hover:bg-primary/90 active:bg-primary/80 touch-manipulation font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                <Save size={18} />
+                {configSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          )}
+
+          {/* Recycle Bin Tab */}
+          {activeTab === 'recycle' && (
+            <div className="bg-white p-4 sm:p-6 rounded-xl shadow-lg">
+              <h3 className="text-lg sm:text-xl font-semibold mb-2 flex items-center gap-2">
+                <Trash2 size={24} />
+                Recycle Bin
+              </h3>
+              <p className="text-gray-600 mb-4">
+                Deleted records are kept here and left out of every list, total and report. Restore puts a record back; Purge removes it for good.
+              </p>
+              <RecycleBin />
             </div>
           )}
 
@@ -1165,6 +1785,22 @@ const transliterateToEnglish = (text: string): string => {
                 {reportLoading && (
                   <p className="text-center text-gray-500 mt-6">Generating report, please wait...</p>
                 )}
+
+                <div className="mt-6 max-w-2xl">
+                  <p className="text-sm text-gray-600 mb-3">
+                    Loan aging by days overdue and the portfolio at risk over the 12 months up to the end of the &quot;To&quot; month.
+                  </p>
+                  <button
+                    onClick={generateAgingReport}
+                    disabled={agingReportLoading}
+                    className="w-full bg-danger text-white py-4 px-6 rounded-lg shadow hover:bg-danger/90 disabled:opacity-60 flex items-center justify-center gap-2 font-medium"
+                  >
+                    <Download size={20} />
+                    {agingReportLoading
+                      ? 'Generating Report...'
+                      : `Portfolio at Risk Report (${reportToYear}-${String(reportToMonth).padStart(2, '0')})`}
+                  </button>
+                </div>
               </div>
             </div>
           )}
@@ -1,58 +1,163 @@
 /**
  * Type definitions for the application
+ * Amounts are integer paisa (see lib/money.ts).
  */
 
-export interface Member {
+import type { Paisa } from '@/lib/money';
+
+/**
+ * Set when a record is moved to the recycle bin. Deleted records stay in their collection
+ * until an admin purges them, and are left out of every list, total and report.
+ */
+export interface SoftDeleted {
+  deletedAt?: string; // ISO timestamp
+  deletedBy?: string; // userId of the admin who deleted it
+}
+
+export interface Member extends SoftDeleted {
   id: string;
   name: string;
   phone: string;
   joinDate: string;
   address?: string;
+  isActive?: boolean;
 }
 
-export interface Saving {
+export interface Saving extends SoftDeleted {
   id: string;
   memberId: string;
-  amount: number;
+  amount: Paisa;
   date: string;
   remarks?: string;
 }
 
-export interface Loan {
+/**
+ * How a loan is repaid over its term (see lib/finance/schedule.ts):
+ * interest-only: interest every month, all principal in the last month;
+ * equal-principal: the same principal every month, plus interest on the declining balance;
+ * emi: equal monthly instalments of principal and interest
+ */
+export type RepaymentType = 'interest-only' | 'equal-principal' | 'emi';
+
+/**
+ * Where a loan is in its life (see lib/finance/workflow.ts): an application is reviewed,
+ * approved and disbursed, becomes active once repayments start and is closed when repaid.
+ * Applications can be rejected until the money is disbursed.
+ */
+export type LoanStatus = 'applied' | 'under-review' | 'approved' | 'disbursed' | 'active' | 'closed' | 'rejected';
+
+/**
+ * A member standing guarantee for a loan with part of their savings (see lib/finance/guarantees.ts)
+ */
+export interface LoanGuarantee {
+  memberId: string;
+  amount: Paisa; // pledged
+}
+
+/**
+ * Security held against a loan, with its scanned documents; released back to the member once
+ * the loan is closed
+ */
+export interface Collateral {
+  id: string; // unique within the loan, e.g. C1
+  type: 'land' | 'building' | 'vehicle' | 'gold' | 'other';
+  description: string; // e.g. plot number and location on the land papers
+  value: Paisa; // estimated
+  custodian: string; // who keeps the papers
+  documents?: CollateralDocument[];
+  releasedDate?: string; // when the documents went back to the member
+  releasedBy?: string; // userId of who recorded the release
+  releasedAt?: string; // ISO timestamp, when the release was recorded
+}
+
+export interface CollateralDocument {
+  name: string;
+  url: string;
+  type?: string; // MIME type
+  uploadedAt: string; // ISO timestamp
+}
+
+/**
+ * How a loan was restructured (see lib/finance/restructuring.ts):
+ * top-up: more money lent on top of what is outstanding;
+ * extension: a longer term; rate-change: a new interest rate;
+ * consolidation: several loans of a member replaced by one
+ */
+export type RestructuringKind = 'top-up' | 'extension' | 'rate-change' | 'consolidation';
+
+/**
+ * On a loan that replaces others: what it was restructured from. The replaced loans keep their
+ * original terms and are closed with the principal they carried over.
+ */
+export interface LoanRestructuring {
+  kind: RestructuringKind;
+  date: string; // when the new terms start
+  from: string[]; // ids of the loans replaced
+  carried: Paisa; // their outstanding principal on that date, carried into this loan
+  topUp: Paisa; // new money lent on top; 0 unless a top-up
+}
+
+/**
+ * On a replaced loan: the outstanding principal carried into its successor
+ */
+export interface LoanTransfer {
+  date: string;
+  principal: Paisa;
+}
+
+/**
+ * One step of a loan's workflow: who moved it to a status, when, and why
+ */
+export interface LoanStatusChange {
+  status: LoanStatus;
+  at: string; // ISO timestamp
+  by: string; // userId
+  comment?: string;
+}
+
+export interface Loan extends SoftDeleted {
   id: string;
   memberId: string;
-  principal: number;
+  principal: Paisa;
   interestRate: number; // annual percentage
   startDate: string;
   termMonths: number;
+  repayment?: RepaymentType; // interest-only when not set
   purpose?: string;
-  status?: 'active' | 'closed';
+  guarantors?: LoanGuarantee[]; // one or two; loans added before guarantees have none
+  collateral?: Collateral[];
+  restructuredFrom?: LoanRestructuring;
+  transferred?: LoanTransfer;
+  status: LoanStatus;
+  history?: LoanStatusChange[]; // oldest first; loans added before the workflow have none
 }
 
-export interface Payment {
+export interface Payment extends SoftDeleted {
   id: string;
   loanId: string;
   memberId: string;
   date: string;
-  principalPaid: number;
-  interestPaid: number;
+  principalPaid: Paisa;
+  interestPaid: Paisa;
   remarks?: string;
 }
 
-export interface FinePayment {
+export interface FinePayment extends SoftDeleted {
   id: string;
   memberId: string;
   date: string;
-  amount: number;
+  amount: Paisa;
   reason: 'Saving Default' | 'Interest Default' | 'Other';
   note?: string;
+  status?: 'due' | 'paid'; // paid when not set; due fines are settled from loan repayments
+  paidDate?: string; // when a due fine was paid
 }
 
-export interface Expenditure {
+export interface Expenditure extends SoftDeleted {
   id: string;
   date: string;
   item: string; // e.g., DayBook, A4 Paper, Pen, Stamp, Inkpad, etc.
-  amount: number;
+  amount: Paisa;
   note?: string;
 }
 
@@ -61,12 +166,14 @@ export interface Settings {
     userId: string;
     name: string;
     password: string; // hashed
-    role: 'Admin' | 'Viewer';
+    role: 'Admin' | 'Committee' | 'Viewer';
   }>;
 }
 
 export interface BackupData {
   timestamp: string;
+  /** Schema version of the data when the backup was made (missing in older backups) */
+  schemaVersion?: number;
   members: Member[];
   savings: Saving[];
   loans: Loan[];